@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * follow-relay.mjs
+ * WebSocket relay for classroom follow-along: an instructor's app publishes which deck and slide it is on,
+ * and every learner that joined the same class code is sent along. Run it on the LAN (or localhost):
+ *
+ *   npm run relay -- [--port 8787] [--host 0.0.0.0]
+ *
+ * Learners' apps connect to VITE_FOLLOW_RELAY_URL, or ws://<the page's host>:8787 when it is unset.
+ * Several classes can run at once — each class code is its own room. Nothing is stored on disk.
+ * The messages must match src/lib/followAlong.ts.
+ */
+import { WebSocketServer } from "ws";
+import { parseArgs } from "node:util";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "8787" },
+    host: { type: "string", default: "0.0.0.0" },
+  },
+});
+
+const CODE = /^[A-Z2-9]{4,8}$/;
+/** A class whose instructor and learners have all gone is forgotten after this long */
+const EMPTY_ROOM_TTL_MS = 30 * 60_000;
+const HEARTBEAT_MS = 30_000;
+
+/** @type {Map<string, { secret: string | null, host: import("ws").WebSocket | null, learners: Set<import("ws").WebSocket>, position: unknown, emptySince: number | null }>} */
+const rooms = new Map();
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const roomFor = (code) => {
+  let room = rooms.get(code);
+  if (!room) {
+    room = { secret: null, host: null, learners: new Set(), position: null, emptySince: null };
+    rooms.set(code, room);
+  }
+  room.emptySince = null;
+  return room;
+};
+
+const followerCount = (room) => {
+  if (room.host) send(room.host, { type: "followers", count: room.learners.size });
+};
+
+const isPosition = (p) =>
+  typeof p === "object" && p !== null && typeof p.deckId === "string" && p.deckId.length <= 100 && Number.isInteger(p.slide) && p.slide >= 1;
+
+const wss = new WebSocketServer({ port: Number(values.port), host: values.host, maxPayload: 4 * 1024 });
+
+wss.on("connection", (socket) => {
+  /** @type {{ code: string, role: "host" | "learner" } | null} */
+  let member = null;
+  socket.isAlive = true;
+  socket.on("pong", () => { socket.isAlive = true; });
+
+  socket.on("message", (data) => {
+    let msg;
+    try {
+      msg = JSON.parse(String(data));
+    } catch {
+      return send(socket, { type: "error", reason: "bad-message" });
+    }
+    if (!member && (msg.type === "host" || msg.type === "join")) {
+      if (typeof msg.code !== "string" || !CODE.test(msg.code)) return send(socket, { type: "error", reason: "bad-message" });
+      const room = roomFor(msg.code);
+      if (msg.type === "host") {
+        // The first instructor's secret claims the code; only the same secret can take it back after a reconnect
+        if (typeof msg.secret !== "string" || msg.secret.length < 8) return send(socket, { type: "error", reason: "bad-message" });
+        if (room.secret && room.secret !== msg.secret) return send(socket, { type: "error", reason: "code-taken" });
+        room.secret = msg.secret;
+        room.host?.close();
+        room.host = socket;
+        member = { code: msg.code, role: "host" };
+        send(socket, { type: "hosted", followers: room.learners.size });
+        for (const learner of room.learners) send(learner, { type: "host-back" });
+      } else {
+        room.learners.add(socket);
+        member = { code: msg.code, role: "learner" };
+        send(socket, { type: "joined", position: room.position, instructorOnline: room.host !== null });
+        followerCount(room);
+      }
+      return;
+    }
+    if (member?.role === "host" && msg.type === "move" && isPosition(msg.position)) {
+      const room = rooms.get(member.code);
+      if (!room || room.host !== socket) return;
+      room.position = { deckId: msg.position.deckId, slide: msg.position.slide };
+      for (const learner of room.learners) send(learner, { type: "move", position: room.position });
+      return;
+    }
+    send(socket, { type: "error", reason: "bad-message" });
+  });
+
+  socket.on("close", () => {
+    if (!member) return;
+    const room = rooms.get(member.code);
+    if (!room) return;
+    if (member.role === "host" && room.host === socket) {
+      room.host = null;
+      for (const learner of room.learners) send(learner, { type: "host-left" });
+    } else if (member.role === "learner") {
+      room.learners.delete(socket);
+      followerCount(room);
+    }
+    if (!room.host && room.learners.size === 0) room.emptySince = Date.now();
+  });
+});
+
+// Drop connections that stopped answering (laptops closed mid-class) and forget long-empty classes
+setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+  for (const [code, room] of rooms) {
+    if (room.emptySince && Date.now() - room.emptySince > EMPTY_ROOM_TTL_MS) rooms.delete(code);
+  }
+}, HEARTBEAT_MS);
+
+wss.on("listening", () => console.log(`Follow-along relay listening on ws://${values.host}:${values.port}`));
@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+/**
+ * hash-access-code.mjs
+ * Hashes an access code for src/data/accessCodes.json, so the code itself never ships in the bundle.
+ *
+ *   npm run hash-code -- <code> [--role learner|presenter|author] [--label "Cohort 12"]
+ *                               [--decks backend,databases] [--expires 2026-12-31]
+ *                               [--idle-minutes 5] [--lock-on-hidden] [--write]
+ *
+ * Prints the JSON entry; --write appends it to the config file instead.
+ * The parameters must match verifyAccessCode() in src/lib/access.ts.
+ */
+import { pbkdf2Sync, randomBytes } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+const CONFIG = new URL("../src/data/accessCodes.json", import.meta.url);
+const ITERATIONS = 100_000;
+const ROLES = ["learner", "presenter", "author"];
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    role: { type: "string", default: "learner" },
+    label: { type: "string" },
+    decks: { type: "string" },
+    expires: { type: "string" },
+    "idle-minutes": { type: "string" },
+    "lock-on-hidden": { type: "boolean", default: false },
+    write: { type: "boolean", default: false },
+  },
+});
+
+const code = positionals[0]?.trim();
+const fail = (message) => {
+  console.error(message);
+  process.exit(1);
+};
+if (!code) fail("Usage: npm run hash-code -- <code> [--role learner|presenter|author] [--label …] [--decks a,b] [--expires YYYY-MM-DD] [--idle-minutes n] [--lock-on-hidden] [--write]");
+if (!ROLES.includes(values.role)) fail(`--role must be one of ${ROLES.join(", ")}`);
+if (values.expires && !/^\d{4}-\d{2}-\d{2}$/.test(values.expires)) fail("--expires must be a date like 2026-12-31");
+const idleMinutes = values["idle-minutes"] === undefined ? undefined : Number(values["idle-minutes"]);
+if (idleMinutes !== undefined && !(idleMinutes >= 0)) fail("--idle-minutes must be a number of minutes (0 never locks)");
+if (code.length < 8) console.warn("Warning: short codes can be brute-forced from their hash — prefer 8+ characters.");
+
+const salt = randomBytes(16).toString("hex");
+const entry = {
+  label: values.label ?? `${values.role} code`,
+  role: values.role,
+  ...(values.decks ? { decks: values.decks.split(",").map((d) => d.trim()).filter(Boolean) } : {}),
+  ...(values.expires ? { expires: values.expires } : {}),
+  ...(idleMinutes !== undefined ? { idleMinutes } : {}),
+  ...(values["lock-on-hidden"] ? { lockOnHidden: true } : {}),
+  iterations: ITERATIONS,
+  salt,
+  hash: pbkdf2Sync(code, Buffer.from(salt, "hex"), ITERATIONS, 32, "sha256").toString("hex"),
+};
+
+if (values.write) {
+  const config = JSON.parse(readFileSync(CONFIG, "utf8"));
+  config.push(entry);
+  writeFileSync(CONFIG, JSON.stringify(config, null, 2) + "\n");
+  console.log(`Added "${entry.label}" (${entry.role}) to src/data/accessCodes.json`);
+} else {
+  console.log(JSON.stringify(entry, null, 2));
+}
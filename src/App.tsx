@@ -1,34 +1,157 @@
 import { useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import Gatekeeper from "./components/Gatekeeper";
+import DeckPicker from "./components/DeckPicker";
 import Dashboard from "./components/Dashboard";
+import IdleWarning from "./components/IdleWarning";
+import PresenterView from "./components/PresenterView";
+import { decks, deckLoadErrors, findDeck, type Deck } from "./data/decks";
+import { can, canOpenDeck, sessionPolicy, type AccessSession, type SessionPolicy } from "./lib/access";
+import { recordSessionLock, type LockReason } from "./lib/accessLog";
+import { useIdleLock } from "./hooks/useIdleLock";
+import { useRoute } from "./hooks/useRoute";
+import { useFollowAlong } from "./hooks/useFollowAlong";
+import { HOME } from "./lib/routes";
+import { globalStop } from "./hooks/useSpeech";
+import { DEFAULT_VOICE_PREFS, loadVoicePrefs, setVoicePrefs } from "./lib/voicePrefs";
 import "./App.css";
 
+const SIGNED_OUT_POLICY: SessionPolicy = { idleMs: null, warningMs: 0, lockOnHidden: false };
+
 export default function App() {
-  const [unlocked, setUnlocked] = useState(false);
+  // Set by a valid access code; its role and deck scope decide what is available
+  const [session, setSession] = useState<AccessSession | null>(null);
+  // A locked session keeps the workspace mounted (slide, zoom, chat) but inert behind the gate
+  const [lockReason, setLockReason] = useState<LockReason | null>(null);
+  // A presenter window, auto-play or the course playlist is running, so nobody is expected to touch the screen
+  const [handsFree, setHandsFree] = useState(false);
+  // The open deck, slide, panel tab and deep dive come from the URL, so links and back / forward work;
+  // a deep link opened while signed out stays in the address bar and opens once the gate is passed
+  const { route, navigate } = useRoute();
+  const deckId = route.deckId;
+  // Decks imported from a file during this session
+  const [importedDecks, setImportedDecks] = useState<Deck[]>([]);
+
+  // Imported decks were brought in by an author, so the code's deck scope does not hide them
+  const visibleDecks = session ? [...decks.filter((d) => canOpenDeck(session, d.id)), ...importedDecks] : [];
+  const deck = deckId ? findDeck(deckId, importedDecks) : undefined;
+  const openDeck = deck && visibleDecks.includes(deck) ? deck : undefined;
+
+  // Classroom follow-along outlives the open deck — an instructor can take the class to another one
+  const classroom = useFollowAlong(
+    openDeck ? { deckId: openDeck.id, slide: route.slide ?? 1 } : null,
+    (target) => navigate({ ...HOME, deckId: target.deckId, slide: target.slide }),
+  );
+
+  // Voice settings belong to whoever holds the code, so they change with the session
+  const signIn = (next: AccessSession) => {
+    setVoicePrefs(loadVoicePrefs(next.label));
+    setSession(next);
+  };
+
+  const exit = () => {
+    classroom.leave();
+    setVoicePrefs(DEFAULT_VOICE_PREFS);
+    setSession(null);
+    setLockReason(null);
+    navigate(HOME);
+  };
+
+  const selectDeck = (id: string) => navigate({ ...HOME, deckId: id });
+
+  const { warningSeconds, stayActive } = useIdleLock(
+    session ? sessionPolicy(session) : SIGNED_OUT_POLICY,
+    session !== null && lockReason === null && !handsFree,
+    (reason) => {
+      if (!session) return;
+      globalStop();
+      recordSessionLock(session, reason);
+      setLockReason(reason);
+    },
+  );
+
+  const resume = (next: AccessSession) => {
+    // Someone else's code starts a fresh session instead of resuming this one
+    if (next.label !== session?.label) navigate(HOME);
+    signIn(next);
+    setLockReason(null);
+  };
+
+  // A presenter window gets its session and deck from the audience window that opened it
+  if (route.presenter) return <PresenterView presentationId={route.presenter} />;
 
   return (
-    <AnimatePresence mode="wait">
-      {!unlocked ? (
-        <motion.div
-          key="gate"
-          initial={{ opacity: 1 }}
-          exit={{ opacity: 0 }}
-          transition={{ duration: 0.4 }}
-        >
-          <Gatekeeper onUnlock={() => setUnlocked(true)} />
-        </motion.div>
-      ) : (
-        <motion.div
-          key="dashboard"
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          transition={{ duration: 0.4 }}
-          style={{ height: "100vh" }}
-        >
-          <Dashboard onExit={() => setUnlocked(false)} />
-        </motion.div>
-      )}
-    </AnimatePresence>
+    <>
+      <div inert={lockReason !== null}>
+        <AnimatePresence mode="wait">
+          {!session ? (
+            <motion.div
+              key="gate"
+              initial={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.4 }}
+            >
+              <Gatekeeper onUnlock={signIn} />
+            </motion.div>
+          ) : !openDeck ? (
+            <motion.div
+              key="picker"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.4 }}
+            >
+              <DeckPicker
+                decks={visibleDecks}
+                loadErrors={can(session, "import") ? deckLoadErrors : []}
+                session={session}
+                unavailableDeckId={deckId}
+                followingClass={classroom.state.mode === "following" ? classroom.state.code : null}
+                onLeaveClass={classroom.leave}
+                onSelect={selectDeck}
+                onImport={(d) => { setImportedDecks((prev) => [...prev, d]); selectDeck(d.id); }}
+                onExit={exit}
+              />
+            </motion.div>
+          ) : (
+            <motion.div
+              key={`dashboard-${openDeck.id}`}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.4 }}
+              style={{ height: "100vh" }}
+            >
+              <Dashboard deck={openDeck} session={session} locked={lockReason !== null}
+                route={route} onNavigate={navigate} onHandsFreeChange={setHandsFree}
+                classroom={classroom}
+                onExit={exit} onChangeDeck={() => navigate(HOME)} />
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {/* ── Session lock ── */}
+      <AnimatePresence>
+        {session && lockReason && (
+          <motion.div
+            key="lock"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            className="fixed inset-0 z-[100] overflow-y-auto"
+            // Keys typed into the code field must not reach the workspace's document-level shortcuts
+            onKeyDown={(e) => e.stopPropagation()}
+          >
+            <Gatekeeper locked={{ session, reason: lockReason }} onUnlock={resume} onSignOut={exit} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {warningSeconds !== null && lockReason === null && (
+          <IdleWarning seconds={warningSeconds} onStay={stayActive} />
+        )}
+      </AnimatePresence>
+    </>
   );
 }
@@ -1,19 +1,25 @@
-import { useState, useRef, useEffect } from "react";
+import { Fragment, useState, useRef, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Sparkles, Send, Bot, User, CheckCircle2, Trash2, Pencil, Check, X, BookOpen, Volume2, Mic, MicOff, MessageCircle, Headphones, FileText, Pause, Play, Square } from "lucide-react";
 import type { Slide } from "../data/slides";
+import type { Deck } from "../data/decks";
+import type { PanelTab } from "../lib/routes";
 import AISummaryPlayer from "./AISummaryPlayer";
+import ReadAlongSentence from "./ReadAlongSentence";
 import { useTTS, useSTT, globalStop } from "../hooks/useSpeech";
+import { useShortcuts } from "../hooks/useShortcuts";
+import { sentenceSpans } from "../lib/readAlong";
 
 const BACKEND_URL = (import.meta.env.VITE_BACKEND_URL || "https://elexcio-backend.onrender.com") as string;
 
 // ── AI-generated summary for the Summary tab ──────────────────────────────
-async function getAISummaryData(slide: Slide): Promise<{ description: string; keyPoints: string[] }> {
+async function getAISummaryData(slide: Slide, deck: Deck): Promise<{ description: string; keyPoints: string[] }> {
   try {
     const res = await fetch(`${BACKEND_URL}/api/summary`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
+        deckTitle: deck.title,
         slideTitle: slide.title,
         slideDescription: slide.description,
         slideKeyPoints: slide.keyPoints,
@@ -33,12 +39,12 @@ async function getAISummaryData(slide: Slide): Promise<{ description: string; ke
   };
 }
 
-async function getAIResponse(question: string, slide: Slide): Promise<string> {
+async function getAIResponse(question: string, slide: Slide, deck: Deck): Promise<string> {
   try {
     const res = await fetch(`${BACKEND_URL}/api/chat`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ question, slideTitle: slide.title }),
+      body: JSON.stringify({ question, deckTitle: deck.title, slideTitle: slide.title }),
     });
     if (res.ok) {
       const data = await res.json() as { reply?: string; error?: string };
@@ -55,10 +61,20 @@ interface Message {
 }
 
 interface AIInsightsPanelProps {
+  deck: Deck;
   slide: Slide;
+  /** The open tab lives in the URL, so the dashboard owns it */
+  activeTab: PanelTab;
+  onTabChange: (tab: PanelTab) => void;
+  /** False while a dialog or the deep dive has the keyboard, or the panel is hidden */
+  shortcutsEnabled: boolean;
+  /** Incremented by the chat shortcut to focus the question field */
+  chatFocusRequest: number;
+  /** Told about every question asked, so a presenter window can list them */
+  onQuestion?: (text: string) => void;
 }
 
-export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
+export default function AIInsightsPanel({ deck, slide, activeTab, onTabChange, shortcutsEnabled, chatFocusRequest, onQuestion }: AIInsightsPanelProps) {
   // Store messages per slide — switching slides never deletes history
   const [allMessages, setAllMessages] = useState<Record<number, Message[]>>({});
   const messages = allMessages[slide.id] ?? [];
@@ -72,11 +88,11 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
 
   const [input, setInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
-  const [activeTab, setActiveTab] = useState<"summary" | "chat" | "listen">("summary");
   const [hoveredId, setHoveredId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editText, setEditText] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   // ── AI-generated summary (different from slide static content) ──
   const [aiSummary, setAiSummary] = useState<{ description: string; keyPoints: string[] } | null>(null);
@@ -85,7 +101,7 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
   useEffect(() => {
     setAiSummary(null);
     setSummaryLoading(true);
-    getAISummaryData(slide).then((result) => {
+    getAISummaryData(slide, deck).then((result) => {
       setAiSummary(result);
       setSummaryLoading(false);
     });
@@ -101,29 +117,52 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
   });
 
   // ── Smart audio switching: read a new piece of text, stopping whatever plays ──
-  const readAloud = (text: string) => {
+  const readAloud = (text: string, from = 0) => {
     globalStop();
     setTtsText(text);
     // speak on next tick after ttsText state updates
-    setTimeout(() => tts.speak(text), 60);
+    setTimeout(() => tts.speak(text, from), 60);
   };
 
-  // Stop audio when slide changes
+  // A chat answer is read along while it is this panel's text; clicking a sentence reads on from there
+  const readMessageFrom = (text: string, from: number) => {
+    if (text === ttsText) tts.playFrom(from);
+    else readAloud(text, from);
+  };
+
+  // Stop this panel's audio when slide changes — a course playlist keeps playing
   const prevSlideId = useRef(slide.id);
+  const stopSpeaking = tts.stop;
   useEffect(() => {
     if (prevSlideId.current !== slide.id) {
-      globalStop();
+      stopSpeaking();
       setTtsText("");
       prevSlideId.current = slide.id;
     }
-  }, [slide.id]);
+  }, [slide.id, stopSpeaking]);
 
   const uid = () => Math.random().toString(36).slice(2);
 
-  // When switching slides, just switch to summary tab — messages are preserved
+  // Space pauses and resumes whatever this panel is reading, or reads the summary; the Listen tab's player takes over while it is open
+  useShortcuts({
+    speak: () => {
+      if (tts.state === "playing") tts.pause();
+      else if (tts.state === "paused") tts.play();
+      else if (aiSummary) readAloud(aiSummary.description);
+    },
+  }, shortcutsEnabled);
+
+  // Only requests made while mounted — a panel opened later does not grab the focus
+  const handledFocusRequest = useRef(chatFocusRequest);
+  useEffect(() => {
+    if (chatFocusRequest === handledFocusRequest.current) return;
+    handledFocusRequest.current = chatFocusRequest;
+    inputRef.current?.focus();
+  }, [chatFocusRequest]);
+
+  // When switching slides, stop editing — messages are preserved and the tab stays open
   useEffect(() => {
     if (prevSlideId.current !== slide.id) {
-      setActiveTab("summary");
       setEditingId(null);
     }
   }, [slide.id]);
@@ -136,10 +175,11 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
     if (!text.trim()) return;
     const userMsg: Message = { id: uid(), role: "user", text: text.trim() };
     setMessages((prev) => [...prev, userMsg]);
+    onQuestion?.(userMsg.text);
     setInput("");
     setIsTyping(true);
-    setActiveTab("chat");
-    const reply = await getAIResponse(text, slide);
+    onTabChange("chat");
+    const reply = await getAIResponse(text, slide, deck);
     setMessages((prev) => [...prev, { id: uid(), role: "ai", text: reply }]);
     setIsTyping(false);
     // Audio is NOT auto-played — user can click the 🔊 button on any message
@@ -258,6 +298,8 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
           <div className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full"
             style={{ background: "rgba(255,255,255,0.12)", border: "1px solid rgba(255,255,255,0.18)" }}>
             <span className="w-1.5 h-1.5 rounded-full bg-blue-300 flex-shrink-0" />
+            <span className="text-[11px] font-semibold text-white/60 truncate max-w-[120px]">{deck.title}</span>
+            <span className="text-[11px] text-white/40">/</span>
             <span className="text-[11px] font-bold text-white/90 truncate max-w-[200px]">{slide.title}</span>
           </div>
         </div>
@@ -269,7 +311,7 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
         {TABS.map(({ id, label, icon: Icon }) => (
           <motion.button
             key={id}
-            onClick={() => setActiveTab(id)}
+            onClick={() => onTabChange(id)}
             whileTap={{ scale: 0.95 }}
             className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl text-[11px] font-black transition-all tracking-wide relative overflow-hidden"
             style={activeTab === id
@@ -417,7 +459,7 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
             initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -8 }}
             transition={{ duration: 0.18 }}
             className="flex-1 overflow-y-auto min-h-0">
-            <AISummaryPlayer slide={slide} />
+            <AISummaryPlayer slide={slide} shortcutsEnabled={shortcutsEnabled} />
           </motion.div>
         )}
 
@@ -508,7 +550,15 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
                             style={msg.role === "user"
                               ? { background: "linear-gradient(135deg, #2563eb, #3b82f6)", boxShadow: "0 4px 14px #2563eb30" }
                               : { background: "#fff", border: "1px solid #e8edf5", boxShadow: "0 2px 8px #0000000a" }}>
-                            {msg.text}
+                            {msg.role === "ai"
+                              ? sentenceSpans(msg.text).map((span, j) => (
+                                <Fragment key={span.start}>
+                                  {j > 0 && " "}
+                                  <ReadAlongSentence span={span} spokenAt={msg.text === ttsText ? tts.spokenAt : null}
+                                    onSeek={(from) => readMessageFrom(msg.text, from)} />
+                                </Fragment>
+                              ))
+                              : msg.text}
                           </div>
 
                           {/* Hover actions */}
@@ -607,7 +657,7 @@ export default function AIInsightsPanel({ slide }: AIInsightsPanelProps) {
         <form onSubmit={handleSubmit} className="flex items-center gap-2">
           {/* Input */}
           <div className="flex-1 relative">
-            <input type="text" value={input}
+            <input ref={inputRef} type="text" value={input}
               onChange={(e) => setInput(e.target.value)}
               placeholder={stt.listening ? "🎤 Listening…" : `Ask about ${slide.title}…`}
               className="w-full text-[13px] px-4 py-3 rounded-2xl outline-none transition-all font-medium"
@@ -6,6 +6,10 @@ import {
 } from "lucide-react";
 import type { Slide } from "../data/slides";
 import { useTTS } from "../hooks/useSpeech";
+import { useShortcuts } from "../hooks/useShortcuts";
+import { toRichBlocks, richBlocksToSentences } from "../lib/richContent";
+import { joinSentences } from "../lib/readAlong";
+import ReadAlongSentence from "./ReadAlongSentence";
 
 /* ─── Backend API helper ─── */
 const BACKEND_URL = (import.meta.env.VITE_BACKEND_URL || "https://elexcio-backend.onrender.com") as string;
@@ -20,7 +24,7 @@ const LENGTH_CONFIG: Record<Exclude<SummaryLength, "custom">, { label: string; l
 
 /**
  * Build a rich ordered pool of raw sentences from slide data.
- * Order: description → keyPoints → realWorldExample → aiInsight → deepDive paragraphs
+ * Order: description → keyPoints → realWorldExample → aiInsight → deepDive blocks
  * This pool is always large enough for even "detailed" (14 sentences).
  */
 function buildSentencePool(slide: Slide): string[] {
@@ -45,17 +49,9 @@ function buildSentencePool(slide: Slide): string[] {
     pool.push(...parts);
   }
 
-  // 5. deepDive paragraphs — split into sentences, add clean ones
+  // 5. deepDive blocks — paragraphs, list items and callouts as clean sentences
   if (slide.deepDive) {
-    const paragraphs = slide.deepDive.split("\n\n");
-    for (const para of paragraphs) {
-      const sents = para
-        .replace(/^[•\-\*]\s*/gm, "") // strip bullet chars
-        .split(/(?<=[.!?])\s+/)
-        .map(s => s.trim())
-        .filter(s => s.length > 15 && !s.startsWith("•") && !s.startsWith("-"));
-      pool.push(...sents);
-    }
+    pool.push(...richBlocksToSentences(toRichBlocks(slide.deepDive)).filter(s => s.length > 15));
   }
 
   // Deduplicate and cap at 20
@@ -111,9 +107,10 @@ async function generateSummary(slide: Slide, lines: number, temperature: number)
 /* ─── Main component ─── */
 interface Props {
   slide: Slide;
+  shortcutsEnabled: boolean;
 }
 
-export default function AISummaryPlayer({ slide }: Props) {
+export default function AISummaryPlayer({ slide, shortcutsEnabled }: Props) {
   const [summaryLength, setSummaryLength] = useState<SummaryLength>("medium");
   const [customLines, setCustomLines] = useState(8);
   const [showCustomInput, setShowCustomInput] = useState(false);
@@ -121,10 +118,10 @@ export default function AISummaryPlayer({ slide }: Props) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [genError, setGenError] = useState<string | null>(null);
 
-  // Join sentences into one string for TTS
-  const summaryText = sentences.length > 0 ? sentences.join(" ") : null;
+  // Join sentences into one string for TTS, remembering where each starts for read-along
+  const { text: summaryText, spans } = joinSentences(sentences);
 
-  const tts = useTTS(summaryText ?? "");
+  const tts = useTTS(summaryText);
 
   // Reset summary when slide changes
   const prevSlideId = useRef(slide.id);
@@ -171,6 +168,13 @@ export default function AISummaryPlayer({ slide }: Props) {
   const isDone    = tts.state === "done";
   const hasAudio  = sentences.length > 0 && !isGenerating;
 
+  useShortcuts({
+    speak: () => {
+      if (isPlaying) tts.pause();
+      else if (hasAudio) tts.play();
+    },
+  }, shortcutsEnabled);
+
   return (
     <div className="flex flex-col gap-5 px-5 py-4">
 
@@ -331,7 +335,7 @@ export default function AISummaryPlayer({ slide }: Props) {
                 </span>
               </div>
               <ol className="space-y-2 relative z-10">
-                {sentences.map((s, i) => (
+                {spans.map((span, i) => (
                   <motion.li
                     key={i}
                     initial={{ opacity: 0, x: -6 }}
@@ -345,7 +349,9 @@ export default function AISummaryPlayer({ slide }: Props) {
                     >
                       {i + 1}
                     </span>
-                    <p className="text-[13px] text-gray-700 leading-relaxed">{s}</p>
+                    <p className="text-[13px] text-gray-700 leading-relaxed">
+                      <ReadAlongSentence span={span} spokenAt={tts.spokenAt} onSeek={tts.playFrom} />
+                    </p>
                   </motion.li>
                 ))}
               </ol>
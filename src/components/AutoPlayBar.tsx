@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Pause, Play, SkipForward, SlidersHorizontal, X } from "lucide-react";
+import type { AutoPlay } from "../hooks/useAutoPlay";
+import {
+  MAX_DWELL_SECONDS, MIN_DWELL_SECONDS, RESUME_AFTER_OPTIONS, type AutoPlaySettings,
+} from "../lib/autoPlay";
+
+interface AutoPlayBarProps {
+  autoPlay: AutoPlay;
+  settings: AutoPlaySettings;
+  onSettingsChange: (settings: AutoPlaySettings) => void;
+  slideNumber: number;
+  slideCount: number;
+}
+
+const resumeLabel = (seconds: number) =>
+  seconds === 0 ? "Never" : seconds < 60 ? `${seconds}s` : `${seconds / 60} min`;
+
+/** Floating status and controls while auto-play runs — above the deep dive, which it may open */
+export default function AutoPlayBar({ autoPlay, settings, onSettingsChange, slideNumber, slideCount }: AutoPlayBarProps) {
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const { phase, pausedBy, secondsLeft } = autoPlay;
+  const last = slideNumber === slideCount;
+
+  const status = pausedBy
+    ? "Paused"
+    : phase === "narrating"
+    ? `Narrating slide ${slideNumber} of ${slideCount}`
+    : last && !settings.loop
+    ? `Finishing in ${secondsLeft}s`
+    : last
+    ? `Back to the start in ${secondsLeft}s`
+    : `Next slide in ${secondsLeft}s`;
+  const hint = pausedBy === "interaction" && settings.resumeAfterSeconds > 0
+    ? `Carries on after ${resumeLabel(settings.resumeAfterSeconds)} without input`
+    : pausedBy
+    ? "Press Resume to carry on"
+    : null;
+  const meter = phase === "narrating" ? autoPlay.progress / 100 : 1 - secondsLeft / settings.dwellSeconds;
+
+  const update = (changes: Partial<AutoPlaySettings>) => onSettingsChange({ ...settings, ...changes });
+
+  return (
+    <motion.div
+      data-autoplay-controls
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 16 }}
+      transition={{ duration: 0.2 }}
+      className="fixed bottom-5 inset-x-3 mx-auto max-w-md z-[60] bg-white rounded-2xl shadow-2xl overflow-hidden"
+      style={{ border: "1px solid #e0e9ff" }}
+    >
+      <AnimatePresence initial={false}>
+        {settingsOpen && (
+          <motion.div
+            initial={{ height: 0 }}
+            animate={{ height: "auto" }}
+            exit={{ height: 0 }}
+            transition={{ duration: 0.18 }}
+            className="overflow-hidden"
+          >
+            <div className="px-4 pt-4 pb-3 space-y-3 border-b border-gray-100">
+              <label className="block">
+                <span className="flex justify-between text-[11.5px] font-bold text-gray-600">
+                  Time on each slide after its narration
+                  <span className="tabular-nums text-blue-600">{settings.dwellSeconds}s</span>
+                </span>
+                <input type="range" min={MIN_DWELL_SECONDS} max={MAX_DWELL_SECONDS} value={settings.dwellSeconds}
+                  onChange={(e) => update({ dwellSeconds: Number(e.target.value) })}
+                  className="w-full accent-blue-600" />
+              </label>
+              <label className="flex items-center gap-2 text-[12px] font-semibold text-gray-700">
+                <input type="checkbox" checked={settings.openDeepDive} className="accent-blue-600"
+                  onChange={(e) => update({ openDeepDive: e.target.checked })} />
+                Open the deep dive while a slide waits
+              </label>
+              <label className="flex items-center gap-2 text-[12px] font-semibold text-gray-700">
+                <input type="checkbox" checked={settings.loop} className="accent-blue-600"
+                  onChange={(e) => update({ loop: e.target.checked })} />
+                Start again after the last slide
+              </label>
+              <label className="flex items-center justify-between gap-2 text-[12px] font-semibold text-gray-700">
+                Carry on after someone touches the screen
+                <select value={settings.resumeAfterSeconds}
+                  onChange={(e) => update({ resumeAfterSeconds: Number(e.target.value) })}
+                  className="text-[12px] font-bold text-blue-600 bg-white border border-gray-200 rounded-lg px-2 py-1 outline-none">
+                  {RESUME_AFTER_OPTIONS.map((s) => <option key={s} value={s}>{resumeLabel(s)}</option>)}
+                </select>
+              </label>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <div className="flex items-center gap-3 px-4 py-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-[13px] font-bold text-gray-800 truncate tabular-nums">{status}</p>
+          {hint && <p className="text-[11px] text-gray-500 truncate">{hint}</p>}
+        </div>
+        <button onClick={() => (pausedBy ? autoPlay.resume() : autoPlay.pause())}
+          title={pausedBy ? "Resume" : "Pause"}
+          className="p-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700 transition-colors">
+          {pausedBy ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+        </button>
+        <button onClick={autoPlay.skip} title="Next slide now"
+          className="p-2 rounded-xl text-gray-500 hover:text-blue-600 hover:bg-blue-50 transition-colors">
+          <SkipForward className="w-4 h-4" />
+        </button>
+        <button onClick={() => setSettingsOpen((o) => !o)} title="Auto-play settings"
+          className={`p-2 rounded-xl transition-colors ${settingsOpen ? "text-blue-600 bg-blue-50" : "text-gray-500 hover:text-blue-600 hover:bg-blue-50"}`}>
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+        <button onClick={autoPlay.stop} title="Stop auto-play"
+          className="p-2 rounded-xl text-gray-500 hover:text-red-500 hover:bg-red-50 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Narration progress, then the countdown to the next slide */}
+      <div className="h-[3px]" style={{ background: "#e8edf5" }}>
+        <div className="h-full transition-[width] duration-200 ease-linear"
+          style={{ width: `${Math.min(1, Math.max(0, meter)) * 100}%`, background: phase === "dwell" ? "#f59e0b" : "#2563eb" }} />
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useMemo, useState } from "react";
+import { Copy, Check, Download, Play, Loader2, RotateCcw, X } from "lucide-react";
+import type { CodeFile } from "../data/slides";
+import { highlightLines, type TokenKind } from "../lib/highlight";
+import { runSnippet, type RunLine, type RunLineKind } from "../lib/runSnippet";
+import { runSql, seedTables, type SqlRunResult } from "../lib/sqlPlayground";
+
+const TOKEN_COLOR: Record<TokenKind, string> = {
+  plain:       "#e5e7eb",
+  keyword:     "#c678dd",
+  string:      "#98c379",
+  number:      "#d19a66",
+  comment:     "#7f848e",
+  function:    "#61afef",
+  property:    "#e06c75",
+  literal:     "#d19a66",
+  type:        "#e5c07b",
+  variable:    "#e06c75",
+  punctuation: "#abb2bf",
+};
+
+const OUTPUT_COLOR: Record<RunLineKind, string> = {
+  log:      "#e5e7eb",
+  info:     "#60a5fa",
+  warn:     "#fbbf24",
+  error:    "#f87171",
+  request:  "#a78bfa",
+  response: "#34d399",
+  emit:     "#f472b6",
+};
+
+const MAX_RESULT_ROWS = 200;
+
+type RunOutput =
+  | { kind: "js"; lines: RunLine[] }
+  | { kind: "sql"; result: SqlRunResult };
+
+function SqlResults({ result }: { result: SqlRunResult }) {
+  if (!result.ok) {
+    return (
+      <p className="whitespace-pre-wrap" style={{ color: OUTPUT_COLOR.error }}>
+        {result.inSeed ? "Error in the slide's seed data: " : "Error: "}{result.error}
+      </p>
+    );
+  }
+  const timing = `${result.ms.toFixed(1)} ms`;
+  if (result.results.length === 0) {
+    return (
+      <p style={{ color: OUTPUT_COLOR.response }}>
+        ✓ Statement ran · {result.rowsModified} row{result.rowsModified === 1 ? "" : "s"} affected · {timing}
+      </p>
+    );
+  }
+  return (
+    <div className="space-y-3">
+      {result.results.map((set, i) => (
+        <div key={i}>
+          <div className="overflow-x-auto rounded-md border border-white/10">
+            <table className="w-full text-left">
+              <thead>
+                <tr style={{ background: "#ffffff0d" }}>
+                  {set.columns.map((col, c) => (
+                    <th key={c} className="px-2.5 py-1.5 font-semibold text-gray-300 border-b border-white/10 whitespace-nowrap">{col}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {set.rows.slice(0, MAX_RESULT_ROWS).map((row, r) => (
+                  <tr key={r} className="border-b border-white/5 last:border-0">
+                    {row.map((value, c) => (
+                      <td key={c} className="px-2.5 py-1 whitespace-nowrap"
+                        style={{ color: value === null ? "#6b7280" : typeof value === "number" ? TOKEN_COLOR.number : "#e5e7eb" }}>
+                        {value === null ? "NULL" : String(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-1 text-gray-500">
+            {set.rows.length} row{set.rows.length === 1 ? "" : "s"}
+            {set.rows.length > MAX_RESULT_ROWS && ` (showing first ${MAX_RESULT_ROWS})`} · {timing}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CodeExampleProps {
+  files: CodeFile[];
+  /** Seed script for SQL files — when set, SQL examples get a Run button */
+  sqlSeed?: string;
+}
+
+export default function CodeExample({ files, sqlSeed }: CodeExampleProps) {
+  const [active, setActive] = useState(0);
+  const [copied, setCopied] = useState(false);
+  // Run mode: learner edits per tab, and the output of the last run
+  const [runMode, setRunMode] = useState(false);
+  const [edits, setEdits] = useState<Record<number, string>>({});
+  const [output, setOutput] = useState<RunOutput | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const fileIndex = Math.min(active, files.length - 1);
+  const file = files[fileIndex];
+  const code = edits[fileIndex] ?? file.code;
+  const isRunnable = (language: string) => language === "javascript" || (language === "sql" && !!sqlSeed);
+  const runnable = isRunnable(file.language);
+  const lines = useMemo(() => highlightLines(code, file.language), [code, file.language]);
+
+  const switchTab = (i: number) => {
+    setActive(i);
+    setCopied(false);
+    setOutput(null);
+    if (!isRunnable(files[i].language)) setRunMode(false);
+  };
+
+  const run = async () => {
+    if (running) return;
+    setRunning(true);
+    try {
+      setOutput(file.language === "sql" && sqlSeed
+        ? { kind: "sql", result: await runSql(sqlSeed, code) }
+        : { kind: "js", lines: await runSnippet(code) });
+    } catch (err) {
+      // The sandbox could not start at all, e.g. workers blocked by a Content-Security-Policy
+      setOutput({ kind: "js", lines: [{ kind: "error", text: `Couldn't start the sandbox: ${(err as Error).message}` }] });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const resetCode = () => {
+    setEdits((prev) => {
+      const next = { ...prev };
+      delete next[fileIndex];
+      return next;
+    });
+    setOutput(null);
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch { /* clipboard blocked — nothing to do */ }
+  };
+
+  const download = () => {
+    const blob = new Blob([code], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-xl overflow-hidden border border-gray-200 shadow-sm">
+      {/* ── Title bar: window dots, file tabs, actions ── */}
+      <div className="flex items-center gap-1.5 pl-4 pr-2 bg-gray-900">
+        <div className="w-3 h-3 rounded-full bg-red-500 flex-shrink-0" />
+        <div className="w-3 h-3 rounded-full bg-yellow-500 flex-shrink-0" />
+        <div className="w-3 h-3 rounded-full bg-green-500 flex-shrink-0" />
+        <div className="ml-2 flex-1 min-w-0 flex items-end gap-0.5 overflow-x-auto">
+          {files.map((f, i) => (
+            <button key={`${f.name}-${i}`}
+              onClick={() => switchTab(i)}
+              className="px-3 py-2.5 text-xs font-mono whitespace-nowrap transition-colors"
+              style={f === file
+                ? { color: "#e5e7eb", background: "#030712", borderTop: "2px solid #2563eb" }
+                : { color: "#6b7280", borderTop: "2px solid transparent" }}>
+              {f.name}
+            </button>
+          ))}
+        </div>
+        {runnable && (
+          <button onClick={() => { setRunMode((m) => !m); setOutput(null); }}
+            title={runMode ? "Back to the highlighted view" : "Edit and run this snippet in a sandbox"}
+            className="flex items-center gap-1 px-2 py-1 mr-1 rounded-md text-[11px] font-bold transition-colors"
+            style={runMode
+              ? { color: "#e5e7eb", background: "#ffffff1a" }
+              : { color: "#34d399", background: "#34d39914" }}>
+            {runMode ? <X className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            {runMode ? "Close" : "Run"}
+          </button>
+        )}
+        <button onClick={copy} title="Copy code"
+          className="p-1.5 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/10 transition-colors">
+          {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+        </button>
+        <button onClick={download} title={`Download ${file.name}`}
+          className="p-1.5 rounded-md text-gray-500 hover:text-gray-200 hover:bg-white/10 transition-colors">
+          <Download className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {runMode ? (
+        <>
+          {/* ── Editable snippet ── */}
+          <textarea
+            value={code}
+            spellCheck={false}
+            rows={Math.min(Math.max(lines.length + 1, 6), 24)}
+            onChange={(e) => setEdits((prev) => ({ ...prev, [fileIndex]: e.target.value }))}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) { e.preventDefault(); run(); }
+            }}
+            className="block w-full bg-gray-950 text-gray-100 text-xs font-mono p-4 leading-relaxed outline-none resize-y"
+            style={{ caretColor: "#34d399" }}
+          />
+          <div className="flex items-center gap-2 px-3 py-2 bg-gray-900 border-t border-white/5">
+            <button onClick={run} disabled={running}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-[11px] font-bold text-white disabled:opacity-50"
+              style={{ background: "#059669" }}>
+              {running ? <Loader2 className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />}
+              {running ? "Running…" : "Run"}
+            </button>
+            {edits[fileIndex] !== undefined && (
+              <button onClick={resetCode}
+                className="flex items-center gap-1 px-2 py-1.5 rounded-md text-[11px] font-bold text-gray-400 hover:text-gray-200 transition-colors">
+                <RotateCcw className="w-3 h-3" /> Reset
+              </button>
+            )}
+            <span className="ml-auto text-[10px] text-gray-500 truncate">
+              {file.language === "sql" && sqlSeed
+                ? `Ctrl+Enter · in-memory SQLite · tables: ${seedTables(sqlSeed).join(", ")} · reset every run`
+                : "Ctrl+Enter · offline sandbox with mock express, jwt, io & User"}
+            </span>
+          </div>
+          {/* ── Console ── */}
+          {output && (
+            <div className="bg-black px-4 py-3 text-[11px] font-mono leading-relaxed max-h-64 overflow-y-auto border-t border-white/5">
+              {output.kind === "sql" ? (
+                <SqlResults result={output.result} />
+              ) : output.lines.length === 0 ? (
+                <p className="text-gray-500 italic">Finished with no output.</p>
+              ) : output.lines.map((line, i) => (
+                <p key={i} className="whitespace-pre-wrap break-words" style={{ color: OUTPUT_COLOR[line.kind] }}>
+                  {line.text}
+                </p>
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        /* ── Highlighted code with line numbers ── */
+        <pre className="bg-gray-950 text-xs font-mono py-4 overflow-x-auto leading-relaxed">
+          {lines.map((tokens, n) => (
+            <div key={n} className="flex">
+              <span className="select-none text-right text-gray-600 pl-3 pr-4 flex-shrink-0"
+                style={{ minWidth: `${String(lines.length).length + 3}ch` }}>
+                {n + 1}
+              </span>
+              <code className="pr-4 whitespace-pre">
+                {tokens.length === 0 ? " " : tokens.map((t, j) => (
+                  <span key={j} style={{ color: TOKEN_COLOR[t.kind], fontStyle: t.kind === "comment" ? "italic" : undefined }}>
+                    {t.text}
+                  </span>
+                ))}
+              </code>
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
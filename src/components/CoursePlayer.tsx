@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { ChevronsRight, Headphones, Moon, Pause, Play, SkipForward, Square } from "lucide-react";
+import type { Slide } from "../data/slides";
+import type { CoursePlaylist } from "../hooks/useCoursePlaylist";
+import { SLEEP_MINUTES } from "../lib/coursePlaylist";
+import { formatClock } from "../lib/presenter";
+
+interface CoursePlayerProps {
+  playlist: CoursePlaylist;
+  slides: Slide[];
+  /** The slide on screen — the range starts there by default */
+  current: number;
+  onStart: (from: number, to: number) => void;
+  onGoToSlide: (index: number) => void;
+}
+
+const slideLabel = (index: number, title: string) => `${String(index + 1).padStart(2, "0")} · ${title}`;
+
+/** Header mini player for the course playlist — the queue keeps reading while the learner browses */
+export default function CoursePlayer({ playlist, slides, current, onStart, onGoToSlide }: CoursePlayerProps) {
+  const { status, item, sentence, at, queue, sleep, sleepLeftMs } = playlist;
+  const [open, setOpen] = useState(false);
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const last = slides.length - 1;
+  const from = Math.min(range?.from ?? current, last);
+  const to = Math.min(range?.to ?? last, last);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") setOpen(false); };
+    document.addEventListener("pointerdown", onPointer);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("pointerdown", onPointer);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  return (
+    <div ref={rootRef} className="relative">
+      {status === "off" ? (
+        <motion.button
+          whileHover={{ scale: 1.04 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => setOpen((o) => !o)}
+          title="Listen to the course"
+          className="flex items-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl transition-all duration-200 border text-blue-600 hover:bg-blue-50"
+          style={{ background: "#ffffff", borderColor: "#2563eb35" }}
+        >
+          <Headphones className="w-3.5 h-3.5" />
+          <span className="hidden lg:inline">Listen</span>
+        </motion.button>
+      ) : (
+        <div className="flex items-center gap-0.5 pl-1 pr-1.5 py-1 rounded-xl border"
+          style={{ background: "#2563eb0a", borderColor: "#2563eb35" }}>
+          <button onClick={status === "playing" ? playlist.pause : playlist.resume}
+            title={status === "playing" ? "Pause" : "Resume"}
+            className="p-1.5 rounded-lg text-white bg-blue-600 hover:bg-blue-700 transition-colors">
+            {status === "playing" ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+          </button>
+          <button onClick={() => setOpen((o) => !o)} title="Now playing"
+            className="flex items-center gap-1 px-1.5 text-[11.5px] font-bold text-blue-700 hover:text-blue-900 min-w-0">
+            <span className="hidden lg:inline truncate max-w-[9rem]">{item && slideLabel(item.slideIndex, item.title)}</span>
+            <span className="lg:hidden tabular-nums">{item && String(item.slideIndex + 1).padStart(2, "0")}</span>
+            {sleep && (
+              <span className="flex items-center gap-0.5 text-[10.5px] text-blue-500 tabular-nums">
+                <Moon className="w-3 h-3" />
+                {sleepLeftMs !== null && formatClock(sleepLeftMs)}
+              </span>
+            )}
+          </button>
+          <button onClick={() => playlist.skip("sentence")} title="Skip sentence"
+            className="p-1.5 rounded-lg text-blue-500 hover:text-blue-700 hover:bg-blue-100 transition-colors">
+            <ChevronsRight className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => playlist.skip("slide")} title="Skip slide"
+            className="p-1.5 rounded-lg text-blue-500 hover:text-blue-700 hover:bg-blue-100 transition-colors">
+            <SkipForward className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 top-full mt-2 w-80 z-50 bg-white rounded-2xl shadow-2xl p-4 space-y-3"
+            style={{ border: "1px solid #e0e9ff" }}
+          >
+            {item ? (
+              <>
+                <p className="text-[10.5px] font-black uppercase tracking-widest text-gray-400">
+                  Now playing · slide {at.item + 1} of {queue.length}
+                </p>
+                <p className="text-[13px] font-bold text-gray-800">{slideLabel(item.slideIndex, item.title)}</p>
+                <p className="text-[12.5px] text-gray-600 italic">
+                  “{sentence}”
+                  <span className="not-italic text-gray-400"> — {at.sentence + 1}/{item.sentences.length}</span>
+                </p>
+                {item.slideIndex !== current && (
+                  <button onClick={() => onGoToSlide(item.slideIndex)}
+                    className="text-[12px] font-bold text-blue-600 hover:text-blue-800">
+                    Show this slide
+                  </button>
+                )}
+
+                <div className="pt-3 border-t border-gray-100">
+                  <p className="flex items-center gap-1.5 text-[10.5px] font-black uppercase tracking-widest text-gray-400 mb-2">
+                    <Moon className="w-3 h-3" />
+                    Sleep timer
+                    {sleepLeftMs !== null && <span className="ml-auto normal-case tracking-normal tabular-nums text-blue-600">{formatClock(sleepLeftMs)} left</span>}
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {([null, "slide", ...SLEEP_MINUTES] as const).map((choice) => {
+                      const selected = choice === null ? !sleep
+                        : choice === "slide" ? sleep?.kind === "slide"
+                        : sleep?.kind === "minutes" && sleep.minutes === choice;
+                      return (
+                        <button key={String(choice)} onClick={() => playlist.setSleep(choice)}
+                          className={`text-[11.5px] font-bold px-2.5 py-1 rounded-lg border transition-colors ${
+                            selected ? "text-white bg-blue-600 border-blue-600" : "text-gray-600 border-gray-200 hover:text-blue-600 hover:border-blue-200"}`}>
+                          {choice === null ? "Off" : choice === "slide" ? "End of slide" : `${choice} min`}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <button onClick={() => { playlist.stop(); setOpen(false); }}
+                  className="w-full flex items-center justify-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl border text-gray-600 border-gray-200 hover:text-red-500 hover:border-red-200 transition-colors">
+                  <Square className="w-3.5 h-3.5" />
+                  Stop listening
+                </button>
+              </>
+            ) : (
+              <>
+                <p className="text-[10.5px] font-black uppercase tracking-widest text-gray-400">Listen to the course</p>
+                <p className="text-[12px] text-gray-500">Every slide is read aloud in turn, and keeps playing while you browse.</p>
+                {(["from", "to"] as const).map((end) => (
+                  <label key={end} className="flex items-center gap-2 text-[12px] font-semibold text-gray-600">
+                    <span className="w-10">{end === "from" ? "From" : "To"}</span>
+                    <select value={end === "from" ? from : to}
+                      onChange={(e) => setRange({ from, to, [end]: Number(e.target.value) })}
+                      className="flex-1 min-w-0 text-[12px] font-semibold text-gray-800 bg-white border border-gray-200 rounded-lg px-2 py-1.5 outline-none focus:border-blue-400">
+                      {slides.map((s, i) => <option key={s.id} value={i}>{slideLabel(i, s.title)}</option>)}
+                    </select>
+                  </label>
+                ))}
+                <div className="flex gap-2">
+                  <button onClick={() => setRange({ from: 0, to: last })}
+                    className="text-[12px] font-bold px-3 py-2 rounded-xl border text-blue-600 border-blue-200 hover:bg-blue-50 transition-colors">
+                    Whole course
+                  </button>
+                  <button onClick={() => { onStart(from, to); setOpen(false); }}
+                    className="flex-1 flex items-center justify-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700 transition-colors">
+                    <Play className="w-3.5 h-3.5" />
+                    Play {Math.abs(to - from) + 1} {Math.abs(to - from) === 0 ? "slide" : "slides"}
+                  </button>
+                </div>
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,18 +1,43 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import {
   ZoomIn, ZoomOut, FileText, Loader2,
-  ChevronLeft, ChevronRight, PanelLeft, PanelRight, LogOut, RotateCcw,
+  ChevronLeft, ChevronRight, PanelLeft, PanelRight, LogOut, RotateCcw, ChevronDown, PenLine, GraduationCap, Layers, Keyboard, AudioLines, MonitorPlay,
+  CirclePlay,
 } from "lucide-react";
 
 import SlideCanvas from "./SlideCanvas";
 import AIInsightsPanel from "./AIInsightsPanel";
 import SlideThumbnails from "./SlideThumbnails";
-import { slides } from "../data/slides";
+import SlideEditor from "./SlideEditor";
+import DeepDiveModal from "./DeepDiveModal";
+import QuizModal from "./QuizModal";
+import FlashcardReview from "./FlashcardReview";
+import ShortcutHelp from "./ShortcutHelp";
+import VoiceSettings from "./VoiceSettings";
+import FollowAlongMenu from "./FollowAlongMenu";
+import AutoPlayBar from "./AutoPlayBar";
+import CoursePlayer from "./CoursePlayer";
+import type { Deck } from "../data/decks";
+import { loadDraft, saveDraft, clearDraft } from "../lib/draftDecks";
+import { toRichBlocks, richBlocksToHtml, escapeHtml, safeUrl } from "../lib/richContent";
+import { buildFlashcards, dayKey, dueQueue } from "../lib/flashcards";
+import { loadReviewSchedule } from "../lib/reviewSchedule";
+import { deckCompletion, slideSteps } from "../lib/learningProgress";
+import { useLearningProgress } from "../hooks/useLearningProgress";
+import { useShortcuts } from "../hooks/useShortcuts";
+import { useAudienceLink } from "../hooks/usePresentation";
+import { useAutoPlay } from "../hooks/useAutoPlay";
+import { useCoursePlaylist } from "../hooks/useCoursePlaylist";
+import type { FollowAlong } from "../hooks/useFollowAlong";
+import { can, type AccessSession } from "../lib/access";
+import { HOME, routeToUrl, type Route } from "../lib/routes";
+import { newPresentationId, type AudienceView } from "../lib/presenter";
+import { MAX_ZOOM, MIN_ZOOM, clampZoom, stepZoom } from "../lib/zoom";
+import { loadAutoPlaySettings, saveAutoPlaySettings, type AutoPlaySettings } from "../lib/autoPlay";
 
-const MIN_ZOOM = 0.5;
-const MAX_ZOOM = 2.0;
-const ZOOM_STEP = 0.15;
+// Tailwind's md breakpoint — below it the side panels are overlays
+const DESKTOP_QUERY = "(min-width: 768px)";
 
 const variants = {
   enter: (dir: number) => ({ opacity: 0, x: dir > 0 ? 40 : -40 }),
@@ -21,34 +46,105 @@ const variants = {
 };
 
 interface DashboardProps {
+  deck: Deck;
+  /** The signed-in code's role decides which tools are shown */
+  session: AccessSession;
+  /** True while the session is locked behind the gate — the dashboard stays mounted but idle */
+  locked?: boolean;
+  /** Slide, AI panel tab and deep dive come from the URL */
+  route: Route;
+  onNavigate: (changes: Partial<Route>, options?: { replace?: boolean }) => void;
+  /** Told when a presenter window or auto-play starts or stops driving this dashboard */
+  onHandsFreeChange?: (handsFree: boolean) => void;
+  /** Classroom follow-along, owned by the app so it survives switching decks */
+  classroom: FollowAlong;
   onExit: () => void;
+  onChangeDeck: () => void;
 }
 
-export default function Dashboard({ onExit }: DashboardProps) {
-  const [current, setCurrent] = useState(0);
-  const [direction, setDirection] = useState(1);
+export default function Dashboard({ deck: publishedDeck, session, locked = false, route, onNavigate, onHandsFreeChange, classroom, onExit, onChangeDeck }: DashboardProps) {
+  // An author's local draft from the slide editor takes precedence over the published deck;
+  // other roles on the same machine always see the published one
+  const [draft, setDraft] = useState<Deck | null>(() => (can(session, "edit") ? loadDraft(publishedDeck.id) : null));
+  const [editing, setEditing] = useState(false);
+  const deck = draft ?? publishedDeck;
+  const slides = deck.slides;
+  const current = Math.min(Math.max((route.slide ?? 1) - 1, 0), slides.length - 1);
+  // Slide direction for the transition, worked out from the previous slide so back / forward animate too
+  const [shown, setShown] = useState({ index: current, direction: 1 });
+  if (shown.index !== current) setShown({ index: current, direction: current > shown.index ? 1 : -1 });
+  const direction = shown.direction;
   const [zoom, setZoom] = useState(1);
   const [leftOpen, setLeftOpen] = useState(false);
   const [rightOpen, setRightOpen] = useState(false);
+  // Desktop sidebars are always shown unless hidden from the keyboard
+  const [leftHidden, setLeftHidden] = useState(false);
+  const [rightHidden, setRightHidden] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(false);
+  const [voiceOpen, setVoiceOpen] = useState(false);
+  // Bumped by the chat shortcut; the AI panel focuses its input when it changes
+  const [chatFocusRequest, setChatFocusRequest] = useState(0);
+  // Set while a presenter window drives this one
+  const [presentation, setPresentation] = useState<{ id: string; startedAt: number } | null>(null);
+  const [autoPlaySettings, setAutoPlaySettings] = useState(loadAutoPlaySettings);
   const [exporting, setExporting] = useState(false);
+  // Overlays belong to one slide, so moving to another slide closes them
+  const [deepDiveFocus, setDeepDiveFocus] = useState<{ slideId: number; block?: number } | null>(null);
+  const [quizSlideId, setQuizSlideId] = useState<number | null>(null);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [reviewSchedule, setReviewSchedule] = useState(() => loadReviewSchedule(publishedDeck.id));
+  const [today] = useState(() => dayKey(new Date()));
 
   const slide = slides[current];
+  const deepDiveOpen = route.deepDive;
+  const focusBlock = deepDiveFocus?.slideId === slide.id ? deepDiveFocus.block : undefined;
+  const quizOpen = quizSlideId === slide.id && !!slide.quiz?.length;
+  const dueCards = dueQueue(buildFlashcards(deck), reviewSchedule, today);
+
+  // Reopening a deck returns to the slide and zoom it was left at
+  const { progress, recordQuizResult } = useLearningProgress(
+    publishedDeck.id,
+    { slideId: slide.id, slideIndex: current, zoom, deepDiveOpen, active: !locked },
+    (index, savedZoom) => {
+      // A link to a specific slide wins over the saved one
+      if (route.slide === null) onNavigate({ slide: Math.min(index, slides.length - 1) + 1 }, { replace: true });
+      setZoom(clampZoom(savedZoom));
+    },
+  );
+  const completion = deckCompletion(slides, progress);
+  const opened = (i: number) => slideSteps(slides[i], progress?.slides[slides[i].id]).opened;
+
+  const updateDraft = (next: Deck) => {
+    setDraft(next);
+    saveDraft(next);
+  };
+
+  const discardDraft = () => {
+    clearDraft(publishedDeck.id);
+    setDraft(null);
+    onNavigate({ slide: Math.min(current, publishedDeck.slides.length - 1) + 1 }, { replace: true });
+  };
 
   const go = (next: number) => {
     if (next < 0 || next >= slides.length) return;
-    setDirection(next > current ? 1 : -1);
-    setCurrent(next);
+    // The open panel tab carries over, so a learner in Chat or Listen stays there
+    onNavigate({ slide: next + 1, deepDive: false });
   };
 
-  const zoomIn = () => setZoom((z) => Math.min(MAX_ZOOM, parseFloat((z + ZOOM_STEP).toFixed(2))));
-  const zoomOut = () => setZoom((z) => Math.max(MIN_ZOOM, parseFloat((z - ZOOM_STEP).toFixed(2))));
+  const openDeepDive = (block?: number) => {
+    setDeepDiveFocus({ slideId: slide.id, block });
+    onNavigate({ deepDive: true }, { replace: true });
+  };
+
+  const zoomIn = () => setZoom((z) => stepZoom(z, 1));
+  const zoomOut = () => setZoom((z) => stepZoom(z, -1));
   const zoomReset = () => setZoom(1);
 
   const exportPDF = async () => {
     if (exporting) return;
     setExporting(true);
 
-    // Build a print-only page with all 8 slides rendered as divs
+    // Build a print-only page with every slide of the deck rendered as divs
     const printWindow = window.open("", "_blank", "width=1200,height=800");
     if (!printWindow) {
       alert("Please allow popups for this site to export PDF.");
@@ -56,39 +152,52 @@ export default function Dashboard({ onExit }: DashboardProps) {
       return;
     }
 
-    // Collect all slide HTML blocks
-    const slideBlocks = slides.map((s) => `
+    // Collect all slide HTML blocks — imported decks are untrusted, so every field is escaped
+    // and colours must be plain hex before they go into a style attribute
+    const total = String(slides.length).padStart(2, "0");
+    const printColor = (c: string) => (/^#[0-9a-f]{6}$/i.test(c) ? c : "#2563eb");
+    const slideBlocks = slides.map((s, i) => {
+      const color = printColor(s.color);
+      return `
       <div class="slide-page">
         <div class="slide-inner">
-          <div class="slide-left" style="background: linear-gradient(135deg, ${s.color}88 0%, ${s.color}33 50%, rgba(0,0,0,0.6) 100%);">
-            <img src="${s.imageUrl}" alt="${s.diagramAlt}" crossorigin="anonymous" />
-            <div class="slide-badge" style="background:${s.color}cc">${String(s.id).padStart(2,"0")} / 08</div>
+          <div class="slide-left" style="background: linear-gradient(135deg, ${color}88 0%, ${color}33 50%, rgba(0,0,0,0.6) 100%);">
+            <img src="${escapeHtml(safeUrl(s.imageUrl))}" alt="${escapeHtml(s.diagramAlt)}" crossorigin="anonymous" />
+            <div class="slide-badge" style="background:${color}cc">${String(i + 1).padStart(2,"0")} / ${total}</div>
             <div class="slide-caption">
-              <div class="caption-bar" style="background:${s.color}"></div>
-              <p>${s.diagramAlt}</p>
+              <div class="caption-bar" style="background:${color}"></div>
+              <p>${escapeHtml(s.diagramAlt)}</p>
             </div>
           </div>
           <div class="slide-right">
-            <span class="tag" style="color:${s.color};border-color:${s.color}44;background:${s.color}12">
-              ${s.summary}
+            <span class="tag" style="color:${color};border-color:${color}44;background:${color}12">
+              ${escapeHtml(s.summary)}
             </span>
-            <h2>${s.title}</h2>
-            <p class="subtitle" style="color:${s.color}">${s.subtitle}</p>
-            <div class="divider" style="background:${s.color}"></div>
-            <p class="desc">${s.description}</p>
+            <h2>${escapeHtml(s.title)}</h2>
+            <p class="subtitle" style="color:${color}">${escapeHtml(s.subtitle)}</p>
+            <div class="divider" style="background:${color}"></div>
+            <p class="desc">${escapeHtml(s.description)}</p>
             <div class="key-points">
-              ${s.keyPoints.slice(0,4).map(kp => `<div class="kp">• ${kp}</div>`).join("")}
+              ${s.keyPoints.slice(0,4).map(kp => `<div class="kp">• ${escapeHtml(kp)}</div>`).join("")}
             </div>
           </div>
         </div>
       </div>
-    `).join("");
+      <div class="deep-page">
+        <div class="deep-head">
+          <span class="tag" style="color:${color};border-color:${color}44;background:${color}12">Deep Dive · ${String(i + 1).padStart(2,"0")} / ${total}</span>
+          <h3>${escapeHtml(s.title)}</h3>
+        </div>
+        <div class="deep-body">${richBlocksToHtml(toRichBlocks(s.deepDive))}</div>
+      </div>
+    `;
+    }).join("");
 
     printWindow.document.write(`<!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8"/>
-  <title>ElexicoAI — Backend Engineering</title>
+  <title>ElexicoAI — ${escapeHtml(deck.title)}</title>
   <style>
     * { box-sizing: border-box; margin: 0; padding: 0; }
     body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #fff; }
@@ -141,6 +250,25 @@ export default function Dashboard({ onExit }: DashboardProps) {
     .desc { font-size: 9.5px; color: #4b5563; line-height: 1.6; flex:1; }
     .key-points { display: flex; flex-direction: column; gap: 2px; }
     .kp { font-size: 8px; color: #6b7280; line-height: 1.4; }
+    .deep-page { width: 297mm; min-height: 185mm; page-break-after: always; padding: 10mm 14mm; }
+    .deep-page:last-child { page-break-after: avoid; }
+    .deep-head { display: flex; flex-direction: column; gap: 6px; margin-bottom: 10px; }
+    h3 { font-size: 16px; font-weight: 900; color: #111; }
+    .deep-body { column-count: 2; column-gap: 10mm; font-size: 9.5px; color: #4b5563; line-height: 1.6; }
+    .deep-body > * { break-inside: avoid; margin-bottom: 6px; }
+    .deep-body h4 { font-size: 10.5px; color: #111; margin-top: 4px; }
+    .deep-body ul, .deep-body ol { padding-left: 16px; }
+    .deep-body code { font-family: ui-monospace, monospace; font-size: 0.9em; background: #eff6ff; padding: 0 3px; border-radius: 3px; }
+    .deep-body pre { background: #0b1120; color: #e5e7eb; padding: 8px 10px; border-radius: 6px; white-space: pre-wrap; font-size: 8px; }
+    .deep-body pre code { background: none; padding: 0; }
+    .callout { padding: 6px 10px; border-radius: 6px; border: 1px solid #bfdbfe; background: #eff6ff; }
+    .callout.tip { border-color: #a7f3d0; background: #ecfdf5; }
+    .callout.warning { border-color: #fde68a; background: #fffbeb; }
+    .deep-body figure img { max-width: 100%; max-height: 60mm; border-radius: 6px; }
+    .deep-body figcaption { font-size: 8px; font-style: italic; color: #9ca3af; }
+    .deep-body table { width: 100%; border-collapse: collapse; font-size: 8.5px; }
+    .deep-body th, .deep-body td { border: 1px solid #e5e7eb; padding: 3px 6px; text-align: left; vertical-align: top; }
+    .deep-body th { background: #f8faff; color: #111; }
     @page { size: A4 landscape; margin: 0; }
     @media print {
       body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
@@ -160,6 +288,101 @@ export default function Dashboard({ onExit }: DashboardProps) {
     setExporting(false);
   };
 
+  // ── Auto-play — a lobby screen or self-paced onboarding narrates and turns the slides by itself ──
+  const autoPlay = useAutoPlay(slide, autoPlaySettings, {
+    active: !locked,
+    onAdvance: () => {
+      if (current < slides.length - 1) go(current + 1);
+      else if (autoPlaySettings.loop && slides.length > 1) go(0);
+      else return false;
+      return true;
+    },
+    onDeepDive: () => openDeepDive(),
+  });
+
+  const changeAutoPlaySettings = (next: AutoPlaySettings) => {
+    setAutoPlaySettings(next);
+    saveAutoPlaySettings(next);
+  };
+
+  // ── Course playlist — narration that keeps playing while the learner browses ──
+  const playlist = useCoursePlaylist(slides);
+
+  // One voice at a time: auto-play and the playlist each stop the other
+  const startAutoPlay = () => {
+    playlist.stop();
+    autoPlay.start();
+  };
+  const startPlaylist = (from: number, to: number) => {
+    autoPlay.stop();
+    playlist.start(from, to);
+  };
+
+  // ── Presenting — a second window drives this one, which becomes the audience screen ──
+  const startPresenting = () => {
+    autoPlay.stop();
+    const id = newPresentationId();
+    const win = window.open(routeToUrl({ ...HOME, presenter: id }), `elexico-presenter-${id}`, "width=1280,height=800");
+    if (!win) {
+      alert("Please allow popups for this site to open the presenter view.");
+      return;
+    }
+    setPresentation({ id, startedAt: Date.now() });
+  };
+
+  const audienceView: AudienceView = {
+    slideIndex: current, zoom, deepDive: deepDiveOpen, quiz: quizOpen, panel: route.panel,
+  };
+  const { sendQuestion } = useAudienceLink(presentation, { session, deck, view: audienceView, active: !locked }, {
+    onView: (view) => {
+      const target = slides[view.slideIndex];
+      if (!target) return;
+      onNavigate({ slide: view.slideIndex + 1, panel: view.panel, deepDive: view.deepDive });
+      setZoom(clampZoom(view.zoom));
+      setQuizSlideId(view.quiz ? target.id : null);
+    },
+    onEnd: () => setPresentation(null),
+  });
+  const askedQuestion = presentation
+    ? (text: string) => sendQuestion({ slideIndex: current, text, askedAt: Date.now() })
+    : undefined;
+
+  // The app pauses the idle lock while presenting, auto-playing or reading the course aloud — nobody touches the screen then
+  const handsFreeChange = useRef(onHandsFreeChange);
+  useEffect(() => { handsFreeChange.current = onHandsFreeChange; });
+  const handsFree = presentation !== null || autoPlay.running || playlist.status === "playing";
+  useEffect(() => {
+    if (!handsFree) return;
+    handsFreeChange.current?.(true);
+    return () => handsFreeChange.current?.(false);
+  }, [handsFree]);
+
+  // ── Keyboard shortcuts — off while a dialog has the keyboard ──
+  const dialogOpen = locked || editing || quizOpen || reviewOpen || helpOpen || voiceOpen;
+  const shortcutsEnabled = !dialogOpen && !deepDiveOpen;
+  const isDesktop = () => window.matchMedia(DESKTOP_QUERY).matches;
+  useShortcuts({
+    prevSlide: () => go(current - 1),
+    nextSlide: () => go(current + 1),
+    zoomIn,
+    zoomOut,
+    zoomReset,
+    leftPanel: () => (isDesktop() ? setLeftHidden((h) => !h) : setLeftOpen((o) => !o)),
+    rightPanel: () => (isDesktop() ? setRightHidden((h) => !h) : setRightOpen((o) => !o)),
+    chat: () => {
+      if (isDesktop()) setRightHidden(false);
+      else setRightOpen(true);
+      onNavigate({ panel: "chat" }, { replace: true });
+      setChatFocusRequest((n) => n + 1);
+    },
+    export: can(session, "export") ? exportPDF : undefined,
+    help: () => setHelpOpen(true),
+  }, shortcutsEnabled);
+  // The deep dive shortcut also closes it
+  useShortcuts({
+    deepDive: () => (deepDiveOpen ? onNavigate({ deepDive: false }, { replace: true }) : openDeepDive()),
+  }, !dialogOpen);
+
   return (
     <div className="flex flex-col h-screen overflow-hidden"
       style={{ background: "#f0f4ff" }}>
@@ -211,18 +434,28 @@ export default function Dashboard({ onExit }: DashboardProps) {
         {/* Divider */}
         <div className="hidden sm:block w-px h-5 bg-gray-200 flex-shrink-0" />
 
-        {/* ── Module badge ── */}
+        {/* ── Module badge (click to switch deck) ── */}
         <div className="hidden sm:flex items-center gap-2 flex-shrink-0">
-          <motion.span
+          <motion.button
             whileHover={{ scale: 1.04 }}
+            onClick={onChangeDeck}
+            title="Switch track"
             className="inline-flex items-center gap-1.5 text-[10.5px] font-black px-3 py-1.5 rounded-full border tracking-widest uppercase"
-            style={{ color: "#2563eb", borderColor: "#2563eb35", background: "linear-gradient(135deg, #eff6ff, #dbeafe)" }}>
+            style={{ color: deck.themeColor, borderColor: `${deck.themeColor}35`, background: `${deck.themeColor}12` }}>
             <motion.span
               animate={{ opacity: [1, 0.3, 1] }}
               transition={{ duration: 2, repeat: Infinity }}
-              className="w-1.5 h-1.5 rounded-full bg-blue-500 flex-shrink-0" />
-            Backend Engineering
-          </motion.span>
+              className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+              style={{ background: deck.themeColor }} />
+            {deck.title}
+            <ChevronDown className="w-3 h-3 opacity-60" />
+          </motion.button>
+          {draft && (
+            <span className="text-[9.5px] font-black px-2 py-1 rounded-full uppercase tracking-widest"
+              style={{ color: "#b45309", background: "#fef3c7", border: "1px solid #fde68a" }}>
+              Draft
+            </span>
+          )}
         </div>
 
         {/* ── Center: slide stepper ── */}
@@ -236,10 +469,10 @@ export default function Dashboard({ onExit }: DashboardProps) {
             >
               <motion.div
                 animate={{
-                  width: i === current ? 32 : i < current ? 10 : 7,
+                  width: i === current ? 32 : opened(i) ? 10 : 7,
                   background: i === current
                     ? "#2563eb"
-                    : i < current
+                    : opened(i)
                     ? "#93c5fd"
                     : "#dde3ef",
                   opacity: 1,
@@ -285,6 +518,124 @@ export default function Dashboard({ onExit }: DashboardProps) {
             <PanelRight className="w-4 h-4" />
           </button>
 
+          {/* Course playlist mini player */}
+          <CoursePlayer playlist={playlist} slides={slides} current={current}
+            onStart={startPlaylist} onGoToSlide={go} />
+
+          {/* Classroom follow-along */}
+          <FollowAlongMenu classroom={classroom} position={{ deckId: publishedDeck.id, slide: current + 1 }}
+            canHost={can(session, "present")} />
+
+          {/* Auto-play — narrates each slide and moves on by itself */}
+          {!presentation && (
+            <motion.button
+              data-autoplay-controls
+              whileHover={{ scale: 1.04 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={autoPlay.running ? autoPlay.stop : startAutoPlay}
+              title={autoPlay.running ? "Stop auto-play" : "Narrate every slide and move on by itself — for lobby screens and self-paced viewing"}
+              className={`hidden sm:flex items-center gap-1.5 text-[12px] font-bold px-3 sm:px-4 py-2 rounded-xl transition-all duration-200 border ${
+                autoPlay.running ? "text-white bg-blue-600 border-blue-600" : "text-blue-600 hover:bg-blue-50"}`}
+              style={autoPlay.running ? undefined : { background: "#ffffff", borderColor: "#2563eb35" }}
+            >
+              {autoPlay.running ? (
+                <motion.span
+                  animate={{ opacity: [1, 0.3, 1] }}
+                  transition={{ duration: 1.6, repeat: Infinity }}
+                  className="w-1.5 h-1.5 rounded-full bg-white" />
+              ) : <CirclePlay className="w-3.5 h-3.5" />}
+              <span className="hidden lg:inline">{autoPlay.running ? "Auto-playing" : "Auto-play"}</span>
+            </motion.button>
+          )}
+
+          {/* Present — opens the presenter window */}
+          {can(session, "present") && (
+            presentation ? (
+              <motion.button
+                whileHover={{ scale: 1.04 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setPresentation(null)}
+                title="Stop presenting — the presenter window is disconnected"
+                className="hidden sm:flex items-center gap-1.5 text-[12px] font-bold px-3 sm:px-4 py-2 rounded-xl transition-all duration-200 border text-white bg-blue-600 border-blue-600"
+              >
+                <motion.span
+                  animate={{ opacity: [1, 0.3, 1] }}
+                  transition={{ duration: 1.6, repeat: Infinity }}
+                  className="w-1.5 h-1.5 rounded-full bg-white" />
+                Presenting
+              </motion.button>
+            ) : (
+              <motion.button
+                whileHover={{ scale: 1.04 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={startPresenting}
+                title="Open the presenter view in a second window — this one becomes the audience screen"
+                className="hidden sm:flex items-center gap-1.5 text-[12px] font-bold px-3 sm:px-4 py-2 rounded-xl transition-all duration-200 border text-blue-600 hover:bg-blue-50"
+                style={{ background: "#ffffff", borderColor: "#2563eb35" }}
+              >
+                <MonitorPlay className="w-3.5 h-3.5" />
+                Present
+              </motion.button>
+            )
+          )}
+
+          {/* Keyboard shortcuts */}
+          <motion.button
+            whileHover={{ scale: 1.04 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => setHelpOpen(true)}
+            title="Keyboard shortcuts (?)"
+            className="hidden md:flex p-2 rounded-xl border text-gray-400 hover:text-blue-600 hover:bg-blue-50 transition-all duration-200"
+            style={{ background: "#ffffff", borderColor: "#e5e7eb" }}
+          >
+            <Keyboard className="w-4 h-4" />
+          </motion.button>
+
+          {/* Voice settings */}
+          <motion.button
+            whileHover={{ scale: 1.04 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => setVoiceOpen(true)}
+            title="Voice settings"
+            className="hidden md:flex p-2 rounded-xl border text-gray-400 hover:text-blue-600 hover:bg-blue-50 transition-all duration-200"
+            style={{ background: "#ffffff", borderColor: "#e5e7eb" }}
+          >
+            <AudioLines className="w-4 h-4" />
+          </motion.button>
+
+          {/* Flashcard review — due today */}
+          <motion.button
+            whileHover={{ scale: 1.04 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => setReviewOpen(true)}
+            title={dueCards.length ? `${dueCards.length} flashcards due today` : "No flashcards due today"}
+            className="flex items-center gap-1.5 text-[12px] font-bold px-3 sm:px-4 py-2 rounded-xl transition-all duration-200 border text-blue-600 hover:bg-blue-50"
+            style={{ background: "#ffffff", borderColor: "#2563eb35" }}
+          >
+            <Layers className="w-3.5 h-3.5" />
+            <span className="hidden sm:inline">Review</span>
+            {dueCards.length > 0 && (
+              <span className="text-[10px] font-black tabular-nums px-1.5 py-0.5 rounded-full text-white bg-blue-600 leading-none">
+                {dueCards.length}
+              </span>
+            )}
+          </motion.button>
+
+          {/* Edit slides */}
+          {can(session, "edit") && (
+            <motion.button
+              whileHover={{ scale: 1.04 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setEditing(true)}
+              title="Edit slides"
+              className="hidden sm:flex items-center gap-1.5 text-[12px] font-bold px-4 py-2 rounded-xl transition-all duration-200 border text-blue-600 hover:bg-blue-50"
+              style={{ background: "#ffffff", borderColor: "#2563eb35" }}
+            >
+              <PenLine className="w-3.5 h-3.5" />
+              Edit
+            </motion.button>
+          )}
+
           {/* Exit */}
           <motion.button
             whileHover={{ scale: 1.04 }}
@@ -319,9 +670,9 @@ export default function Dashboard({ onExit }: DashboardProps) {
       <div className="flex flex-1 min-h-0 overflow-hidden">
 
         {/* ── LEFT SIDEBAR (desktop) ── */}
-        <aside className="hidden md:flex flex-col w-[240px] flex-shrink-0"
+        <aside className={`${leftHidden ? "hidden" : "hidden md:flex"} flex-col w-[240px] flex-shrink-0`}
           style={{ borderRight: "1px solid #e2e8f0", background: "#ffffff" }}>
-          <SlideThumbnails slides={slides} current={current} onSelect={go} />
+          <SlideThumbnails slides={slides} current={current} progress={progress} onSelect={go} />
         </aside>
 
         {/* ── LEFT SIDEBAR (mobile overlay) ── */}
@@ -342,7 +693,7 @@ export default function Dashboard({ onExit }: DashboardProps) {
                 transition={{ type: "spring", stiffness: 320, damping: 30 }}
                 className="md:hidden fixed left-0 top-0 bottom-0 w-[240px] z-50"
               >
-                <SlideThumbnails slides={slides} current={current} onSelect={(i) => { go(i); setLeftOpen(false); }} />
+                <SlideThumbnails slides={slides} current={current} progress={progress} onSelect={(i) => { go(i); setLeftOpen(false); }} />
               </motion.div>
             </>
           )}
@@ -388,7 +739,9 @@ export default function Dashboard({ onExit }: DashboardProps) {
                   style={{ height: "clamp(380px, 58vh, 600px)" }}
                 >
                   <div className="w-full h-full">
-                    <SlideCanvas slide={slide} />
+                    <SlideCanvas slide={slide} slideNumber={current + 1} slideCount={slides.length}
+                      onOpenDeepDive={() => openDeepDive()}
+                      onOpenQuiz={() => setQuizSlideId(slide.id)} />
                   </div>
                 </motion.div>
               </AnimatePresence>
@@ -398,13 +751,14 @@ export default function Dashboard({ onExit }: DashboardProps) {
           {/* ══ BOTTOM BAR — toolbar + navigation unified ══ */}
           <div className="flex-shrink-0 px-5 pb-5 pt-1 flex flex-col gap-3">
 
-            {/* Progress track */}
+            {/* Progress track — slides opened, deep dives read and quizzes passed */}
             <div className="relative h-[3px] rounded-full overflow-hidden mx-1"
+              title={`${Math.round(completion * 100)}% of this deck complete`}
               style={{ background: "#e8edf5" }}>
               <motion.div
                 className="absolute inset-y-0 left-0 rounded-full"
                 style={{ background: "linear-gradient(to right, #1d4ed8, #3b82f6)" }}
-                animate={{ width: `${((current + 1) / slides.length) * 100}%` }}
+                animate={{ width: `${completion * 100}%` }}
                 transition={{ duration: 0.45, ease: [0.25, 0.1, 0.25, 1] }}
               />
             </div>
@@ -486,7 +840,7 @@ export default function Dashboard({ onExit }: DashboardProps) {
                           width: i === current ? 18 : 5,
                           background: i === current
                             ? "#2563eb"
-                            : i < current
+                            : opened(i)
                             ? "#93c5fd"
                             : "#dde3ef",
                         }}
@@ -498,26 +852,41 @@ export default function Dashboard({ onExit }: DashboardProps) {
                   </div>
                 </div>
 
-                {/* Export */}
+                {/* Quiz */}
                 <motion.button
                   whileHover={{ scale: 1.03 }}
                   whileTap={{ scale: 0.97 }}
-                  onClick={exportPDF}
-                  disabled={exporting}
+                  onClick={() => setQuizSlideId(slide.id)}
+                  disabled={!slide.quiz?.length}
+                  title={slide.quiz?.length ? "Quiz yourself on this slide" : "No quiz for this slide yet"}
                   className="flex items-center gap-1.5 px-3.5 py-2 rounded-xl text-[12px] font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed border"
-                  style={{
-                    color: exporting ? "#9ca3af" : "#2563eb",
-                    borderColor: exporting ? "#e2e8f0" : "#2563eb35",
-                    background: exporting ? "#f8faff" : "#2563eb0a",
-                    boxShadow: exporting ? "none" : "0 1px 4px #2563eb12",
-                  }}>
-                  {exporting
-                    ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                    : <FileText className="w-3.5 h-3.5" />}
-                  <span className="hidden sm:inline">
-                    {exporting ? "Exporting…" : "Export PDF"}
-                  </span>
+                  style={{ color: "#2563eb", borderColor: "#2563eb35", background: "#2563eb0a", boxShadow: "0 1px 4px #2563eb12" }}>
+                  <GraduationCap className="w-3.5 h-3.5" />
+                  <span className="hidden sm:inline">Quiz</span>
                 </motion.button>
+
+                {/* Export */}
+                {can(session, "export") && (
+                  <motion.button
+                    whileHover={{ scale: 1.03 }}
+                    whileTap={{ scale: 0.97 }}
+                    onClick={exportPDF}
+                    disabled={exporting}
+                    className="flex items-center gap-1.5 px-3.5 py-2 rounded-xl text-[12px] font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed border"
+                    style={{
+                      color: exporting ? "#9ca3af" : "#2563eb",
+                      borderColor: exporting ? "#e2e8f0" : "#2563eb35",
+                      background: exporting ? "#f8faff" : "#2563eb0a",
+                      boxShadow: exporting ? "none" : "0 1px 4px #2563eb12",
+                    }}>
+                    {exporting
+                      ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      : <FileText className="w-3.5 h-3.5" />}
+                    <span className="hidden sm:inline">
+                      {exporting ? "Exporting…" : "Export PDF"}
+                    </span>
+                  </motion.button>
+                )}
               </div>
 
               {/* ── Right: Next button ── */}
@@ -540,9 +909,11 @@ export default function Dashboard({ onExit }: DashboardProps) {
         </main>
 
         {/* ── RIGHT SIDEBAR (desktop) ── */}
-        <aside className="hidden md:flex flex-col w-[380px] flex-shrink-0"
+        <aside className={`${rightHidden ? "hidden" : "hidden md:flex"} flex-col w-[380px] flex-shrink-0`}
           style={{ borderLeft: "1px solid #e2e8f0", background: "#ffffff" }}>
-          <AIInsightsPanel slide={slide} />
+          <AIInsightsPanel deck={deck} slide={slide}
+            activeTab={route.panel} onTabChange={(panel) => onNavigate({ panel }, { replace: true })}
+            shortcutsEnabled={shortcutsEnabled && !rightHidden} chatFocusRequest={chatFocusRequest} onQuestion={askedQuestion} />
         </aside>
 
         {/* ── RIGHT SIDEBAR (mobile overlay) ── */}
@@ -563,12 +934,92 @@ export default function Dashboard({ onExit }: DashboardProps) {
                 transition={{ type: "spring", stiffness: 320, damping: 30 }}
                 className="md:hidden fixed right-0 top-0 bottom-0 w-[380px] z-50 bg-white"
               >
-                <AIInsightsPanel slide={slide} />
+                <AIInsightsPanel deck={deck} slide={slide}
+                  activeTab={route.panel} onTabChange={(panel) => onNavigate({ panel }, { replace: true })}
+                  shortcutsEnabled={shortcutsEnabled} chatFocusRequest={chatFocusRequest} onQuestion={askedQuestion} />
               </motion.div>
             </>
           )}
         </AnimatePresence>
       </div>
+
+      {/* ════════════ QUIZ + DEEP DIVE ════════════ */}
+      {/* Rendered outside the zoomed, animated slide so fixed positioning is relative to the viewport */}
+      <AnimatePresence>
+        {quizOpen && (
+          <QuizModal
+            key={slide.id}
+            deck={deck}
+            slide={slide}
+            slideNumber={current + 1}
+            // Escape while the deep dive is on top closes only the deep dive
+            onClose={() => { if (!deepDiveOpen) setQuizSlideId(null); }}
+            onOpenDeepDive={openDeepDive}
+            onFinished={(right, total) => recordQuizResult(slide.id, right, total)}
+          />
+        )}
+      </AnimatePresence>
+      <DeepDiveModal
+        key={`${slide.id}-${focusBlock ?? ""}`}
+        slide={slide}
+        slideNumber={current + 1}
+        slideCount={slides.length}
+        deckTitle={deck.title}
+        isOpen={deepDiveOpen}
+        focusBlock={deepDiveOpen ? focusBlock : undefined}
+        onClose={() => onNavigate({ deepDive: false }, { replace: true })}
+      />
+
+      <AnimatePresence>
+        {autoPlay.running && (
+          <AutoPlayBar
+            autoPlay={autoPlay}
+            settings={autoPlaySettings}
+            onSettingsChange={changeAutoPlaySettings}
+            slideNumber={current + 1}
+            slideCount={slides.length}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* ════════════ FLASHCARD REVIEW ════════════ */}
+      <AnimatePresence>
+        {reviewOpen && (
+          <FlashcardReview
+            deck={deck}
+            queue={dueCards}
+            schedule={reviewSchedule}
+            today={today}
+            onReviewed={setReviewSchedule}
+            onGoToSlide={(index) => { setReviewOpen(false); go(index); }}
+            onClose={() => setReviewOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* ════════════ KEYBOARD SHORTCUTS ════════════ */}
+      <AnimatePresence>
+        {helpOpen && <ShortcutHelp onClose={() => setHelpOpen(false)} />}
+      </AnimatePresence>
+
+      {/* ════════════ VOICE SETTINGS ════════════ */}
+      <AnimatePresence>
+        {voiceOpen && <VoiceSettings userLabel={session.label} onClose={() => setVoiceOpen(false)} />}
+      </AnimatePresence>
+
+      {/* ════════════ SLIDE EDITOR ════════════ */}
+      <AnimatePresence>
+        {editing && can(session, "edit") && (
+          <SlideEditor
+            deck={deck}
+            initialIndex={current}
+            isDraft={draft !== null}
+            onChange={updateDraft}
+            onDiscard={discardDraft}
+            onClose={(index) => { setEditing(false); go(index); }}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,229 @@
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Sparkles, Layers, ArrowRight, LogOut, Upload, AlertTriangle, X, ScrollText, Users } from "lucide-react";
+import type { Deck, DeckLoadError } from "../data/decks";
+import { parseDeckFile, formatIssue } from "../lib/deckLoader";
+import { can, type AccessSession } from "../lib/access";
+import { downloadAuditLog } from "../lib/accessLog";
+
+interface DeckPickerProps {
+  decks: Deck[];
+  loadErrors: DeckLoadError[];
+  session: AccessSession;
+  /** A linked deck that does not exist or that this access code cannot open */
+  unavailableDeckId?: string | null;
+  /** The class code this device follows, if any — the instructor may have opened a deck this code cannot */
+  followingClass?: string | null;
+  onLeaveClass?: () => void;
+  onSelect: (deckId: string) => void;
+  onImport: (deck: Deck) => void;
+  onExit: () => void;
+}
+
+export default function DeckPicker({ decks, loadErrors, session, unavailableDeckId, followingClass, onLeaveClass, onSelect, onImport, onExit }: DeckPickerProps) {
+  const [importError, setImportError] = useState<DeckLoadError | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const importFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (err) {
+      setImportError({ fileName: file.name, issues: [{ field: file.name, message: `could not read the file: ${(err as Error).message}` }] });
+      return;
+    }
+    const result = parseDeckFile(text, file.name);
+    if (!result.ok) {
+      setImportError({ fileName: file.name, issues: result.issues });
+      return;
+    }
+    if (decks.some((d) => d.id === result.deck.id)) {
+      setImportError({ fileName: file.name, issues: [{ field: "id", message: `deck id "${result.deck.id}" is already used` }] });
+      return;
+    }
+    setImportError(null);
+    onImport(result.deck);
+  };
+
+  const errors = importError ? [importError, ...loadErrors] : loadErrors;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center relative overflow-hidden px-4 py-10"
+      style={{ background: "linear-gradient(135deg, #f0f4ff 0%, #e8f0fe 50%, #f5f8ff 100%)" }}>
+
+      {/* Background layers */}
+      <div className="absolute inset-0 pointer-events-none"
+        style={{
+          backgroundImage: "radial-gradient(circle at 1px 1px, rgba(59,130,246,0.10) 1px, transparent 0)",
+          backgroundSize: "36px 36px",
+        }} />
+
+      {/* Heading */}
+      <motion.div
+        initial={{ opacity: 0, y: -12 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.45 }}
+        className="relative z-10 text-center mb-8">
+        <div className="inline-flex items-center gap-2 mb-3">
+          <div className="w-9 h-9 rounded-xl flex items-center justify-center"
+            style={{ background: "linear-gradient(135deg, #1d4ed8, #3b82f6)" }}>
+            <Sparkles className="w-4 h-4 text-white" />
+          </div>
+          <span className="text-lg font-black text-gray-900">Elexico<span className="text-blue-600">AI</span></span>
+        </div>
+        <p className="text-[11px] font-black text-blue-600 uppercase tracking-[0.18em] mb-2">
+          Course Catalog
+        </p>
+        <h1 className="text-[1.65rem] font-black text-gray-900 tracking-tight leading-tight">
+          Choose a track
+        </h1>
+        <p className="text-[12px] text-gray-500 font-medium mt-1.5">
+          Signed in with <span className="font-bold text-gray-700">{session.label}</span> ·{" "}
+          <span className="capitalize">{session.role}</span>
+        </p>
+      </motion.div>
+
+      {unavailableDeckId && (
+        <p className="relative z-10 mb-4 flex items-center gap-1.5 text-[12.5px] font-semibold text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-3 py-2">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+          The linked track “{unavailableDeckId}” is not available with this access code.
+        </p>
+      )}
+
+      {followingClass && (
+        <p className="relative z-10 mb-4 flex items-center gap-2 text-[12.5px] font-semibold text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-xl px-3 py-2">
+          <Users className="w-3.5 h-3.5 flex-shrink-0" />
+          Following class <span className="font-mono">{followingClass}</span> — you'll be taken to the instructor's deck.
+          <button onClick={onLeaveClass} className="underline font-bold hover:text-emerald-900">Leave</button>
+        </p>
+      )}
+
+      {decks.length === 0 && (
+        <p className="relative z-10 text-[13px] text-gray-500">This access code does not open any tracks.</p>
+      )}
+
+      {/* Deck cards */}
+      <div className="relative z-10 w-full max-w-4xl grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {decks.map((deck, i) => (
+          <motion.button
+            key={deck.id}
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 + i * 0.07, duration: 0.4 }}
+            whileHover={{ y: -4, scale: 1.01 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => onSelect(deck.id)}
+            className="text-left rounded-3xl overflow-hidden bg-white flex flex-col group"
+            style={{
+              border: `1px solid ${deck.themeColor}25`,
+              boxShadow: `0 12px 40px ${deck.themeColor}18, 0 2px 10px rgba(0,0,0,0.04)`,
+            }}
+          >
+            {/* Cover image */}
+            <div className="relative h-32 overflow-hidden">
+              {deck.slides[0] && (
+                <img
+                  src={deck.slides[0].imageUrl}
+                  alt={deck.title}
+                  className="w-full h-full object-cover"
+                  onError={(e) => { (e.target as HTMLImageElement).style.opacity = "0"; }}
+                />
+              )}
+              <div className="absolute inset-0"
+                style={{ background: `linear-gradient(135deg, ${deck.themeColor}cc 0%, ${deck.themeColor}55 60%, rgba(0,0,0,0.45) 100%)` }} />
+              <span className="absolute top-3 left-3 inline-flex items-center gap-1.5 text-[10px] font-black px-2.5 py-1 rounded-full text-white border border-white/25"
+                style={{ background: "rgba(255,255,255,0.15)", backdropFilter: "blur(8px)" }}>
+                <Layers className="w-3 h-3" />
+                {deck.slides.length} slides
+              </span>
+            </div>
+
+            {/* Body */}
+            <div className="flex-1 flex flex-col gap-2 px-5 py-4">
+              <h2 className="text-[16px] font-black text-gray-900 tracking-tight">{deck.title}</h2>
+              <p className="text-[12px] text-gray-500 leading-relaxed flex-1">{deck.description}</p>
+              <span className="inline-flex items-center gap-1.5 text-[12px] font-black mt-1"
+                style={{ color: deck.themeColor }}>
+                Open track
+                <ArrowRight className="w-3.5 h-3.5 transition-transform group-hover:translate-x-1" />
+              </span>
+            </div>
+          </motion.button>
+        ))}
+      </div>
+
+      {/* Deck files that failed validation */}
+      <AnimatePresence>
+        {errors.map((err) => (
+          <motion.div
+            key={err.fileName}
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            className="relative z-10 w-full max-w-4xl mt-4 rounded-2xl px-5 py-4"
+            style={{ background: "#fff1f2", border: "1px solid #fecdd3" }}>
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle className="w-4 h-4 text-rose-500 flex-shrink-0" />
+              <p className="text-[12px] font-black text-rose-600 flex-1">
+                {err.fileName} could not be loaded ({err.issues.length} problem{err.issues.length === 1 ? "" : "s"})
+              </p>
+              {err === importError && (
+                <button onClick={() => setImportError(null)} title="Dismiss"
+                  className="p-1 rounded-lg text-rose-400 hover:bg-rose-100 transition-colors">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <ul className="space-y-1 pl-6 max-h-40 overflow-y-auto scrollbar-thin">
+              {err.issues.map((issue, i) => (
+                <li key={i} className="text-[11.5px] text-rose-700 font-mono list-disc">{formatIssue(issue)}</li>
+              ))}
+            </ul>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+
+      {/* Footer actions */}
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.4 }}
+        className="relative z-10 mt-8 flex items-center gap-3">
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,.md,.markdown"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importFile(file);
+            e.target.value = "";
+          }}
+        />
+        {can(session, "import") && (
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-1.5 text-[12px] font-bold px-4 py-2 rounded-xl border text-blue-600 bg-white/70 border-blue-200 hover:bg-blue-50 transition-colors">
+            <Upload className="w-3.5 h-3.5" />
+            Import deck file
+          </button>
+        )}
+        {can(session, "audit") && (
+          <button
+            onClick={downloadAuditLog}
+            title="Download the sign-in log for this browser"
+            className="flex items-center gap-1.5 text-[12px] font-bold px-4 py-2 rounded-xl border text-gray-600 bg-white/70 border-gray-200 hover:bg-gray-50 transition-colors">
+            <ScrollText className="w-3.5 h-3.5" />
+            Access log
+          </button>
+        )}
+        <button
+          onClick={onExit}
+          className="flex items-center gap-1.5 text-[12px] font-bold px-4 py-2 rounded-xl border text-gray-500 bg-white/70 border-gray-200 hover:text-red-500 hover:border-red-200 transition-colors">
+          <LogOut className="w-3.5 h-3.5" />
+          Exit
+        </button>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { X, Layers, Eye, CalendarCheck, ArrowUpRight } from "lucide-react";
+import type { Deck } from "../data/decks";
+import {
+  REVIEW_GRADES, nextIntervalLabel, type Flashcard, type FlashcardKind, type ReviewGrade,
+} from "../lib/flashcards";
+import { recordReview, type ReviewSchedule } from "../lib/reviewSchedule";
+
+interface FlashcardReviewProps {
+  deck: Deck;
+  /** Today's queue, fixed when the review opens */
+  queue: Flashcard[];
+  schedule: ReviewSchedule;
+  today: string;
+  onReviewed: (schedule: ReviewSchedule) => void;
+  onGoToSlide: (slideIndex: number) => void;
+  onClose: () => void;
+}
+
+const KIND_LABEL: Record<FlashcardKind, string> = {
+  "key-point": "Key point",
+  "stat":      "Stat",
+  "tech":      "Tech stack",
+};
+
+const GRADE_STYLE: Record<ReviewGrade, { color: string; background: string }> = {
+  1: { color: "#b91c1c", background: "#fef2f2" },
+  3: { color: "#b45309", background: "#fffbeb" },
+  4: { color: "#1d4ed8", background: "#eff6ff" },
+  5: { color: "#047857", background: "#ecfdf5" },
+};
+
+export default function FlashcardReview({ deck, queue: initialQueue, schedule, today, onReviewed, onGoToSlide, onClose }: FlashcardReviewProps) {
+  // Cards graded "Again" go back on the end of the queue until they are remembered
+  const [queue, setQueue] = useState(initialQueue);
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [started, setStarted] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const card = queue[position];
+  const done = started && !card;
+  const slideIndex = card ? deck.slides.findIndex((s) => s.id === card.slideId) : -1;
+  const slide = deck.slides[slideIndex];
+  const remaining = queue.length - position;
+
+  const grade = (g: ReviewGrade) => {
+    if (!card) return;
+    onReviewed(recordReview(deck.id, card.id, g, today));
+    if (g < 3) setQueue((q) => [...q, card]);
+    setPosition((p) => p + 1);
+    setRevealed(false);
+    setReviewed((n) => n + 1);
+  };
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (!started || !card) return;
+      if (e.key === " " && !revealed) {
+        e.preventDefault();
+        setRevealed(true);
+      }
+      const choice = REVIEW_GRADES[Number(e.key) - 1];
+      if (revealed && choice) grade(choice.grade);
+    };
+    document.addEventListener("keydown", handler);
+    return () => document.removeEventListener("keydown", handler);
+  });
+
+  // Group the queue by slide for the overview
+  const bySlide = deck.slides
+    .map((s, i) => ({
+      slide: s,
+      number: i + 1,
+      due: initialQueue.filter((c) => c.slideId === s.id && schedule[c.id]).length,
+      fresh: initialQueue.filter((c) => c.slideId === s.id && !schedule[c.id]).length,
+    }))
+    .filter((g) => g.due + g.fresh > 0);
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.2 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/40 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, y: 24, scale: 0.98 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, y: 24, scale: 0.98 }}
+        transition={{ type: "spring", damping: 28, stiffness: 320 }}
+        className="fixed inset-x-3 top-[6vh] mx-auto max-w-xl max-h-[88vh] bg-white rounded-2xl shadow-2xl z-50 flex flex-col overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-gray-100">
+          <div className="w-9 h-9 rounded-xl flex items-center justify-center bg-blue-600">
+            <Layers className="w-5 h-5 text-white" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Flashcards · due today</p>
+            <h2 className="text-base font-bold text-gray-900 truncate">{deck.title}</h2>
+          </div>
+          {started && !done && (
+            <span className="text-[11px] font-bold tabular-nums px-2 py-1 rounded-lg text-blue-600 bg-blue-50">
+              {remaining} left
+            </span>
+          )}
+          <button onClick={onClose} title="Close" className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {!started ? (
+            initialQueue.length === 0 ? (
+              <div className="text-center py-6">
+                <CalendarCheck className="w-8 h-8 mx-auto text-emerald-600" />
+                <p className="text-sm font-semibold text-gray-800 mt-2">Nothing due today</p>
+                <p className="text-xs text-gray-500 mt-1">Come back tomorrow — cards reappear just before you'd forget them.</p>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">
+                  Cards are built from each slide's key points, stats and tech stack. Grade how well you remembered each one —
+                  cards you find easy come back less often.
+                </p>
+                <div className="rounded-xl border border-gray-100 divide-y divide-gray-100">
+                  {bySlide.map(({ slide: s, number, due, fresh }) => (
+                    <div key={s.id} className="flex items-center gap-3 px-3 py-2 text-xs">
+                      <span className="w-6 font-mono text-gray-400">{String(number).padStart(2, "0")}</span>
+                      <span className="flex-1 truncate text-gray-700 font-medium">{s.title}</span>
+                      {due > 0 && <span className="font-bold text-blue-600">{due} due</span>}
+                      {fresh > 0 && <span className="font-bold text-emerald-600">{fresh} new</span>}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )
+          ) : done ? (
+            <div className="text-center py-6">
+              <CalendarCheck className="w-8 h-8 mx-auto text-emerald-600" />
+              <p className="text-sm font-semibold text-gray-800 mt-2">All done for today</p>
+              <p className="text-xs text-gray-500 mt-1">{reviewed} review{reviewed === 1 ? "" : "s"} · your schedule is saved in this browser.</p>
+            </div>
+          ) : (
+            <motion.div key={position} initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}
+              className="rounded-2xl border p-5 space-y-3" style={{ borderColor: "#2563eb30", background: "#2563eb06" }}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[11px] font-semibold uppercase tracking-wider text-blue-600 truncate">
+                  {KIND_LABEL[card.kind]} · {slide?.title}
+                </span>
+                {!schedule[card.id] && (
+                  <span className="text-[10px] font-black px-2 py-0.5 rounded-full text-emerald-700 bg-emerald-50">NEW</span>
+                )}
+              </div>
+              <p className="text-lg font-bold text-gray-900 leading-snug">{card.prompt}</p>
+              {revealed && (
+                <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="pt-3 border-t border-gray-200 space-y-2">
+                  <p className="text-[15px] text-gray-700 leading-relaxed">{card.answer}</p>
+                  {slideIndex >= 0 && (
+                    <button onClick={() => onGoToSlide(slideIndex)}
+                      className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:underline">
+                      Open slide {slideIndex + 1} <ArrowUpRight className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </motion.div>
+              )}
+            </motion.div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-3 border-t border-gray-100 flex items-center justify-end gap-2">
+          {!started ? (
+            initialQueue.length > 0 ? (
+              <button onClick={() => setStarted(true)}
+                className="text-xs font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700">
+                Start review · {initialQueue.length} card{initialQueue.length === 1 ? "" : "s"}
+              </button>
+            ) : (
+              <button onClick={onClose} className="text-xs font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700">Done</button>
+            )
+          ) : done ? (
+            <button onClick={onClose} className="text-xs font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700">Done</button>
+          ) : !revealed ? (
+            <button onClick={() => setRevealed(true)}
+              className="flex items-center gap-1.5 text-xs font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700">
+              <Eye className="w-3.5 h-3.5" /> Show answer <kbd className="ml-1 text-[10px] opacity-70">Space</kbd>
+            </button>
+          ) : (
+            <div className="grid grid-cols-4 gap-2 w-full">
+              {REVIEW_GRADES.map(({ grade: g, label }, i) => (
+                <button key={g} onClick={() => grade(g)}
+                  className="flex flex-col items-center py-2 rounded-xl text-xs font-bold border border-transparent hover:border-current transition-colors"
+                  style={GRADE_STYLE[g]}>
+                  {label}
+                  <span className="text-[10px] font-semibold opacity-70">{i + 1} · {nextIntervalLabel(schedule[card.id], g)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Users, Radio, RefreshCw, Unlink, LogOut, WifiOff } from "lucide-react";
+import { RELAY_URL, normalizeClassCode, type ClassPosition } from "../lib/followAlong";
+import type { FollowAlong } from "../hooks/useFollowAlong";
+
+interface FollowAlongMenuProps {
+  classroom: FollowAlong;
+  /** Where this device is — compared with the instructor's slide */
+  position: ClassPosition;
+  canHost: boolean;
+}
+
+export default function FollowAlongMenu({ classroom, position, canHost }: FollowAlongMenuProps) {
+  const { state } = classroom;
+  const [open, setOpen] = useState(false);
+  const [codeInput, setCodeInput] = useState("");
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") setOpen(false); };
+    document.addEventListener("pointerdown", onPointer);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("pointerdown", onPointer);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  const code = normalizeClassCode(codeInput);
+  const following = state.mode === "following" ? state : null;
+  const offSlide = !!following?.target
+    && (following.target.deckId !== position.deckId || following.target.slide !== position.slide);
+  const onOwn = !!following && (following.detached || offSlide);
+
+  const badge =
+    state.mode === "hosting" ? { label: `Class ${state.code} · ${state.followers}`, color: "#2563eb", live: state.connected }
+    : following ? (
+      !following.connected ? { label: "Reconnecting…", color: "#b45309", live: false }
+      : onOwn ? { label: "On your own", color: "#b45309", live: false }
+      : { label: "Following", color: "#047857", live: true })
+    : null;
+
+  const status = following && (
+    !following.connected ? "Reconnecting to the class relay…"
+    : !following.instructorOnline ? "Waiting for the instructor to connect."
+    : !following.target ? "Waiting for the instructor to open a deck."
+    : following.detached ? "You're browsing on your own — the instructor's moves are not followed."
+    : offSlide ? `You're on a different slide — the instructor is on slide ${following.target.slide}.`
+    : "Your slides follow the instructor.");
+
+  return (
+    <div ref={rootRef} className="relative">
+      <motion.button
+        whileHover={{ scale: 1.04 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setOpen((o) => !o)}
+        title="Classroom follow-along"
+        className="flex items-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl transition-all duration-200 border"
+        style={badge
+          ? { color: badge.color, background: `${badge.color}10`, borderColor: `${badge.color}40` }
+          : { color: "#2563eb", background: "#ffffff", borderColor: "#2563eb35" }}
+      >
+        {badge?.live ? (
+          <motion.span
+            animate={{ opacity: [1, 0.3, 1] }}
+            transition={{ duration: 1.6, repeat: Infinity }}
+            className="w-1.5 h-1.5 rounded-full"
+            style={{ background: badge.color }} />
+        ) : state.mode === "hosting" ? <Radio className="w-3.5 h-3.5" /> : <Users className="w-3.5 h-3.5" />}
+        <span className="hidden lg:inline">{badge?.label ?? "Class"}</span>
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 top-full mt-2 w-80 z-50 bg-white rounded-2xl shadow-2xl p-4 space-y-3"
+            style={{ border: "1px solid #e0e9ff" }}
+          >
+            {state.mode === "hosting" ? (
+              <>
+                <p className="text-[10.5px] font-black uppercase tracking-widest text-gray-400">Class code</p>
+                <p className="text-[28px] font-black tracking-[0.25em] text-blue-700 font-mono leading-none">{state.code}</p>
+                <p className="text-[12.5px] text-gray-600">
+                  {state.connected
+                    ? `${state.followers} ${state.followers === 1 ? "learner is" : "learners are"} following your slides.`
+                    : `Connecting to the relay at ${RELAY_URL}…`}
+                </p>
+                <button onClick={() => { classroom.leave(); setOpen(false); }}
+                  className="w-full flex items-center justify-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl border text-gray-600 border-gray-200 hover:text-red-500 hover:border-red-200 transition-colors">
+                  <LogOut className="w-3.5 h-3.5" />
+                  End class session
+                </button>
+              </>
+            ) : following ? (
+              <>
+                <p className="text-[10.5px] font-black uppercase tracking-widest text-gray-400">
+                  Class <span className="font-mono text-gray-600">{following.code}</span>
+                </p>
+                <p className="flex items-start gap-1.5 text-[12.5px] text-gray-700">
+                  {!following.connected && <WifiOff className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-amber-600" />}
+                  {status}
+                </p>
+                <div className="flex gap-2">
+                  {onOwn ? (
+                    <button onClick={classroom.resync} disabled={!following.target}
+                      className="flex-1 flex items-center justify-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-40 transition-colors">
+                      <RefreshCw className="w-3.5 h-3.5" />
+                      Re-sync
+                    </button>
+                  ) : (
+                    <button onClick={classroom.breakAway}
+                      className="flex-1 flex items-center justify-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl border text-blue-600 border-blue-200 hover:bg-blue-50 transition-colors">
+                      <Unlink className="w-3.5 h-3.5" />
+                      Break away
+                    </button>
+                  )}
+                  <button onClick={() => { classroom.leave(); setOpen(false); }}
+                    className="flex items-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl border text-gray-500 border-gray-200 hover:text-red-500 hover:border-red-200 transition-colors">
+                    <LogOut className="w-3.5 h-3.5" />
+                    Leave
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                {state.mode === "error" && (
+                  <p className="text-[12px] font-semibold text-rose-700 bg-rose-50 border border-rose-200 rounded-xl px-3 py-2">{state.message}</p>
+                )}
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (code) classroom.join(code);
+                  }}
+                  className="space-y-2"
+                >
+                  <label className="block text-[10.5px] font-black uppercase tracking-widest text-gray-400" htmlFor="class-code">
+                    Follow your instructor
+                  </label>
+                  <div className="flex gap-2">
+                    <input id="class-code" value={codeInput} onChange={(e) => setCodeInput(e.target.value)}
+                      placeholder="Class code" autoComplete="off" spellCheck={false}
+                      className="flex-1 min-w-0 text-[14px] font-mono font-bold tracking-[0.2em] uppercase px-3 py-2 rounded-xl border border-gray-200 outline-none focus:border-blue-400" />
+                    <button type="submit" disabled={!code}
+                      className="text-[12px] font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-40 transition-colors">
+                      Join
+                    </button>
+                  </div>
+                </form>
+                {canHost && (
+                  <div className="pt-3 border-t border-gray-100">
+                    <button onClick={classroom.host}
+                      className="w-full flex items-center justify-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl border text-blue-600 border-blue-200 hover:bg-blue-50 transition-colors">
+                      <Radio className="w-3.5 h-3.5" />
+                      Start a class session
+                    </button>
+                    <p className="text-[11px] text-gray-500 mt-1.5">Learners enter its code to have their slides follow yours.</p>
+                  </div>
+                )}
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
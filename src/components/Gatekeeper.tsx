@@ -1,14 +1,17 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Lock, Eye, EyeOff, Sparkles, ChevronRight,
-  Server, Database, Shield, Zap, Globe, ArrowRight,
+  Server, Database, Shield, Zap, Globe, ArrowRight, Loader2,
 } from "lucide-react";
-
-const CODE = "2026";
+import { hasAccessCodes, verifyAccessCode, type AccessSession } from "../lib/access";
+import { gateLockedUntil, recordGateAttempt, type LockReason } from "../lib/accessLog";
 
 interface GatekeeperProps {
-  onUnlock: () => void;
+  onUnlock: (session: AccessSession) => void;
+  /** Set when a session locked itself — the workspace is waiting behind the gate */
+  locked?: { session: AccessSession; reason: LockReason };
+  onSignOut?: () => void;
 }
 
 const features = [
@@ -18,23 +21,51 @@ const features = [
   { icon: Zap, label: "Real-Time", desc: "WebSockets & event streaming" },
 ];
 
-export default function Gatekeeper({ onUnlock }: GatekeeperProps) {
+export default function Gatekeeper({ onUnlock, locked, onSignOut }: GatekeeperProps) {
   const [value, setValue] = useState("");
   const [shake, setShake] = useState(false);
   const [show, setShow] = useState(false);
-  const [error, setError] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  // Failed attempts lock the gate with a growing backoff, kept across reloads
+  const [lockedUntil, setLockedUntil] = useState(() => gateLockedUntil());
+  const [now, setNow] = useState(() => Date.now());
   const inputRef = useRef<HTMLInputElement>(null);
+  const lockSeconds = Math.max(0, Math.ceil((lockedUntil - now) / 1000));
+
+  useEffect(() => {
+    if (lockedUntil <= now) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil, now]);
 
-  const submit = () => {
-    if (value === CODE) {
-      onUnlock();
-    } else {
-      setShake(true);
-      setError(true);
-      setValue("");
-      setTimeout(() => { setShake(false); setError(false); }, 600);
-      inputRef.current?.focus();
+  const submit = async () => {
+    if (checking || lockSeconds > 0 || !value.trim()) return;
+    setChecking(true);
+    // Rejects outside a secure context, where Web Crypto is missing — e.g. a plain-http LAN address
+    const result = await verifyAccessCode(value, new Date()).catch(() => null);
+    setChecking(false);
+    if (!result) {
+      setError(window.isSecureContext
+        ? "Couldn't check the code — please try again."
+        : "Access codes can only be checked over HTTPS or on localhost.");
+      return;
     }
+    if (result.ok) {
+      recordGateAttempt("unlocked", result.session);
+      onUnlock(result.session);
+      return;
+    }
+    const expired = result.reason === "expired";
+    setLockedUntil(recordGateAttempt(expired ? "expired" : "rejected", expired ? result.entry : undefined));
+    setNow(Date.now());
+    setShake(true);
+    setError(expired
+      ? `This code expired on ${new Date(`${result.entry.expires}T00:00`).toLocaleDateString()}.`
+      : "Incorrect code — please try again.");
+    setValue("");
+    setTimeout(() => setShake(false), 600);
+    inputRef.current?.focus();
   };
 
   return (
@@ -191,16 +222,32 @@ export default function Gatekeeper({ onUnlock }: GatekeeperProps) {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.25, duration: 0.45 }}>
               <p className="text-[11px] font-black text-blue-600 uppercase tracking-[0.18em] mb-2">
-                Secure Access
+                {locked ? "Session Locked" : "Secure Access"}
               </p>
               <h1 className="text-[1.65rem] font-black text-gray-900 tracking-tight leading-tight mb-2">
                 Welcome back
               </h1>
               <p className="text-[13px] text-gray-500 font-medium leading-relaxed">
-                Enter your access code to open the ElexicoAI workspace.
+                {locked
+                  ? `${locked.reason === "idle" ? "Locked after a period of inactivity" : "Locked when the window was hidden"}. Enter the ${locked.session.label} code to pick up where you left off.`
+                  : "Enter your access code to open the ElexicoAI workspace."}
               </p>
             </motion.div>
 
+            {/* First run — no code can open the gate until one is added */}
+            {!locked && !hasAccessCodes && (
+              <div className="mt-5 rounded-xl px-4 py-3 text-[12px] text-amber-800 leading-relaxed"
+                style={{ background: "#fffbeb", border: "1px solid #fde68a" }}>
+                <p className="font-black mb-1">No access codes are set up yet</p>
+                <p className="font-medium">
+                  Add one from the project folder, then restart or rebuild the app:
+                </p>
+                <code className="block mt-2 px-2.5 py-1.5 rounded-lg bg-white/70 font-mono text-[11px] break-all">
+                  npm run hash-code -- "your-long-code" --role author --write
+                </code>
+              </div>
+            )}
+
             {/* Divider */}
             <div className="my-7 flex items-center gap-3">
               <div className="flex-1 h-px"
@@ -231,10 +278,11 @@ export default function Gatekeeper({ onUnlock }: GatekeeperProps) {
                   ref={inputRef}
                   type={show ? "text" : "password"}
                   value={value}
-                  onChange={(e) => { setValue(e.target.value); setError(false); }}
+                  onChange={(e) => { setValue(e.target.value); setError(null); }}
                   onKeyDown={(e) => e.key === "Enter" && submit()}
                   placeholder="••••"
-                  maxLength={10}
+                  maxLength={64}
+                  disabled={lockSeconds > 0}
                   className="flex-1 bg-transparent px-4 py-3.5 text-gray-900 placeholder-gray-400 text-sm font-mono focus:outline-none tracking-[0.3em]"
                   autoFocus
                 />
@@ -245,14 +293,14 @@ export default function Gatekeeper({ onUnlock }: GatekeeperProps) {
               </div>
 
               <AnimatePresence>
-                {error && (
+                {(error || lockSeconds > 0) && (
                   <motion.p
                     initial={{ opacity: 0, y: -4 }}
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, y: -4 }}
                     className="text-[11px] text-red-500 mt-2 pl-1 font-semibold flex items-center gap-1.5">
                     <span className="w-4 h-4 rounded-full bg-red-100 flex items-center justify-center text-[9px] font-black flex-shrink-0">!</span>
-                    Incorrect code — please try again.
+                    {lockSeconds > 0 ? `Too many attempts — try again in ${lockSeconds}s.` : error}
                   </motion.p>
                 )}
               </AnimatePresence>
@@ -266,22 +314,30 @@ export default function Gatekeeper({ onUnlock }: GatekeeperProps) {
               whileHover={{ scale: 1.02, boxShadow: "0 10px 35px rgba(37,99,235,0.38)" }}
               whileTap={{ scale: 0.97 }}
               onClick={submit}
-              className="w-full mt-4 py-3.5 rounded-xl text-[13px] font-black text-white flex items-center justify-center gap-2 transition-all"
+              disabled={checking || lockSeconds > 0}
+              className="w-full mt-4 py-3.5 rounded-xl text-[13px] font-black text-white flex items-center justify-center gap-2 transition-all disabled:opacity-60 disabled:cursor-not-allowed"
               style={{
                 background: "linear-gradient(135deg, #1d4ed8 0%, #2563eb 60%, #3b82f6 100%)",
                 boxShadow: "0 4px 20px rgba(37,99,235,0.28)",
               }}>
-              Enter Workspace
-              <ArrowRight className="w-4 h-4" />
+              {checking ? "Checking…" : "Enter Workspace"}
+              {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowRight className="w-4 h-4" />}
             </motion.button>
 
             {/* Footer */}
             <div className="mt-8 pt-5 flex items-center justify-between"
               style={{ borderTop: "1px solid #f1f5f9" }}>
-              <div className="flex items-center gap-2">
-                <div className="w-2 h-2 rounded-full bg-green-400" />
-                <span className="text-[11px] text-gray-400 font-medium">System online</span>
-              </div>
+              {locked && onSignOut ? (
+                <button onClick={onSignOut}
+                  className="text-[11px] text-gray-400 font-semibold hover:text-red-500 transition-colors">
+                  Not you? Sign out
+                </button>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <div className="w-2 h-2 rounded-full bg-green-400" />
+                  <span className="text-[11px] text-gray-400 font-medium">System online</span>
+                </div>
+              )}
               <div className="flex items-center gap-1.5">
                 <ChevronRight className="w-3 h-3 text-gray-300" />
                 <span className="text-[10px] text-gray-400 font-semibold uppercase tracking-widest">
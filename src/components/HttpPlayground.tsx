@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Send, Loader2, Plus, X, RotateCcw, KeyRound } from "lucide-react";
+import {
+  createMockApi, formatHttpRequest, formatHttpResponse, DEMO_TOKENS, DEMO_PASSWORD,
+  type MockHttpRequest, type MockHttpResponse,
+} from "../lib/mockApi";
+import CodeExample from "./CodeExample";
+
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+const BODY_METHODS = new Set(["POST", "PUT", "PATCH"]);
+
+interface HeaderRow {
+  name: string;
+  value: string;
+  enabled: boolean;
+}
+
+interface Preset {
+  label: string;
+  method: string;
+  path: string;
+  auth?: keyof typeof DEMO_TOKENS;
+  body?: unknown;
+}
+
+const PRESETS: Preset[] = [
+  { label: "List users", method: "GET", path: "/api/users" },
+  { label: "Get user 42", method: "GET", path: "/api/users/42" },
+  { label: "Missing user (404)", method: "GET", path: "/api/users/999" },
+  { label: "Log in", method: "POST", path: "/api/login", body: { email: "sarah@example.com", password: DEMO_PASSWORD } },
+  { label: "Create user", method: "POST", path: "/api/users", auth: "admin", body: { name: "Mei Chen", email: "mei@example.com" } },
+  { label: "Invalid user (422)", method: "POST", path: "/api/users", auth: "admin", body: { name: "M", email: "not-an-email" } },
+  { label: "Create without token (401)", method: "POST", path: "/api/users", body: { name: "Mei Chen", email: "mei@example.com" } },
+  { label: "Rename user 7", method: "PATCH", path: "/api/users/7", auth: "user", body: { name: "Ravi K." } },
+  { label: "Delete as user (403)", method: "DELETE", path: "/api/users/12", auth: "user" },
+  { label: "Delete as admin", method: "DELETE", path: "/api/users/12", auth: "admin" },
+];
+
+function presetHeaders(preset: Preset): HeaderRow[] {
+  const rows: HeaderRow[] = [{ name: "Accept", value: "application/json", enabled: true }];
+  if (preset.body !== undefined) rows.push({ name: "Content-Type", value: "application/json", enabled: true });
+  rows.push({ name: "Authorization", value: `Bearer ${DEMO_TOKENS[preset.auth ?? "admin"]}`, enabled: !!preset.auth });
+  return rows;
+}
+
+const inputClass = "text-xs font-mono px-2.5 py-2 rounded-lg outline-none border border-gray-200 bg-white focus:border-blue-400 transition-colors";
+
+const STATUS_COLOR = (status: number) =>
+  status < 300 ? "#059669" : status < 400 ? "#2563eb" : status < 500 ? "#d97706" : "#dc2626";
+
+export default function HttpPlayground() {
+  // One service per widget, so each learner's changes stay in their own sandbox
+  const [api] = useState(createMockApi);
+  const [method, setMethod] = useState(PRESETS[1].method);
+  const [path, setPath] = useState(PRESETS[1].path);
+  const [headers, setHeaders] = useState<HeaderRow[]>(() => presetHeaders(PRESETS[1]));
+  const [body, setBody] = useState("");
+  const [sending, setSending] = useState(false);
+  const [exchange, setExchange] = useState<{ request: MockHttpRequest; response: MockHttpResponse; id: number } | null>(null);
+
+  const applyPreset = (preset: Preset) => {
+    setMethod(preset.method);
+    setPath(preset.path);
+    setHeaders(presetHeaders(preset));
+    setBody(preset.body === undefined ? "" : JSON.stringify(preset.body, null, 2));
+  };
+
+  const setHeader = (i: number, patch: Partial<HeaderRow>) =>
+    setHeaders((rows) => rows.map((row, j) => (j === i ? { ...row, ...patch } : row)));
+
+  const send = async () => {
+    if (sending) return;
+    const request: MockHttpRequest = {
+      method,
+      path: path.startsWith("/") ? path : `/${path}`,
+      headers: Object.fromEntries(headers.filter((h) => h.enabled && h.name.trim()).map((h) => [h.name.trim(), h.value])),
+      body: BODY_METHODS.has(method) ? body : "",
+    };
+    setSending(true);
+    const response = await api.send(request);
+    setExchange((prev) => ({ request, response, id: (prev?.id ?? 0) + 1 }));
+    setSending(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Presets */}
+      <div className="flex flex-wrap gap-1">
+        {PRESETS.map((p) => (
+          <button key={p.label} onClick={() => applyPreset(p)}
+            className="text-[10px] font-semibold px-2 py-1 rounded-md border border-gray-200 text-gray-600 hover:border-blue-300 hover:text-blue-600 transition-colors">
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Request line */}
+      <div className="flex gap-1.5">
+        <select value={method} onChange={(e) => setMethod(e.target.value)} className={`${inputClass} font-bold`}>
+          {METHODS.map((m) => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <input value={path} onChange={(e) => setPath(e.target.value)} spellCheck={false}
+          onKeyDown={(e) => { if (e.key === "Enter") send(); }}
+          className={`${inputClass} flex-1 min-w-0`} />
+        <button onClick={send} disabled={sending}
+          className="flex items-center gap-1.5 px-3.5 rounded-lg text-xs font-bold text-white disabled:opacity-60"
+          style={{ background: "linear-gradient(135deg, #1d4ed8, #2563eb)" }}>
+          {sending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />} Send
+        </button>
+      </div>
+
+      {/* Headers */}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Headers</span>
+          <button onClick={() => setHeaders((rows) => [...rows, { name: "", value: "", enabled: true }])}
+            className="flex items-center gap-1 text-[10px] font-semibold px-2 py-0.5 rounded-md text-blue-600 hover:bg-blue-50">
+            <Plus className="w-3 h-3" /> Add
+          </button>
+        </div>
+        <div className="space-y-1">
+          {headers.map((h, i) => (
+            <div key={i} className="flex items-center gap-1.5">
+              <input type="checkbox" checked={h.enabled} onChange={(e) => setHeader(i, { enabled: e.target.checked })} />
+              <input value={h.name} placeholder="Header" onChange={(e) => setHeader(i, { name: e.target.value })}
+                className={`${inputClass} w-32 flex-shrink-0`} style={{ opacity: h.enabled ? 1 : 0.5 }} />
+              <input value={h.value} placeholder="Value" onChange={(e) => setHeader(i, { value: e.target.value })}
+                className={`${inputClass} flex-1 min-w-0`} style={{ opacity: h.enabled ? 1 : 0.5 }} />
+              <button onClick={() => setHeaders((rows) => rows.filter((_, j) => j !== i))} title="Remove header"
+                className="p-1 rounded-md text-gray-300 hover:text-rose-500">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <p className="flex items-center gap-1 mt-1 text-[10px] text-gray-400">
+          <KeyRound className="w-3 h-3" />
+          Demo tokens: <code className="font-mono">{DEMO_TOKENS.admin}</code> (admin) · <code className="font-mono">{DEMO_TOKENS.user}</code> (user)
+        </p>
+      </div>
+
+      {/* Body */}
+      {BODY_METHODS.has(method) && (
+        <label className="block">
+          <span className="block text-[10px] font-bold uppercase tracking-wider text-gray-400 mb-1">JSON body</span>
+          <textarea value={body} onChange={(e) => setBody(e.target.value)} rows={5} spellCheck={false}
+            className={`${inputClass} w-full resize-y`} />
+        </label>
+      )}
+
+      {/* Exchange */}
+      {exchange && (
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="font-bold px-2 py-0.5 rounded-md text-white" style={{ background: STATUS_COLOR(exchange.response.status) }}>
+              {exchange.response.status} {exchange.response.statusText}
+            </span>
+            <span className="text-gray-400">{exchange.response.ms} ms · mock server</span>
+            <button onClick={() => { api.reset(); setExchange(null); }} title="Restore the original users"
+              className="ml-auto flex items-center gap-1 text-[10px] font-semibold px-2 py-0.5 rounded-md text-gray-500 hover:bg-gray-100">
+              <RotateCcw className="w-3 h-3" /> Reset data
+            </button>
+          </div>
+          <CodeExample key={exchange.id} files={[
+            { name: "response.http", language: "http", code: formatHttpResponse(exchange.response) },
+            { name: "request.http", language: "http", code: formatHttpRequest(exchange.request) },
+          ]} />
+        </div>
+      )}
+    </div>
+  );
+}
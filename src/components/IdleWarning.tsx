@@ -0,0 +1,29 @@
+import { motion } from "framer-motion";
+import { Clock } from "lucide-react";
+
+interface IdleWarningProps {
+  seconds: number;
+  onStay: () => void;
+}
+
+export default function IdleWarning({ seconds, onStay }: IdleWarningProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 16 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 16 }}
+      role="alertdialog"
+      aria-live="assertive"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[90] flex items-center gap-3 pl-4 pr-2 py-2 rounded-2xl bg-white"
+      style={{ border: "1px solid #fde68a", boxShadow: "0 12px 40px rgba(0,0,0,0.14)" }}>
+      <Clock className="w-4 h-4 text-amber-500 flex-shrink-0" />
+      <p className="text-[13px] text-gray-700">
+        Still there? This session locks in <span className="font-black tabular-nums text-amber-600">{seconds}s</span>
+      </p>
+      <button onClick={onStay}
+        className="text-[12px] font-bold px-3 py-1.5 rounded-xl text-white bg-blue-600 hover:bg-blue-700 transition-colors">
+        Stay signed in
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import {
+  ChevronLeft, ChevronRight, ZoomIn, ZoomOut, BookOpen, GraduationCap, Timer, StickyNote, MessageCircleQuestion, MonitorPlay, X,
+} from "lucide-react";
+import SlideCanvas from "./SlideCanvas";
+import type { Slide } from "../data/slides";
+import { PANEL_TABS } from "../lib/routes";
+import { formatClock } from "../lib/presenter";
+import { MAX_ZOOM, MIN_ZOOM, stepZoom } from "../lib/zoom";
+import { usePresenterLink } from "../hooks/usePresentation";
+import { useShortcuts } from "../hooks/useShortcuts";
+
+interface PresenterViewProps {
+  presentationId: string;
+}
+
+const DEFAULT_TALK_MINUTES = 30;
+
+/** A slide drawn at desktop size and scaled down to fit its box */
+function SlidePreview({ slide, index, count, scale }: { slide: Slide; index: number; count: number; scale: number }) {
+  return (
+    <div className="relative w-full overflow-hidden rounded-2xl pointer-events-none" style={{ aspectRatio: "16 / 8" }}>
+      <div className="absolute top-0 left-0 origin-top-left"
+        style={{ width: `${100 / scale}%`, height: `${100 / scale}%`, transform: `scale(${scale})` }}>
+        <SlideCanvas slide={slide} slideNumber={index + 1} slideCount={count} />
+      </div>
+    </div>
+  );
+}
+
+export default function PresenterView({ presentationId }: PresenterViewProps) {
+  const { link, show } = usePresenterLink(presentationId);
+  const [now, setNow] = useState(() => Date.now());
+  const [talkMinutes, setTalkMinutes] = useState(DEFAULT_TALK_MINUTES);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const linked = link.status === "linked" ? link : null;
+  const slides = linked?.deck.slides ?? [];
+  const view = linked?.view;
+  const go = (index: number) => {
+    if (index < 0 || index >= slides.length) return;
+    // A new slide starts with its overlays closed and the panel tab kept, as in the dashboard
+    show({ slideIndex: index, deepDive: false, quiz: false });
+  };
+
+  useShortcuts({
+    prevSlide: () => view && go(view.slideIndex - 1),
+    nextSlide: () => view && go(view.slideIndex + 1),
+    zoomIn: () => view && show({ zoom: stepZoom(view.zoom, 1) }),
+    zoomOut: () => view && show({ zoom: stepZoom(view.zoom, -1) }),
+    zoomReset: () => show({ zoom: 1 }),
+    deepDive: () => view && show({ deepDive: !view.deepDive }),
+  }, linked !== null);
+
+  if (!linked || !view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4" style={{ background: "#f0f4ff" }}>
+        <div className="max-w-sm text-center bg-white rounded-2xl shadow-xl px-6 py-8" style={{ border: "1px solid #e0e9ff" }}>
+          <MonitorPlay className="w-8 h-8 mx-auto text-blue-600" />
+          {link.status === "connecting" ? (
+            <p className="text-sm font-semibold text-gray-700 mt-3">Connecting to the audience window…</p>
+          ) : (
+            <>
+              <p className="text-sm font-bold text-gray-900 mt-3">This presentation has ended</p>
+              <p className="text-xs text-gray-500 mt-1.5">
+                The audience window was closed or stopped presenting. Start again with <span className="font-bold">Present</span> in the deck.
+              </p>
+              <button onClick={() => window.close()}
+                className="mt-4 text-[12px] font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700 transition-colors">
+                Close window
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { deck, questions, startedAt } = linked;
+  const slide = slides[view.slideIndex];
+  const next = slides[view.slideIndex + 1];
+  const elapsed = now - startedAt;
+  const remaining = talkMinutes * 60_000 - elapsed;
+
+  const toggleClass = (on: boolean) =>
+    `flex items-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl border transition-colors ${
+      on ? "text-white bg-blue-600 border-blue-600" : "text-blue-600 bg-white border-blue-200 hover:bg-blue-50"
+    }`;
+
+  return (
+    <div className="h-screen flex flex-col overflow-hidden" style={{ background: "#f0f4ff" }}>
+
+      {/* ════════════ HEADER ════════════ */}
+      <header className="flex-shrink-0 flex items-center gap-4 px-5 h-[60px] bg-white"
+        style={{ borderBottom: "1px solid #e0e9ff", boxShadow: "0 2px 20px rgba(37,99,235,0.08)" }}>
+        <div className="w-8 h-8 rounded-xl flex items-center justify-center flex-shrink-0"
+          style={{ background: "linear-gradient(135deg, #1d4ed8 0%, #2563eb 60%, #3b82f6 100%)" }}>
+          <span className="text-white font-black text-[13px] leading-none">E</span>
+        </div>
+        <div className="min-w-0">
+          <p className="text-[10px] font-black uppercase tracking-[0.16em] text-blue-600">Presenter view</p>
+          <p className="text-[14px] font-black text-gray-900 truncate">{deck.title}</p>
+        </div>
+
+        <div className="flex-1" />
+
+        {/* Timer */}
+        <div className="flex items-center gap-3 px-3.5 py-1.5 rounded-xl"
+          style={{ background: "linear-gradient(135deg, #eff6ff, #dbeafe)", border: "1px solid #bfdbfe" }}>
+          <Timer className="w-4 h-4 text-blue-500" />
+          <div className="text-center">
+            <p className="text-[9px] font-black uppercase tracking-widest text-blue-400">Elapsed</p>
+            <p className="text-[16px] font-black tabular-nums text-blue-700 leading-tight">{formatClock(elapsed)}</p>
+          </div>
+          <div className="text-center">
+            <p className="text-[9px] font-black uppercase tracking-widest text-blue-400">Remaining</p>
+            <p className={`text-[16px] font-black tabular-nums leading-tight ${remaining < 0 ? "text-rose-600" : "text-blue-700"}`}>
+              {remaining < 0 ? `+${formatClock(-remaining)}` : formatClock(remaining)}
+            </p>
+          </div>
+          <label className="flex items-center gap-1 text-[10px] font-bold text-blue-500" title="Planned length of the talk">
+            <input type="number" min={1} max={600} value={talkMinutes}
+              onChange={(e) => setTalkMinutes(Math.max(1, Number(e.target.value) || DEFAULT_TALK_MINUTES))}
+              className="w-12 text-[12px] font-bold tabular-nums text-blue-700 bg-white rounded-md px-1.5 py-0.5 border border-blue-200 outline-none" />
+            min
+          </label>
+        </div>
+
+        <div className="flex items-center gap-1 text-[14px] font-black tabular-nums text-blue-600">
+          {String(view.slideIndex + 1).padStart(2, "0")}
+          <span className="text-[11px] text-blue-300">/</span>
+          <span className="text-[12px] text-blue-400">{String(slides.length).padStart(2, "0")}</span>
+        </div>
+
+        <button onClick={() => window.close()} title="Stop presenting"
+          className="flex items-center gap-1.5 text-[12px] font-bold px-3 py-2 rounded-xl border text-gray-500 border-gray-200 hover:text-red-500 hover:border-red-200 transition-colors">
+          <X className="w-3.5 h-3.5" />
+          End
+        </button>
+      </header>
+
+      {/* ════════════ BODY ════════════ */}
+      <div className="flex-1 min-h-0 flex gap-4 p-4">
+
+        {/* ── Current slide + controls ── */}
+        <main className="flex-1 min-w-0 flex flex-col gap-3">
+          <p className="text-[10.5px] font-black uppercase tracking-widest text-gray-400">On screen now</p>
+          <SlidePreview slide={slide} index={view.slideIndex} count={slides.length} scale={0.6} />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => go(view.slideIndex - 1)} disabled={view.slideIndex === 0}
+              className="flex items-center gap-1 text-[12px] font-bold px-3 py-2 rounded-xl border text-gray-600 bg-white border-gray-200 hover:bg-gray-50 disabled:opacity-30 transition-colors">
+              <ChevronLeft className="w-4 h-4" /> Previous
+            </button>
+            <button onClick={() => go(view.slideIndex + 1)} disabled={!next}
+              className="flex items-center gap-1 text-[12px] font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-30 transition-colors">
+              Next <ChevronRight className="w-4 h-4" />
+            </button>
+
+            <div className="w-px h-6 bg-gray-200 mx-1" />
+
+            <div className="flex items-center gap-0.5 px-1.5 py-1 rounded-xl bg-white border border-gray-200">
+              <button onClick={() => show({ zoom: stepZoom(view.zoom, -1) })} disabled={view.zoom <= MIN_ZOOM} title="Zoom out"
+                className="p-1.5 rounded-lg text-gray-400 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-25">
+                <ZoomOut className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={() => show({ zoom: 1 })} title="Reset zoom"
+                className="px-2 text-[11px] font-black tabular-nums text-gray-600 min-w-[2.8rem]">
+                {Math.round(view.zoom * 100)}%
+              </button>
+              <button onClick={() => show({ zoom: stepZoom(view.zoom, 1) })} disabled={view.zoom >= MAX_ZOOM} title="Zoom in"
+                className="p-1.5 rounded-lg text-gray-400 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-25">
+                <ZoomIn className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            <button onClick={() => show({ deepDive: !view.deepDive })} className={toggleClass(view.deepDive)}>
+              <BookOpen className="w-3.5 h-3.5" /> Deep dive
+            </button>
+            {!!slide.quiz?.length && (
+              <button onClick={() => show({ quiz: !view.quiz })} className={toggleClass(view.quiz)}>
+                <GraduationCap className="w-3.5 h-3.5" /> Quiz
+              </button>
+            )}
+
+            <div className="flex items-center gap-1 p-1 rounded-xl bg-white border border-gray-200" title="AI panel tab on screen">
+              {PANEL_TABS.map((tab) => (
+                <button key={tab} onClick={() => show({ panel: tab })}
+                  className={`text-[11px] font-black capitalize px-2.5 py-1 rounded-lg transition-colors ${
+                    view.panel === tab ? "text-white bg-blue-600" : "text-gray-400 hover:text-gray-700"
+                  }`}>
+                  {tab}
+                </button>
+              ))}
+            </div>
+          </div>
+        </main>
+
+        {/* ── Next slide, notes, questions ── */}
+        <aside className="w-[380px] flex-shrink-0 flex flex-col gap-3 min-h-0">
+          <p className="text-[10.5px] font-black uppercase tracking-widest text-gray-400">Up next</p>
+          {next ? (
+            <SlidePreview slide={next} index={view.slideIndex + 1} count={slides.length} scale={0.3} />
+          ) : (
+            <div className="rounded-2xl border border-dashed border-gray-300 py-8 text-center text-[12px] font-semibold text-gray-400">
+              End of the deck
+            </div>
+          )}
+
+          <section className="flex-1 min-h-0 flex flex-col rounded-2xl bg-white" style={{ border: "1px solid #e2e8f0" }}>
+            <h2 className="flex items-center gap-1.5 px-4 pt-3 pb-2 text-[10.5px] font-black uppercase tracking-widest text-amber-600">
+              <StickyNote className="w-3.5 h-3.5" /> Speaker notes
+            </h2>
+            <div className="flex-1 overflow-y-auto px-4 pb-4 text-[15px] leading-relaxed text-gray-800 whitespace-pre-line">
+              {slide.speakerNotes || <span className="text-[13px] text-gray-400 italic">No notes for this slide.</span>}
+            </div>
+          </section>
+
+          <section className="max-h-[40%] min-h-0 flex flex-col rounded-2xl bg-white" style={{ border: "1px solid #e2e8f0" }}>
+            <h2 className="flex items-center gap-1.5 px-4 pt-3 pb-2 text-[10.5px] font-black uppercase tracking-widest text-blue-600">
+              <MessageCircleQuestion className="w-3.5 h-3.5" /> Audience questions
+              {questions.length > 0 && (
+                <span className="ml-auto text-[10px] tabular-nums px-1.5 py-0.5 rounded-full text-white bg-blue-600">{questions.length}</span>
+              )}
+            </h2>
+            <ul className="flex-1 overflow-y-auto px-4 pb-3 space-y-2">
+              {questions.length === 0 && (
+                <li className="text-[12px] text-gray-400 italic">Questions asked in the AI chat on the audience screen appear here.</li>
+              )}
+              {[...questions].reverse().map((q, i) => (
+                <li key={questions.length - i} className="text-[13px] text-gray-800">
+                  <span className="block text-[10px] font-bold text-gray-400 tabular-nums">
+                    Slide {q.slideIndex + 1} · {formatClock(q.askedAt - startedAt)} in
+                  </span>
+                  {q.text}
+                </li>
+              ))}
+            </ul>
+          </section>
+        </aside>
+      </div>
+    </div>
+  );
+}
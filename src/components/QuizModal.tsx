@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  X, GraduationCap, CheckCircle2, XCircle, ArrowUp, ArrowDown, BookOpen, ChevronRight, RotateCcw, Download,
+} from "lucide-react";
+import type { Slide, QuizItem } from "../data/slides";
+import type { Deck } from "../data/decks";
+import { toRichBlocks } from "../lib/richContent";
+import {
+  gradeQuizItem, correctAnswerText, findDeepDiveBlock, shuffledOrder, splitBlanks, blankCount,
+  type QuizResponse,
+} from "../lib/quiz";
+import { recordQuizAttempt, downloadQuizScores, type QuizScores } from "../lib/quizScores";
+
+interface QuizModalProps {
+  deck: Deck;
+  slide: Slide;
+  slideNumber: number;
+  onClose: () => void;
+  /** Open the deep dive scrolled to block `index` of its content */
+  onOpenDeepDive: (index: number) => void;
+  /** Called when an attempt is finished, with the number answered correctly */
+  onFinished?: (right: number, total: number) => void;
+}
+
+const TYPE_LABEL: Record<QuizItem["type"], string> = {
+  "multiple-choice": "Multiple choice",
+  "true-false":      "True or false",
+  "ordering":        "Put in order",
+  "fill-blank":      "Fill in the blanks",
+};
+
+/** The response a question starts with, before the learner touches it */
+function initialResponse(item: QuizItem): QuizResponse | undefined {
+  if (item.type === "ordering") return shuffledOrder(item).map((i) => item.items[i]);
+  if (item.type === "fill-blank") return Array(blankCount(item.code)).fill("");
+  return undefined;
+}
+
+const optionClass = "w-full text-left text-sm px-3.5 py-2.5 rounded-xl border transition-all";
+
+function QuestionInput({ item, response, locked, onChange }: {
+  item: QuizItem;
+  response: QuizResponse | undefined;
+  locked: boolean;
+  onChange: (r: QuizResponse) => void;
+}) {
+  const picked = (selected: boolean) => selected
+    ? { borderColor: "#2563eb", background: "#2563eb0d", color: "#1d4ed8" }
+    : { borderColor: "#e5e7eb", background: "#fff", color: "#374151" };
+
+  switch (item.type) {
+    case "multiple-choice":
+      return (
+        <div className="space-y-2">
+          {item.options.map((option, i) => (
+            <button key={i} disabled={locked} onClick={() => onChange(i)} className={optionClass} style={picked(response === i)}>
+              <span className="font-bold mr-2 text-gray-400">{String.fromCharCode(65 + i)}</span>{option}
+            </button>
+          ))}
+        </div>
+      );
+
+    case "true-false":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          {[true, false].map((value) => (
+            <button key={String(value)} disabled={locked} onClick={() => onChange(value)}
+              className={`${optionClass} text-center font-semibold`} style={picked(response === value)}>
+              {value ? "True" : "False"}
+            </button>
+          ))}
+        </div>
+      );
+
+    case "ordering": {
+      const order = response as string[];
+      const move = (i: number, by: number) => {
+        const next = [...order];
+        [next[i], next[i + by]] = [next[i + by], next[i]];
+        onChange(next);
+      };
+      return (
+        <div className="space-y-1.5">
+          {order.map((entry, i) => (
+            <div key={entry} className="flex items-center gap-2 px-3 py-2 rounded-xl border border-gray-200 bg-white text-sm text-gray-700">
+              <span className="w-5 h-5 rounded-full flex-shrink-0 flex items-center justify-center text-xs font-bold text-white bg-blue-600">{i + 1}</span>
+              <span className="flex-1">{entry}</span>
+              <button disabled={locked || i === 0} onClick={() => move(i, -1)} title="Move up"
+                className="p-1 rounded-md text-gray-400 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-30">
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button disabled={locked || i === order.length - 1} onClick={() => move(i, 1)} title="Move down"
+                className="p-1 rounded-md text-gray-400 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-30">
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case "fill-blank": {
+      const blanks = response as string[];
+      const parts = splitBlanks(item.code);
+      return (
+        <pre className="bg-gray-950 text-gray-100 text-xs font-mono p-4 rounded-xl overflow-x-auto leading-loose whitespace-pre-wrap">
+          {parts.map((part, i) => (
+            <span key={i}>
+              {part}
+              {i < parts.length - 1 && (
+                <input value={blanks[i]} disabled={locked} spellCheck={false} autoFocus={i === 0}
+                  onChange={(e) => onChange(blanks.map((b, j) => (j === i ? e.target.value : b)))}
+                  style={{ width: `${Math.max(6, blanks[i].length + 2)}ch` }}
+                  className="mx-0.5 px-1.5 rounded-md bg-gray-800 border border-gray-600 text-amber-300 outline-none focus:border-blue-400" />
+              )}
+            </span>
+          ))}
+        </pre>
+      );
+    }
+  }
+}
+
+export default function QuizModal({ deck, slide, slideNumber, onClose, onOpenDeepDive, onFinished }: QuizModalProps) {
+  const quiz = slide.quiz ?? [];
+  const [index, setIndex] = useState(0);
+  const [responses, setResponses] = useState<(QuizResponse | undefined)[]>(() => quiz.map(initialResponse));
+  // null until checked, then whether the answer was right
+  const [results, setResults] = useState<(boolean | null)[]>(() => quiz.map(() => null));
+  const [scores, setScores] = useState<QuizScores | null>(null);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    document.addEventListener("keydown", handler);
+    return () => document.removeEventListener("keydown", handler);
+  }, [onClose]);
+
+  const item = quiz[index];
+  const response = responses[index];
+  const result = results[index];
+  const finished = scores !== null;
+  const answered = item?.type === "fill-blank" ? (response as string[]).every((b) => b.trim()) : response !== undefined;
+  const refBlock = item ? findDeepDiveBlock(toRichBlocks(slide.deepDive), item.deepDiveRef) : -1;
+
+  const check = () => {
+    if (!item || response === undefined) return;
+    setResults((r) => r.map((v, i) => (i === index ? gradeQuizItem(item, response) : v)));
+  };
+
+  const next = () => {
+    if (index < quiz.length - 1) {
+      setIndex(index + 1);
+      return;
+    }
+    setScores(recordQuizAttempt(deck.id, slide, results.map(Boolean)));
+    onFinished?.(results.filter(Boolean).length, quiz.length);
+  };
+
+  const retry = () => {
+    setIndex(0);
+    setResponses(quiz.map(initialResponse));
+    setResults(quiz.map(() => null));
+    setScores(null);
+  };
+
+  const right = results.filter(Boolean).length;
+  const deckScores = scores ?? {};
+  const quizSlides = deck.slides.map((s, i) => ({ slide: s, number: i + 1 })).filter(({ slide: s }) => s.quiz?.length);
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.2 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/40 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, y: 24, scale: 0.98 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, y: 24, scale: 0.98 }}
+        transition={{ type: "spring", damping: 28, stiffness: 320 }}
+        className="fixed inset-x-3 top-[6vh] mx-auto max-w-xl max-h-[88vh] bg-white rounded-2xl shadow-2xl z-50 flex flex-col overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-gray-100">
+          <div className="w-9 h-9 rounded-xl flex items-center justify-center bg-blue-600">
+            <GraduationCap className="w-5 h-5 text-white" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Quiz · Slide {slideNumber}</p>
+            <h2 className="text-base font-bold text-gray-900 truncate">{slide.title}</h2>
+          </div>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Progress */}
+        <div className="flex gap-1 px-5 pt-3">
+          {quiz.map((_, i) => (
+            <div key={i} className="h-1.5 flex-1 rounded-full"
+              style={{ background: results[i] === true ? "#059669" : results[i] === false ? "#dc2626" : i === index && !finished ? "#2563eb" : "#e5e7eb" }} />
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {!item ? (
+            <p className="text-sm text-gray-500">This slide has no quiz yet.</p>
+          ) : !finished ? (
+            <>
+              <div>
+                <p className="text-[11px] font-semibold uppercase tracking-wider text-blue-600 mb-1">
+                  {TYPE_LABEL[item.type]} · {index + 1} of {quiz.length}
+                </p>
+                <p className="text-[15px] font-semibold text-gray-900 leading-snug">{item.question}</p>
+              </div>
+
+              <QuestionInput key={index} item={item} response={response} locked={result !== null}
+                onChange={(r) => setResponses((all) => all.map((v, i) => (i === index ? r : v)))} />
+
+              {/* Immediate feedback */}
+              {result !== null && (
+                <motion.div initial={{ opacity: 0, y: 6 }} animate={{ opacity: 1, y: 0 }}
+                  className="rounded-xl px-4 py-3 text-sm space-y-1.5"
+                  style={result ? { background: "#ecfdf5", color: "#065f46" } : { background: "#fef2f2", color: "#991b1b" }}>
+                  <p className="flex items-center gap-2 font-bold">
+                    {result ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                    {result ? "Correct" : "Not quite"}
+                  </p>
+                  {!result && <p><span className="font-semibold">Answer:</span> {correctAnswerText(item)}</p>}
+                  {item.explanation && <p className="text-gray-700">{item.explanation}</p>}
+                  {refBlock >= 0 && (
+                    <button onClick={() => onOpenDeepDive(refBlock)}
+                      className="flex items-center gap-1.5 text-xs font-bold text-blue-600 hover:underline">
+                      <BookOpen className="w-3.5 h-3.5" /> Read this in the deep dive
+                    </button>
+                  )}
+                </motion.div>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="text-center py-2">
+                <p className="text-4xl font-black text-gray-900 tabular-nums">{right} / {quiz.length}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  {right === quiz.length ? "Perfect — you've got this slide." : "Review the questions you missed in the deep dive, then try again."}
+                </p>
+              </div>
+
+              {/* Deck results, for learners and onboarding leads alike */}
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <span className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">{deck.title} · quiz results</span>
+                  <button onClick={() => downloadQuizScores(deck, deckScores)}
+                    className="flex items-center gap-1 text-[11px] font-semibold px-2 py-0.5 rounded-md text-blue-600 hover:bg-blue-50">
+                    <Download className="w-3 h-3" /> CSV
+                  </button>
+                </div>
+                <div className="rounded-xl border border-gray-100 divide-y divide-gray-100">
+                  {quizSlides.map(({ slide: s, number }) => {
+                    const score = deckScores[s.id];
+                    const pct = score ? score.best / score.total : 0;
+                    return (
+                      <div key={s.id} className="flex items-center gap-3 px-3 py-2 text-xs"
+                        style={s.id === slide.id ? { background: "#2563eb08" } : {}}>
+                        <span className="w-6 font-mono text-gray-400">{String(number).padStart(2, "0")}</span>
+                        <span className="flex-1 truncate text-gray-700 font-medium">{s.title}</span>
+                        {score ? (
+                          <>
+                            <span className="text-gray-400">{score.attempts}×</span>
+                            <span className="w-14 text-right font-bold tabular-nums"
+                              style={{ color: pct >= 0.8 ? "#059669" : pct >= 0.5 ? "#d97706" : "#dc2626" }}>
+                              best {score.best}/{score.total}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-gray-300">not taken</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        {item && (
+          <div className="px-5 py-3 border-t border-gray-100 flex items-center justify-end gap-2">
+            {finished ? (
+              <>
+                <button onClick={retry}
+                  className="flex items-center gap-1.5 text-xs font-semibold px-3 py-2 rounded-xl text-gray-600 hover:bg-gray-100">
+                  <RotateCcw className="w-3.5 h-3.5" /> Try again
+                </button>
+                <button onClick={onClose}
+                  className="text-xs font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700">
+                  Done
+                </button>
+              </>
+            ) : result === null ? (
+              <button onClick={check} disabled={!answered}
+                className="text-xs font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-40">
+                Check answer
+              </button>
+            ) : (
+              <button onClick={next}
+                className="flex items-center gap-1 text-xs font-bold px-4 py-2 rounded-xl text-white bg-blue-600 hover:bg-blue-700">
+                {index < quiz.length - 1 ? "Next question" : "See results"} <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </>
+  );
+}
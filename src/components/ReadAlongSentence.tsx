@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+import { wordAt, type SentenceSpan } from "../lib/readAlong";
+
+interface ReadAlongSentenceProps {
+  span: SentenceSpan;
+  /** useTTS's spokenAt for the text this sentence belongs to */
+  spokenAt: number | null;
+  /** Start narration at this sentence */
+  onSeek: (start: number) => void;
+}
+
+/**
+ * One sentence of a text being read aloud: tinted while it is spoken, with the spoken word marked
+ * and kept in view. Clicking it reads on from there.
+ */
+export default function ReadAlongSentence({ span, spokenAt, onSeek }: ReadAlongSentenceProps) {
+  const markRef = useRef<HTMLElement>(null);
+  const at = spokenAt === null ? -1 : spokenAt - span.start;
+  const active = at >= 0 && at < span.text.length;
+  const word = active ? wordAt(span.text, at) : null;
+  const wordStart = word?.start ?? null;
+
+  useEffect(() => {
+    if (wordStart !== null) markRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [wordStart]);
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      title="Read from here"
+      onClick={() => onSeek(span.start)}
+      onKeyDown={(e) => {
+        if (e.key !== "Enter") return;
+        e.preventDefault();
+        onSeek(span.start);
+      }}
+      className={`rounded cursor-pointer transition-colors outline-none focus-visible:ring-2 focus-visible:ring-blue-300 ${active ? "bg-blue-100/70" : "hover:bg-blue-50"}`}
+    >
+      {word ? (
+        <>
+          {span.text.slice(0, word.start)}
+          <mark ref={markRef} className="rounded px-0.5 -mx-0.5 text-white bg-blue-600">{span.text.slice(word.start, word.end)}</mark>
+          {span.text.slice(word.end)}
+        </>
+      ) : span.text}
+    </span>
+  );
+}
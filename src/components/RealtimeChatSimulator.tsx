@@ -0,0 +1,354 @@
+import { useEffect, useRef, useState } from "react";
+import { Send, WifiOff, Wifi, LogOut, Radio, BarChart3, ArrowUp, ArrowDown } from "lucide-react";
+import {
+  createEventBus, createChatServer, compareTransports,
+  type EventBus, type ChatEvents, type ChatMessage, type Transport,
+} from "../lib/realtimeSim";
+
+type Status = "connecting" | "online" | "reconnecting" | "offline";
+
+interface InboxEntry {
+  key: number;
+  /** Chat line, or a system notice such as "Ben joined #general" */
+  message?: ChatMessage & { latencyMs: number };
+  notice?: string;
+}
+
+interface SimClient {
+  id: string;
+  name: string;
+  color: string;
+  room: string;
+  status: Status;
+  /** Reconnect attempt in progress, 0 when connected */
+  attempt: number;
+  draft: string;
+  inbox: InboxEntry[];
+}
+
+interface WireEntry {
+  key: number;
+  dir: "up" | "down";
+  clientId: string;
+  text: string;
+}
+
+const ROOMS = ["general", "random"];
+
+const INITIAL_CLIENTS: SimClient[] = [
+  { id: "aisha", name: "Aisha", color: "#2563eb", room: "general" },
+  { id: "ben", name: "Ben", color: "#059669", room: "general" },
+  { id: "chen", name: "Chen", color: "#d97706", room: "general" },
+  { id: "dev", name: "Dev", color: "#9333ea", room: "random" },
+].map((c) => ({ ...c, status: "connecting" as Status, attempt: 0, draft: "", inbox: [] }));
+
+/** A busy two minutes of chat, for when the learner hasn't sent much yet */
+const SAMPLE_TRAFFIC = {
+  durationMs: 120_000,
+  sendTimes: [2000, 2600, 3100, 15000, 15400, 41000, 41300, 41900, 42500, 70000, 95000, 95500, 96200, 110000],
+};
+
+const TRANSPORT_INFO: Record<Transport, { label: string; note: string }> = {
+  "websocket":     { label: "WebSocket",     note: "One upgrade, then the server pushes each message the moment it lands." },
+  "long-polling":  { label: "Long polling",  note: "The server holds each request open until there is news, then the client asks again." },
+  "short-polling": { label: "Short polling", note: "The client asks on a timer — most answers are empty and messages wait for the next tick." },
+};
+
+const STATUS_STYLE: Record<Status, { label: string; color: string }> = {
+  connecting:   { label: "connecting…",  color: "#d97706" },
+  online:       { label: "online",       color: "#059669" },
+  reconnecting: { label: "reconnecting", color: "#dc2626" },
+  offline:      { label: "offline",      color: "#9ca3af" },
+};
+
+const MAX_INBOX = 6;
+const MAX_WIRE = 12;
+
+/** Open a socket and join a room, as the client does on every (re)connect */
+function connectAndJoin(bus: EventBus<ChatEvents>, c: Pick<SimClient, "id" | "name" | "room">) {
+  bus.emit("connect", { clientId: c.id });
+  bus.emit("client:emit", { clientId: c.id, event: "join", data: { user: c.name, room: c.room } });
+}
+
+export default function RealtimeChatSimulator() {
+  const [mode, setMode] = useState<"live" | "compare">("live");
+  const [bus] = useState(() => createEventBus<ChatEvents>());
+  const [clients, setClients] = useState<SimClient[]>(INITIAL_CLIENTS);
+  const [wire, setWire] = useState<WireEntry[]>([]);
+  const [delivered, setDelivered] = useState({ count: 0, totalMs: 0 });
+  const [startedAt] = useState(() => performance.now());
+  const [sendTimes, setSendTimes] = useState<number[]>([]);
+  const [sessionMs, setSessionMs] = useState(0);
+  const [source, setSource] = useState<"session" | "sample">("sample");
+  const [pollMs, setPollMs] = useState(3000);
+  const seq = useRef(0);
+  const reconnectTimers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  const update = (id: string, patch: (c: SimClient) => Partial<SimClient>) =>
+    setClients((list) => list.map((c) => (c.id === id ? { ...c, ...patch(c) } : c)));
+
+  const addNotice = (id: string, entry: Omit<InboxEntry, "key">) =>
+    update(id, (c) => ({ inbox: [...c.inbox, { key: ++seq.current, ...entry }].slice(-MAX_INBOX) }));
+
+  // The server and the wire log live as long as the widget
+  useEffect(() => {
+    const server = createChatServer(bus);
+    const log = (dir: WireEntry["dir"], clientId: string, text: string) =>
+      setWire((w) => [...w, { key: ++seq.current, dir, clientId, text }].slice(-MAX_WIRE));
+
+    const offs = [
+      bus.on("connect", ({ clientId }) => log("up", clientId, "connect (WebSocket upgrade)")),
+      bus.on("disconnect", ({ clientId, reason }) => log("up", clientId, `disconnect · ${reason}`)),
+      bus.on("client:emit", ({ clientId, event, data }) =>
+        log("up", clientId, `emit('${event}', ${event === "join" ? `#${data.room}` : JSON.stringify(data.text)})`)),
+      bus.on("server:emit", ({ clientId, event, data }) => {
+        log("down", clientId, `${event}${data.user ? ` · ${data.user}` : ""}`);
+        const notice = (text: string) =>
+          setClients((list) => list.map((c) => (c.id === clientId
+            ? { ...c, inbox: [...c.inbox, { key: ++seq.current, notice: text }].slice(-MAX_INBOX) }
+            : c)));
+        if (event === "connected") {
+          setClients((list) => list.map((c) => (c.id === clientId ? {
+            ...c, status: "online", attempt: 0,
+            inbox: [...c.inbox, { key: ++seq.current, notice: `Connected · ${data.online} online` }].slice(-MAX_INBOX),
+          } : c)));
+        } else if (event === "user-joined") {
+          notice(`${data.user} joined #${data.room}`);
+        } else if (event === "user-left") {
+          notice(`${data.user} left (${data.reason})`);
+        } else if (event === "new-message") {
+          const message = data as unknown as ChatMessage;
+          const latencyMs = Math.round(performance.now() - message.sentAt);
+          setDelivered((d) => ({ count: d.count + 1, totalMs: d.totalMs + latencyMs }));
+          setClients((list) => list.map((c) => (c.id === clientId
+            ? { ...c, inbox: [...c.inbox, { key: ++seq.current, message: { ...message, latencyMs } }].slice(-MAX_INBOX) }
+            : c)));
+        }
+      }),
+    ];
+
+    INITIAL_CLIENTS.forEach((c) => connectAndJoin(bus, c));
+    const timers = reconnectTimers.current;
+    return () => {
+      offs.forEach((off) => off());
+      server.dispose();
+      timers.forEach(clearTimeout);
+      timers.clear();
+      setWire([]);
+    };
+  }, [bus]);
+
+  const send = (c: SimClient) => {
+    const text = c.draft.trim();
+    if (!text || c.status !== "online") return;
+    const sentAt = performance.now();
+    bus.emit("client:emit", { clientId: c.id, event: "send-message", data: { text, sentAt } });
+    setSendTimes((t) => [...t, sentAt - startedAt]);
+    update(c.id, () => ({ draft: "" }));
+  };
+
+  const changeRoom = (c: SimClient, room: string) => {
+    update(c.id, () => ({ room }));
+    bus.emit("client:emit", { clientId: c.id, event: "join", data: { user: c.name, room } });
+  };
+
+  /** Socket.IO retries with exponential backoff; here the first retry finds the network still down */
+  const scheduleReconnect = (c: SimClient, attempt: number) => {
+    const id = setTimeout(() => {
+      reconnectTimers.current.delete(id);
+      if (attempt === 1) {
+        addNotice(c.id, { notice: "Retry 1 failed — network still down" });
+        update(c.id, () => ({ attempt: 2 }));
+        scheduleReconnect(c, 2);
+        return;
+      }
+      addNotice(c.id, { notice: `Retry ${attempt} · reconnecting — messages sent meanwhile were missed` });
+      update(c.id, () => ({ status: "connecting" }));
+      connectAndJoin(bus, c);
+    }, 1000 * 2 ** (attempt - 1));
+    reconnectTimers.current.add(id);
+  };
+
+  const dropNetwork = (c: SimClient) => {
+    bus.emit("disconnect", { clientId: c.id, reason: "transport close" });
+    update(c.id, () => ({ status: "reconnecting", attempt: 1 }));
+    addNotice(c.id, { notice: "Connection lost — retrying in 1 s" });
+    scheduleReconnect(c, 1);
+  };
+
+  const leave = (c: SimClient) => {
+    bus.emit("disconnect", { clientId: c.id, reason: "client namespace disconnect" });
+    update(c.id, () => ({ status: "offline" }));
+  };
+
+  const reconnect = (c: SimClient) => {
+    update(c.id, () => ({ status: "connecting" }));
+    connectAndJoin(bus, c);
+  };
+
+  const openCompare = () => {
+    setSessionMs(performance.now() - startedAt);
+    if (sendTimes.length >= 3) setSource("session");
+    setMode("compare");
+  };
+
+  const traffic = source === "session"
+    ? { durationMs: Math.max(sessionMs, 10_000), sendTimes }
+    : SAMPLE_TRAFFIC;
+  const results = mode === "compare"
+    ? compareTransports(traffic.sendTimes, { durationMs: traffic.durationMs, pollIntervalMs: pollMs, rttMs: 80 })
+    : [];
+  const maxWire = Math.max(1, ...results.map((r) => r.wireMessages));
+  const maxLatency = Math.max(1, ...results.map((r) => r.maxLatencyMs));
+  const nameOf = (id: string) => clients.find((c) => c.id === id)?.name ?? id;
+
+  const selectClass = "text-[11px] px-2 py-1 rounded-lg outline-none border border-gray-200 bg-white focus:border-blue-400";
+
+  return (
+    <div className="space-y-3">
+      {/* Mode switch */}
+      <div className="flex gap-1 p-1 rounded-xl bg-gray-100 w-fit">
+        {([["live", "Live rooms", Radio], ["compare", "vs polling", BarChart3]] as const).map(([id, label, Icon]) => (
+          <button key={id} onClick={() => (id === "compare" ? openCompare() : setMode("live"))}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all"
+            style={mode === id ? { background: "#fff", color: "#9333ea", boxShadow: "0 1px 3px rgba(0,0,0,0.08)" } : { color: "#6b7280" }}>
+            <Icon className="w-3.5 h-3.5" /> {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "live" ? (
+        <>
+          {/* Clients */}
+          <div className="grid grid-cols-2 gap-2">
+            {clients.map((c) => {
+              const status = STATUS_STYLE[c.status];
+              const online = c.status === "online";
+              return (
+                <div key={c.id} className="rounded-xl border border-gray-100 bg-white p-2 space-y-1.5 min-w-0">
+                  <div className="flex items-center gap-1.5">
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ background: status.color }} />
+                    <span className="text-xs font-bold" style={{ color: c.color }}>{c.name}</span>
+                    <span className="text-[10px] text-gray-400 truncate">
+                      {status.label}{c.status === "reconnecting" ? ` (${c.attempt})` : ""}
+                    </span>
+                    <select value={c.room} disabled={!online} onChange={(e) => changeRoom(c, e.target.value)}
+                      className={`${selectClass} ml-auto !py-0.5 !px-1 disabled:opacity-50`}>
+                      {ROOMS.map((r) => <option key={r} value={r}>#{r}</option>)}
+                    </select>
+                  </div>
+                  <div className="h-24 overflow-y-auto rounded-lg bg-gray-50 px-2 py-1 space-y-0.5">
+                    {c.inbox.map((entry) => entry.message ? (
+                      <p key={entry.key} className="text-[11px] leading-snug break-words">
+                        <span className="font-semibold" style={{ color: clients.find((x) => x.name === entry.message!.user)?.color }}>
+                          {entry.message.user}:
+                        </span>{" "}
+                        <span className="text-gray-700">{entry.message.text}</span>
+                        <span className="text-[9px] text-gray-400 font-mono"> {entry.message.latencyMs} ms</span>
+                      </p>
+                    ) : (
+                      <p key={entry.key} className="text-[10px] italic text-gray-400 leading-snug">{entry.notice}</p>
+                    ))}
+                  </div>
+                  <div className="flex gap-1">
+                    <input value={c.draft} disabled={!online} placeholder={online ? `Message #${c.room}` : status.label}
+                      onChange={(e) => update(c.id, () => ({ draft: e.target.value }))}
+                      onKeyDown={(e) => { if (e.key === "Enter") send(c); }}
+                      className="flex-1 min-w-0 text-[11px] px-2 py-1 rounded-lg outline-none border border-gray-200 focus:border-blue-400 disabled:bg-gray-50" />
+                    <button onClick={() => send(c)} disabled={!online} title="Send"
+                      className="p-1.5 rounded-lg text-white disabled:opacity-40" style={{ background: c.color }}>
+                      <Send className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    {c.status === "offline" ? (
+                      <button onClick={() => reconnect(c)}
+                        className="flex items-center gap-1 text-[10px] font-semibold px-1.5 py-0.5 rounded-md text-emerald-600 hover:bg-emerald-50">
+                        <Wifi className="w-3 h-3" /> Connect
+                      </button>
+                    ) : (
+                      <>
+                        <button onClick={() => dropNetwork(c)} disabled={!online}
+                          className="flex items-center gap-1 text-[10px] font-semibold px-1.5 py-0.5 rounded-md text-rose-600 hover:bg-rose-50 disabled:opacity-40">
+                          <WifiOff className="w-3 h-3" /> Drop network
+                        </button>
+                        <button onClick={() => leave(c)} disabled={!online}
+                          className="flex items-center gap-1 text-[10px] font-semibold px-1.5 py-0.5 rounded-md text-gray-500 hover:bg-gray-100 disabled:opacity-40">
+                          <LogOut className="w-3 h-3" /> Leave
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Wire log — one emit up, one frame down per room member */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">On the wire</span>
+              <span className="text-[10px] text-gray-400">
+                {sendTimes.length} sent · {delivered.count} delivered
+                {delivered.count > 0 && ` · avg ${Math.round(delivered.totalMs / delivered.count)} ms`}
+              </span>
+            </div>
+            <div className="rounded-xl bg-gray-900 px-3 py-2 h-32 overflow-y-auto font-mono text-[10px] leading-relaxed">
+              {wire.map((w) => (
+                <p key={w.key} className="flex items-center gap-1.5 truncate" style={{ color: w.dir === "up" ? "#93c5fd" : "#86efac" }}>
+                  {w.dir === "up" ? <ArrowUp className="w-3 h-3 flex-shrink-0" /> : <ArrowDown className="w-3 h-3 flex-shrink-0" />}
+                  <span className="text-gray-400">{nameOf(w.clientId)}</span> {w.text}
+                </p>
+              ))}
+            </div>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-[11px] text-gray-500">
+            <select value={source} onChange={(e) => setSource(e.target.value as typeof source)} className={selectClass}>
+              <option value="sample">Sample: busy 2-minute chat (14 messages)</option>
+              <option value="session" disabled={sendTimes.length === 0}>
+                Your session ({sendTimes.length} message{sendTimes.length === 1 ? "" : "s"} in {Math.round(sessionMs / 1000)} s)
+              </option>
+            </select>
+            <label className="flex items-center gap-1">
+              Short-poll every
+              <select value={pollMs} onChange={(e) => setPollMs(Number(e.target.value))} className={selectClass}>
+                {[1000, 3000, 10000].map((ms) => <option key={ms} value={ms}>{ms / 1000} s</option>)}
+              </select>
+            </label>
+            <span>· 80 ms round trip</span>
+          </div>
+
+          <div className="space-y-2.5">
+            {results.map((r) => (
+              <div key={r.transport} className="rounded-xl border border-gray-100 bg-white p-2.5">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-xs font-bold text-gray-800">{TRANSPORT_INFO[r.transport].label}</span>
+                  <span className="text-[10px] text-gray-400">
+                    {r.emptyResponses > 0 ? `${r.emptyResponses} empty responses` : "no wasted requests"}
+                  </span>
+                </div>
+                <p className="text-[10px] text-gray-500 mb-1.5">{TRANSPORT_INFO[r.transport].note}</p>
+                {([
+                  ["Messages on the wire", r.wireMessages, maxWire, String(r.wireMessages), "#9333ea"],
+                  ["Avg latency", r.avgLatencyMs, maxLatency, `${r.avgLatencyMs} ms`, "#0891b2"],
+                  ["Worst latency", r.maxLatencyMs, maxLatency, `${r.maxLatencyMs} ms`, "#dc2626"],
+                ] as const).map(([label, value, max, text, color]) => (
+                  <div key={label} className="flex items-center gap-2 text-[10px]">
+                    <span className="w-28 flex-shrink-0 text-gray-500">{label}</span>
+                    <span className="flex-1 h-1.5 rounded-full bg-gray-100">
+                      <span className="block h-full rounded-full" style={{ width: `${(value / max) * 100}%`, background: color }} />
+                    </span>
+                    <span className="w-14 text-right font-mono text-gray-600 tabular-nums">{text}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { Play, Pause, SkipBack, SkipForward, RotateCcw, Volume2, VolumeX, CheckCircle2, XCircle } from "lucide-react";
+import { useTTS } from "../hooks/useSpeech";
+import { CYCLE_NODES, CYCLE_FAILURES, simulateCycle, type CycleFailure } from "../lib/requestCycle";
+
+/** Horizontal centre of each node on the diagram, in percent */
+const NODE_X = Object.fromEntries(CYCLE_NODES.map((n, i) => [n.id, 8 + (i * 84) / (CYCLE_NODES.length - 1)]));
+
+/** How long a step stays on screen while playing — long enough to hear its narration */
+const dwellMs = (narration: string, narrate: boolean) =>
+  narrate ? Math.max(2200, narration.split(/\s+/).length * 430) : 2200;
+
+export default function RequestCycleSimulator() {
+  const [failure, setFailure] = useState<CycleFailure>("none");
+  // -1 = not started; otherwise the step on screen
+  const [index, setIndex] = useState(-1);
+  const [playing, setPlaying] = useState(false);
+  const [narrate, setNarrate] = useState(true);
+  const { speak, stop } = useTTS("");
+
+  const { steps, outcome } = useMemo(() => simulateCycle(failure), [failure]);
+  const step = index >= 0 ? steps[index] : null;
+  const finished = index === steps.length - 1;
+  const elapsed = steps.slice(0, index + 1).reduce((sum, s) => sum + s.ms, 0);
+  const total = steps.reduce((sum, s) => sum + s.ms, 0);
+
+  const goTo = (i: number) => {
+    setIndex(i);
+    if (i < 0) stop();
+    else if (narrate) speak(steps[i].narration);
+  };
+
+  // Advance while playing; the timer callback owns the state change
+  useEffect(() => {
+    if (!playing) return;
+    const id = setTimeout(() => {
+      if (index + 1 >= steps.length) {
+        setPlaying(false);
+        return;
+      }
+      setIndex(index + 1);
+      if (narrate) speak(steps[index + 1].narration);
+    }, index < 0 ? 0 : dwellMs(steps[index].narration, narrate));
+    return () => clearTimeout(id);
+  }, [playing, index, steps, narrate, speak]);
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      stop();
+      return;
+    }
+    if (finished) setIndex(-1);
+    setPlaying(true);
+  };
+
+  const reset = () => {
+    setPlaying(false);
+    setIndex(-1);
+    stop();
+  };
+
+  const chooseFailure = (next: CycleFailure) => {
+    setFailure(next);
+    reset();
+  };
+
+  const toggleNarrate = () => {
+    if (narrate) stop();
+    setNarrate(!narrate);
+  };
+
+  const controlClass = "p-2 rounded-lg border border-gray-200 text-gray-600 hover:border-blue-300 hover:text-blue-600 transition-colors disabled:opacity-40 disabled:pointer-events-none";
+
+  return (
+    <div className="space-y-3">
+      {/* Failure injection */}
+      <label className="block">
+        <span className="block text-[10px] font-bold uppercase tracking-wider text-gray-400 mb-1">Scenario</span>
+        <select value={failure} onChange={(e) => chooseFailure(e.target.value as CycleFailure)}
+          className="w-full text-xs px-3 py-2 rounded-xl outline-none border border-gray-200 bg-white focus:border-blue-400 transition-colors">
+          {CYCLE_FAILURES.map((f) => <option key={f.id} value={f.id}>{f.label}</option>)}
+        </select>
+      </label>
+
+      {/* Diagram */}
+      <div className="relative h-28 rounded-xl bg-gray-50 border border-gray-100">
+        <div className="absolute left-[8%] right-[8%] top-9 border-t-2 border-dashed border-gray-200" />
+        {CYCLE_NODES.map((node) => {
+          const active = step && (step.from === node.id || step.to === node.id);
+          const broken = step?.failed && step.to === node.id;
+          const color = broken ? "#dc2626" : active ? "#0891b2" : "#9ca3af";
+          return (
+            <div key={node.id} className="absolute top-3 -translate-x-1/2 flex flex-col items-center w-20"
+              style={{ left: `${NODE_X[node.id]}%` }}>
+              <motion.div animate={{ scale: active ? 1.15 : 1 }}
+                className="w-12 h-12 rounded-xl bg-white flex items-center justify-center text-[9px] font-bold text-center leading-tight border-2"
+                style={{ borderColor: color, color }}>
+                {node.label.split(" ").map((w) => <span key={w} className="block">{w}</span>)}
+              </motion.div>
+            </div>
+          );
+        })}
+        {step && (
+          <motion.div key={`${failure}-${index}`}
+            className="absolute top-[30px] w-4 h-4 -ml-2 rounded-full shadow"
+            style={{ background: step.failed ? "#dc2626" : "#0891b2" }}
+            initial={{ left: `${NODE_X[step.from]}%` }}
+            animate={{ left: `${NODE_X[step.to]}%` }}
+            transition={{ duration: 0.9, ease: "easeInOut" }} />
+        )}
+        <p className="absolute bottom-2 inset-x-3 text-center text-[11px] font-mono truncate"
+          style={{ color: step?.failed ? "#dc2626" : "#4b5563" }}>
+          {step ? step.packet : "Press play to send GET /api/orders"}
+        </p>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center gap-1.5">
+        <button onClick={() => { setPlaying(false); goTo(index - 1); }} disabled={index < 0} title="Previous step" className={controlClass}>
+          <SkipBack className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={togglePlay}
+          className="flex items-center gap-1.5 px-3.5 py-2 rounded-lg text-xs font-bold text-white"
+          style={{ background: "linear-gradient(135deg, #0e7490, #0891b2)" }}>
+          {playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+          {playing ? "Pause" : finished ? "Replay" : index >= 0 ? "Resume" : "Play"}
+        </button>
+        <button onClick={() => { setPlaying(false); goTo(index + 1); }} disabled={finished} title="Next step" className={controlClass}>
+          <SkipForward className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={reset} title="Start over" className={controlClass}>
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={toggleNarrate} title={narrate ? "Mute narration" : "Narrate each step"} className={`${controlClass} ml-auto`}>
+          {narrate ? <Volume2 className="w-3.5 h-3.5" /> : <VolumeX className="w-3.5 h-3.5" />}
+        </button>
+        <span className="text-[11px] font-mono text-gray-500 tabular-nums">{elapsed} / {total} ms</span>
+      </div>
+
+      {/* Current step */}
+      {step && (
+        <div className="rounded-xl px-3 py-2 text-xs leading-relaxed"
+          style={{ background: step.failed ? "#fef2f2" : "#ecfeff", color: step.failed ? "#991b1b" : "#155e75" }}>
+          <span className="font-bold">Step {index + 1} · {step.title}.</span> {step.narration}
+        </div>
+      )}
+
+      {/* Timings per hop */}
+      <div className="space-y-1">
+        {steps.map((s, i) => {
+          const start = steps.slice(0, i).reduce((sum, p) => sum + p.ms, 0);
+          const reached = i <= index;
+          return (
+            <button key={s.title} onClick={() => { setPlaying(false); goTo(i); }}
+              className="w-full flex items-center gap-2 text-left text-[11px]" style={{ opacity: reached ? 1 : 0.45 }}>
+              <span className="w-36 flex-shrink-0 truncate font-semibold"
+                style={{ color: s.failed && reached ? "#dc2626" : i === index ? "#0891b2" : "#374151" }}>
+                {i + 1}. {s.title}
+              </span>
+              <span className="relative flex-1 h-2 rounded-full bg-gray-100">
+                <span className="absolute inset-y-0 rounded-full"
+                  style={{
+                    left: `${(start / total) * 100}%`,
+                    width: `max(${(s.ms / total) * 100}%, 3px)`,
+                    background: s.failed ? "#dc2626" : "#0891b2",
+                  }} />
+              </span>
+              <span className="w-14 flex-shrink-0 text-right font-mono text-gray-500 tabular-nums">{s.ms} ms</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Outcome */}
+      {finished && !playing && (
+        <div className="flex items-center gap-2 rounded-xl px-3 py-2 text-xs font-semibold"
+          style={outcome.ok ? { color: "#059669", background: "#ecfdf5" } : { color: "#dc2626", background: "#fef2f2" }}>
+          {outcome.ok ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+          The browser got: <code className="font-mono">{outcome.label}</code> after {total} ms
+        </div>
+      )}
+    </div>
+  );
+}
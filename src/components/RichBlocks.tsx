@@ -0,0 +1,157 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { Lightbulb, Info, AlertTriangle } from "lucide-react";
+import type { RichBlock } from "../data/slides";
+import { splitInlineCode } from "../lib/richContent";
+
+const CALLOUT_STYLE = {
+  tip:     { icon: Lightbulb,     label: "Tip",     color: "#059669", bg: "#ecfdf5", border: "#a7f3d0" },
+  note:    { icon: Info,          label: "Note",    color: "#2563eb", bg: "#eff6ff", border: "#bfdbfe" },
+  warning: { icon: AlertTriangle, label: "Warning", color: "#d97706", bg: "#fffbeb", border: "#fde68a" },
+};
+
+function Inline({ text }: { text: string }) {
+  return (
+    <>
+      {splitInlineCode(text).map((run, i) =>
+        run.code ? (
+          <code key={i} className="px-1.5 py-0.5 rounded-md text-[0.85em] font-mono text-blue-700"
+            style={{ background: "#2563eb10", border: "1px solid #2563eb20" }}>
+            {run.text}
+          </code>
+        ) : (
+          <span key={i}>{run.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+function Block({ block }: { block: RichBlock }) {
+  switch (block.type) {
+    case "heading":
+      return <p className="text-sm font-semibold text-gray-800"><Inline text={block.text} /></p>;
+
+    case "paragraph":
+      return <p className="text-sm text-gray-600 leading-relaxed"><Inline text={block.text} /></p>;
+
+    case "bullets":
+      return (
+        <div className="space-y-1.5">
+          {block.items.map((item, j) => (
+            <div key={j} className="flex items-start gap-2 text-sm text-gray-600">
+              <span className="w-1.5 h-1.5 rounded-full mt-2 flex-shrink-0 bg-blue-600" />
+              <span><Inline text={item} /></span>
+            </div>
+          ))}
+        </div>
+      );
+
+    case "numbered":
+      return (
+        <div className="space-y-1.5">
+          {block.items.map((item, j) => (
+            <div key={j} className="flex items-start gap-2.5 text-sm text-gray-600">
+              <span
+                className="w-5 h-5 rounded-full flex-shrink-0 flex items-center justify-center text-xs font-bold text-white mt-0.5"
+                style={{ background: "#2563eb" }}
+              >{(block.start ?? 1) + j}</span>
+              <span><Inline text={item} /></span>
+            </div>
+          ))}
+        </div>
+      );
+
+    case "callout": {
+      const style = CALLOUT_STYLE[block.tone ?? "note"];
+      const Icon = style.icon;
+      return (
+        <div className="flex items-start gap-2.5 rounded-xl px-3.5 py-3"
+          style={{ background: style.bg, border: `1px solid ${style.border}` }}>
+          <Icon className="w-4 h-4 flex-shrink-0 mt-0.5" style={{ color: style.color }} />
+          <p className="text-sm text-gray-700 leading-relaxed">
+            <span className="font-semibold mr-1" style={{ color: style.color }}>{style.label}:</span>
+            <Inline text={block.text} />
+          </p>
+        </div>
+      );
+    }
+
+    case "code":
+      return (
+        <pre className="bg-gray-950 text-gray-100 text-xs font-mono p-4 rounded-xl overflow-x-auto leading-relaxed">
+          {block.code}
+        </pre>
+      );
+
+    case "image":
+      return (
+        <figure className="rounded-xl overflow-hidden border border-gray-100">
+          <img src={block.src} alt={block.alt} className="w-full max-h-72 object-cover"
+            onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }} />
+          {block.caption && (
+            <figcaption className="px-3 py-2 bg-white border-t border-gray-100 text-xs text-gray-400 italic">
+              <Inline text={block.caption} />
+            </figcaption>
+          )}
+        </figure>
+      );
+
+    case "table":
+      return (
+        <div className="overflow-x-auto rounded-xl border border-gray-200">
+          <table className="w-full text-sm">
+            <thead>
+              <tr style={{ background: "#2563eb0d" }}>
+                {block.headers.map((h, j) => (
+                  <th key={j} className="text-left px-3 py-2 text-xs font-semibold text-gray-700 border-b border-gray-200">
+                    <Inline text={h} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="bg-white">
+                  {row.map((cell, c) => (
+                    <td key={c} className="px-3 py-2 text-gray-600 border-b border-gray-100 align-top">
+                      <Inline text={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+  }
+}
+
+/** Marks a block and scrolls it into view once, when it first appears */
+function Highlighted({ children }: { children: ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => { ref.current?.scrollIntoView({ block: "center", behavior: "smooth" }); }, []);
+  return (
+    <div ref={ref} className="rounded-xl -mx-2 px-2 py-1.5"
+      style={{ background: "#fef3c7", boxShadow: "0 0 0 2px #fcd34d" }}>
+      {children}
+    </div>
+  );
+}
+
+interface RichBlocksProps {
+  blocks: RichBlock[];
+  /** Block to mark and scroll to, e.g. the one a quiz answer points at */
+  highlight?: number;
+}
+
+export default function RichBlocks({ blocks, highlight }: RichBlocksProps) {
+  return (
+    <>
+      {blocks.map((block, i) => i === highlight ? (
+        <Highlighted key={i}><Block block={block} /></Highlighted>
+      ) : (
+        <Block key={i} block={block} />
+      ))}
+    </>
+  );
+}
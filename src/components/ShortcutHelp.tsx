@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { X, Keyboard, RotateCcw } from "lucide-react";
+import { SHORTCUTS, formatKey, keyFromEvent, rebind, type ShortcutAction } from "../lib/shortcuts";
+import { getKeymap, setKeymap } from "../hooks/useShortcuts";
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+// Keys that cannot be bound: on their own they only modify, or they move focus / close dialogs
+const UNBINDABLE = ["Shift", "Control", "Alt", "Meta", "CapsLock", "Tab", "Escape"];
+
+const GROUPS = [...new Set(SHORTCUTS.map((s) => s.group))];
+
+export default function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const [keymap, setLocalKeymap] = useState(getKeymap);
+  // The action waiting for its new key
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!capturing) {
+        if (e.key === "Escape") onClose();
+        return;
+      }
+      // A lone modifier is the start of a combination — keep waiting for the key itself
+      if (UNBINDABLE.includes(e.key) && e.key !== "Escape") return;
+      e.preventDefault();
+      if (e.key !== "Escape") setLocalKeymap(setKeymap(rebind(keymap, capturing, keyFromEvent(e))));
+      setCapturing(null);
+    };
+    document.addEventListener("keydown", handler);
+    return () => document.removeEventListener("keydown", handler);
+  });
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.2 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/40 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, y: 24, scale: 0.98 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, y: 24, scale: 0.98 }}
+        transition={{ type: "spring", damping: 28, stiffness: 320 }}
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        className="fixed inset-x-3 top-[6vh] mx-auto max-w-xl max-h-[88vh] bg-white rounded-2xl shadow-2xl z-50 flex flex-col overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-gray-100">
+          <div className="w-9 h-9 rounded-xl flex items-center justify-center bg-blue-600">
+            <Keyboard className="w-5 h-5 text-white" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Workspace</p>
+            <h2 className="text-base font-bold text-gray-900">Keyboard shortcuts</h2>
+          </div>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {GROUPS.map((group) => (
+            <section key={group}>
+              <h3 className="text-[10.5px] font-black uppercase tracking-widest text-gray-400 mb-1.5">{group}</h3>
+              <div className="rounded-xl border border-gray-100 divide-y divide-gray-100">
+                {SHORTCUTS.filter((s) => s.group === group).map(({ id, label }) => (
+                  <div key={id} className="flex items-center gap-3 px-3 py-2">
+                    <span className="flex-1 text-[13px] text-gray-700">{label}</span>
+                    {capturing === id ? (
+                      <span className="text-[11px] font-bold text-blue-600 animate-pulse">Press a key… (Esc to cancel)</span>
+                    ) : keymap[id].length ? (
+                      <span className="flex flex-wrap justify-end gap-1">
+                        {keymap[id].map((key) => (
+                          <kbd key={key} className="min-w-[1.6rem] text-center text-[11px] font-bold font-mono px-1.5 py-0.5 rounded-md text-gray-700 bg-gray-50 border border-gray-200 shadow-[0_1px_0_#e5e7eb]">
+                            {formatKey(key)}
+                          </kbd>
+                        ))}
+                      </span>
+                    ) : (
+                      <span className="text-[11px] text-gray-400 italic">Not set</span>
+                    )}
+                    <button
+                      onClick={() => setCapturing(capturing === id ? null : id)}
+                      className="text-[11px] font-bold px-2 py-1 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors">
+                      {capturing === id ? "Cancel" : "Change"}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-3 px-5 py-3 border-t border-gray-100">
+          <p className="flex-1 text-[11.5px] text-gray-500">
+            Shortcuts pause while you type in a text field. Giving a key to a new action takes it away from its old one.
+          </p>
+          <button
+            onClick={() => { setCapturing(null); setLocalKeymap(setKeymap(null)); }}
+            className="flex items-center gap-1.5 text-[12px] font-bold px-3 py-1.5 rounded-xl border text-gray-600 border-gray-200 hover:bg-gray-50 transition-colors flex-shrink-0">
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset
+          </button>
+        </div>
+      </motion.div>
+    </>
+  );
+}
@@ -1,23 +1,26 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import {
-  Server, HardDrive, Zap, Database, Lock, Code2, ArrowLeftRight, Radio,
-  type LucideIcon, BookOpen,
-} from "lucide-react";
+import { Server, BookOpen, X, GraduationCap } from "lucide-react";
 import type { Slide } from "../data/slides";
-import DeepDiveModal from "./DeepDiveModal";
-
-const iconMap: Record<string, LucideIcon> = {
-  Server, HardDrive, Zap, Database, Lock, Code2, ArrowLeftRight, Radio,
-};
+import { iconMap } from "../data/icons";
+import { widgetMap } from "../data/widgets";
+import SlideWidget from "./SlideWidget";
 
 interface SlideCanvasProps {
   slide: Slide;
+  slideNumber: number;
+  slideCount: number;
+  /** The deep dive and quiz open as overlays owned by the dashboard */
+  onOpenDeepDive?: () => void;
+  onOpenQuiz?: () => void;
 }
 
-export default function SlideCanvas({ slide }: SlideCanvasProps) {
+export default function SlideCanvas({ slide, slideNumber, slideCount, onOpenDeepDive, onOpenQuiz }: SlideCanvasProps) {
   const IconComponent = iconMap[slide.icon] ?? Server;
-  const [modalOpen, setModalOpen] = useState(false);
+  // Widget shown over the image panel; remembered per slide so switching slides closes it
+  const [openWidget, setOpenWidget] = useState<{ slideId: number; name: string } | null>(null);
+  const widgetName = openWidget?.slideId === slide.id ? openWidget.name : null;
+  const widgets = (slide.widgets ?? []).filter((name) => Object.hasOwn(widgetMap, name));
 
   return (
     <div className="w-full h-full rounded-2xl overflow-hidden flex flex-col md:flex-row"
@@ -58,7 +61,7 @@ export default function SlideCanvas({ slide }: SlideCanvasProps) {
           className="absolute top-5 left-5">
           <span className="text-[12px] font-black px-3.5 py-1.5 rounded-full text-white border border-white/20"
             style={{ background: "#2563ebcc", backdropFilter: "blur(12px)" }}>
-            {String(slide.id).padStart(2, "0")} / 08
+            {String(slideNumber).padStart(2, "0")} / {String(slideCount).padStart(2, "0")}
           </span>
         </motion.div>
 
@@ -82,6 +85,21 @@ export default function SlideCanvas({ slide }: SlideCanvasProps) {
           <p className="text-[12px] text-white/60 italic leading-snug">{slide.diagramAlt}</p>
         </div>
 
+        {/* Embedded widget */}
+        {widgetName && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="absolute inset-0 z-20 overflow-y-auto scrollbar-light p-4"
+            style={{ background: "rgba(240,244,255,0.97)", backdropFilter: "blur(8px)" }}>
+            <button onClick={() => setOpenWidget(null)} title="Close"
+              className="absolute top-6 right-6 z-10 p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors">
+              <X className="w-4 h-4" />
+            </button>
+            <SlideWidget name={widgetName} />
+          </motion.div>
+        )}
+
         {/* Blue glow edge */}
         <div className="absolute bottom-0 left-0 right-0 h-[1px]"
           style={{ background: "linear-gradient(to right, transparent, #2563eb80, transparent)" }} />
@@ -183,13 +201,34 @@ export default function SlideCanvas({ slide }: SlideCanvasProps) {
             </div>
           </motion.div>
 
+          {/* Try-it buttons for embedded widgets */}
+          {widgets.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {widgets.map((name) => {
+                const { icon: WidgetIcon, title } = widgetMap[name];
+                const active = widgetName === name;
+                return (
+                  <button key={name}
+                    onClick={() => setOpenWidget(active ? null : { slideId: slide.id, name })}
+                    className="flex items-center gap-1.5 text-[12px] font-bold px-3 py-1.5 rounded-xl border transition-all"
+                    style={active
+                      ? { background: "#2563eb", borderColor: "#2563eb", color: "#fff" }
+                      : { background: "#fff", borderColor: "#2563eb35", color: "#2563eb" }}>
+                    <WidgetIcon className="w-3.5 h-3.5" />
+                    Try it · {title}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* View More button */}
           <motion.div
             initial={{ opacity: 0, y: 8 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.62, duration: 0.35 }}>
             <motion.button
-              onClick={() => setModalOpen(true)}
+              onClick={onOpenDeepDive}
               whileHover={{ scale: 1.02, y: -1 }}
               whileTap={{ scale: 0.97 }}
               className="w-full flex items-center justify-center gap-2.5 py-3 rounded-2xl font-black text-[13px] tracking-wide transition-all"
@@ -207,13 +246,17 @@ export default function SlideCanvas({ slide }: SlideCanvasProps) {
                 Deep Dive
               </span>
             </motion.button>
+            {onOpenQuiz && slide.quiz && slide.quiz.length > 0 && (
+              <button onClick={onOpenQuiz}
+                className="w-full mt-2 flex items-center justify-center gap-2 py-2 rounded-2xl font-bold text-[12px] text-gray-600 hover:text-blue-600 hover:bg-blue-50 transition-colors">
+                <GraduationCap className="w-4 h-4" />
+                Check your understanding · {slide.quiz.length} question{slide.quiz.length === 1 ? "" : "s"}
+              </button>
+            )}
           </motion.div>
 
         </div>
       </div>
-
-      {/* Deep Dive Modal */}
-      <DeepDiveModal slide={slide} isOpen={modalOpen} onClose={() => setModalOpen(false)} />
     </div>
   );
 }
@@ -0,0 +1,338 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  X, ChevronLeft, ChevronRight, Download, Trash2, Plus, PenLine, AlertTriangle, CheckCircle2,
+} from "lucide-react";
+import type { Slide, SlideKeyPoint, SlideTech, CodeFile } from "../data/slides";
+import type { Deck } from "../data/decks";
+import { validateDeck, formatIssue } from "../lib/deckLoader";
+import { downloadDeckFile } from "../lib/draftDecks";
+import { richContentToMarkdown } from "../lib/richContent";
+import { CODE_LANGUAGES, fileNameFor, getCodeFiles } from "../lib/codeFiles";
+import { widgetMap } from "../data/widgets";
+import SlideCanvas from "./SlideCanvas";
+import DeepDiveModal from "./DeepDiveModal";
+
+const inputClass = "w-full text-[13px] px-3 py-2 rounded-xl outline-none transition-all font-medium text-gray-800 border border-gray-200 bg-white focus:border-blue-400";
+
+/* ─── Small form building blocks ─── */
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-[10px] font-black text-gray-400 uppercase tracking-[0.14em] mb-1.5">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function ListField({ label, items, onChange, placeholder }: {
+  label: string;
+  items: string[];
+  onChange: (items: string[]) => void;
+  placeholder: string;
+}) {
+  return (
+    <div>
+      <span className="block text-[10px] font-black text-gray-400 uppercase tracking-[0.14em] mb-1.5">{label}</span>
+      <div className="space-y-1.5">
+        {items.map((item, i) => (
+          <div key={i} className="flex gap-1.5">
+            <input
+              value={item}
+              placeholder={placeholder}
+              onChange={(e) => onChange(items.map((it, j) => (j === i ? e.target.value : it)))}
+              className={inputClass}
+            />
+            <button onClick={() => onChange(items.filter((_, j) => j !== i))} title="Remove"
+              className="px-2 rounded-lg text-gray-300 hover:text-rose-500 hover:bg-rose-50 transition-colors">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <button onClick={() => onChange([...items, ""])}
+          className="flex items-center gap-1 text-[11px] font-bold text-blue-600 px-2 py-1 rounded-lg hover:bg-blue-50 transition-colors">
+          <Plus className="w-3 h-3" /> Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PairListField<T extends object>({ label, items, keys, placeholders, onChange }: {
+  label: string;
+  items: T[];
+  keys: [keyof T & string, keyof T & string];
+  placeholders: [string, string];
+  onChange: (items: T[]) => void;
+}) {
+  const set = (i: number, key: keyof T, value: string) =>
+    onChange(items.map((it, j) => (j === i ? { ...it, [key]: value } : it)));
+
+  return (
+    <div>
+      <span className="block text-[10px] font-black text-gray-400 uppercase tracking-[0.14em] mb-1.5">{label}</span>
+      <div className="space-y-1.5">
+        {items.map((item, i) => (
+          <div key={i} className="flex gap-1.5">
+            {keys.map((key, k) => (
+              <input
+                key={key}
+                value={String(item[key] ?? "")}
+                placeholder={placeholders[k]}
+                onChange={(e) => set(i, key, e.target.value)}
+                className={inputClass}
+              />
+            ))}
+            <button onClick={() => onChange(items.filter((_, j) => j !== i))} title="Remove"
+              className="px-2 rounded-lg text-gray-300 hover:text-rose-500 hover:bg-rose-50 transition-colors">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <button onClick={() => onChange([...items, { [keys[0]]: "", [keys[1]]: "" } as T])}
+          className="flex items-center gap-1 text-[11px] font-bold text-blue-600 px-2 py-1 rounded-lg hover:bg-blue-50 transition-colors">
+          <Plus className="w-3 h-3" /> Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CodeFilesField({ files, onChange }: {
+  files: CodeFile[];
+  onChange: (files: CodeFile[]) => void;
+}) {
+  const set = (i: number, patch: Partial<CodeFile>) =>
+    onChange(files.map((f, j) => (j === i ? { ...f, ...patch } : f)));
+  // Keep the default file name in step with the language until the author renames it
+  const setLanguage = (i: number, language: string) =>
+    set(i, files[i].name === fileNameFor(files[i].language) ? { language, name: fileNameFor(language) } : { language });
+
+  return (
+    <div>
+      <span className="block text-[10px] font-black text-gray-400 uppercase tracking-[0.14em] mb-1.5">Code Example</span>
+      <div className="space-y-3">
+        {files.map((file, i) => (
+          <div key={i} className="space-y-1.5">
+            <div className="flex gap-1.5">
+              <input value={file.name} placeholder="File name" onChange={(e) => set(i, { name: e.target.value })}
+                className={`${inputClass} font-mono`} />
+              <select value={file.language} onChange={(e) => setLanguage(i, e.target.value)} className={inputClass}>
+                {CODE_LANGUAGES.map((lang) => <option key={lang} value={lang}>{lang}</option>)}
+              </select>
+              <button onClick={() => onChange(files.filter((_, j) => j !== i))} title="Remove file"
+                className="px-2 rounded-lg text-gray-300 hover:text-rose-500 hover:bg-rose-50 transition-colors">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <textarea value={file.code} rows={8} spellCheck={false}
+              onChange={(e) => set(i, { code: e.target.value })}
+              className={`${inputClass} resize-y font-mono text-[12px]`} />
+          </div>
+        ))}
+        <button onClick={() => onChange([...files, { name: fileNameFor("javascript"), language: "javascript", code: "" }])}
+          className="flex items-center gap-1 text-[11px] font-bold text-blue-600 px-2 py-1 rounded-lg hover:bg-blue-50 transition-colors">
+          <Plus className="w-3 h-3" /> Add file
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/* ─── Main component ─── */
+interface SlideEditorProps {
+  deck: Deck;
+  initialIndex: number;
+  isDraft: boolean;
+  onChange: (deck: Deck) => void;
+  onDiscard: () => void;
+  onClose: (index: number) => void;
+}
+
+export default function SlideEditor({ deck, initialIndex, isDraft, onChange, onDiscard, onClose }: SlideEditorProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const slide = deck.slides[index];
+
+  const validation = useMemo(() => validateDeck(deck), [deck]);
+  const slideIssues = validation.ok ? [] : validation.issues.filter((i) => i.slide === index + 1);
+  const otherIssueCount = validation.ok ? 0 : validation.issues.length - slideIssues.length;
+
+  const update = (patch: Partial<Slide>) => {
+    onChange({
+      ...deck,
+      slides: deck.slides.map((s, i) => (i === index ? { ...s, ...patch } : s)),
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 z-[60] flex flex-col"
+      style={{ background: "#f0f4ff" }}
+    >
+      {/* ── Header ── */}
+      <header className="flex-shrink-0 flex items-center gap-3 px-5 h-[60px] bg-white"
+        style={{ borderBottom: "1px solid #e0e9ff", boxShadow: "0 2px 20px rgba(37,99,235,0.08)" }}>
+        <div className="w-8 h-8 rounded-xl flex items-center justify-center flex-shrink-0"
+          style={{ background: "linear-gradient(135deg, #1d4ed8, #3b82f6)" }}>
+          <PenLine className="w-4 h-4 text-white" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-[14px] font-black text-gray-900 leading-tight">Slide Editor</p>
+          <p className="text-[10.5px] font-semibold text-gray-400 truncate">
+            {deck.title} · {isDraft ? "Draft saved locally" : "No changes yet"}
+          </p>
+        </div>
+
+        {/* Slide switcher */}
+        <div className="flex-1 flex items-center justify-center gap-2">
+          <button onClick={() => setIndex((i) => Math.max(0, i - 1))} disabled={index === 0}
+            className="p-2 rounded-xl text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-25 transition-all">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <select value={index} onChange={(e) => setIndex(Number(e.target.value))}
+            className="text-[12px] font-bold text-gray-700 px-3 py-1.5 rounded-xl border border-gray-200 bg-white outline-none max-w-[260px]">
+            {deck.slides.map((s, i) => (
+              <option key={i} value={i}>{String(i + 1).padStart(2, "0")}. {s.title || "Untitled"}</option>
+            ))}
+          </select>
+          <button onClick={() => setIndex((i) => Math.min(deck.slides.length - 1, i + 1))} disabled={index === deck.slides.length - 1}
+            className="p-2 rounded-xl text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-25 transition-all">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Actions */}
+        <button onClick={() => downloadDeckFile(deck)}
+          className="flex items-center gap-1.5 text-[12px] font-bold px-3.5 py-2 rounded-xl border text-blue-600 border-blue-200 bg-blue-50/50 hover:bg-blue-50 transition-colors">
+          <Download className="w-3.5 h-3.5" /> Export deck
+        </button>
+        <button onClick={onDiscard} disabled={!isDraft}
+          className="flex items-center gap-1.5 text-[12px] font-bold px-3.5 py-2 rounded-xl border text-gray-500 border-gray-200 hover:text-rose-500 hover:border-rose-200 disabled:opacity-30 transition-colors">
+          <Trash2 className="w-3.5 h-3.5" /> Discard draft
+        </button>
+        <button onClick={() => onClose(index)}
+          className="flex items-center gap-1.5 text-[12px] font-bold px-4 py-2 rounded-xl text-white"
+          style={{ background: "linear-gradient(135deg, #1d4ed8, #2563eb)", boxShadow: "0 2px 12px #2563eb35" }}>
+          Done
+        </button>
+      </header>
+
+      <div className="flex flex-1 min-h-0">
+        {/* ── Form ── */}
+        <div className="w-[440px] flex-shrink-0 overflow-y-auto scrollbar-thin bg-white px-5 py-5 space-y-4"
+          style={{ borderRight: "1px solid #e2e8f0" }}>
+
+          {/* Validation status */}
+          {slideIssues.length > 0 ? (
+            <div className="rounded-xl px-3 py-2.5" style={{ background: "#fff1f2", border: "1px solid #fecdd3" }}>
+              <div className="flex items-center gap-1.5 mb-1">
+                <AlertTriangle className="w-3.5 h-3.5 text-rose-500" />
+                <span className="text-[11px] font-black text-rose-600">This slide has problems</span>
+              </div>
+              <ul className="space-y-0.5 pl-5">
+                {slideIssues.map((issue, i) => (
+                  <li key={i} className="text-[11px] text-rose-700 list-disc">{formatIssue(issue)}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1.5 text-[11px] font-bold text-emerald-600">
+              <CheckCircle2 className="w-3.5 h-3.5" />
+              Slide is valid
+              {otherIssueCount > 0 && <span className="text-rose-500">· {otherIssueCount} problem(s) on other slides</span>}
+            </div>
+          )}
+
+          <Field label="Title">
+            <input value={slide.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+          </Field>
+          <Field label="Subtitle">
+            <input value={slide.subtitle} onChange={(e) => update({ subtitle: e.target.value })} className={inputClass} />
+          </Field>
+          <Field label="Description">
+            <textarea value={slide.description} rows={3} onChange={(e) => update({ description: e.target.value })}
+              className={`${inputClass} resize-y leading-relaxed`} />
+          </Field>
+
+          <ListField label="Key Points" items={slide.keyPoints} placeholder="Key takeaway"
+            onChange={(keyPoints) => update({ keyPoints })} />
+
+          <PairListField<SlideKeyPoint> label="Stats" items={slide.stats}
+            keys={["label", "value"]} placeholders={["Label", "Value"]}
+            onChange={(stats) => update({ stats })} />
+
+          <PairListField<SlideTech> label="Tech Stack" items={slide.techStack}
+            keys={["name", "color"]} placeholders={["Name", "#2563eb"]}
+            onChange={(techStack) => update({ techStack })} />
+
+          <Field label="Deep Dive · #### heading, - list, 1. steps, > Tip: callout, ``` code, | table |">
+            <textarea value={richContentToMarkdown(slide.deepDive)} rows={10} spellCheck onChange={(e) => update({ deepDive: e.target.value })}
+              className={`${inputClass} resize-y leading-relaxed`} />
+          </Field>
+
+          <CodeFilesField files={getCodeFiles(slide)}
+            onChange={(files) => update({ codeFiles: files.length ? files : undefined, codeSnippet: undefined, codeLanguage: undefined })} />
+
+          {getCodeFiles(slide).some((f) => f.language === "sql") && (
+            <Field label="SQL Seed · CREATE TABLE / INSERT run before every query">
+              <textarea value={slide.sqlSeed ?? ""} rows={6} spellCheck={false}
+                onChange={(e) => update({ sqlSeed: e.target.value || undefined })}
+                className={`${inputClass} resize-y font-mono text-[12px]`} />
+            </Field>
+          )}
+
+          <Field label="Speaker Notes · shown only in the presenter view">
+            <textarea value={slide.speakerNotes ?? ""} rows={4} onChange={(e) => update({ speakerNotes: e.target.value || undefined })}
+              className={`${inputClass} resize-y leading-relaxed`} />
+          </Field>
+
+          <div>
+            <span className="block text-[10px] font-black text-gray-400 uppercase tracking-[0.14em] mb-1.5">Interactive Widgets</span>
+            <div className="space-y-1">
+              {Object.entries(widgetMap).map(([name, widget]) => {
+                const enabled = slide.widgets?.includes(name) ?? false;
+                return (
+                  <label key={name} className="flex items-start gap-2 text-[12px] text-gray-700 cursor-pointer">
+                    <input type="checkbox" checked={enabled} className="mt-0.5"
+                      onChange={() => {
+                        const next = enabled ? (slide.widgets ?? []).filter((w) => w !== name) : [...(slide.widgets ?? []), name];
+                        update({ widgets: next.length ? next : undefined });
+                      }} />
+                    <span><span className="font-bold">{widget.title}</span> — {widget.description}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <ListField label="Chat Suggestions" items={slide.chatSuggestions} placeholder="Suggested question"
+            onChange={(chatSuggestions) => update({ chatSuggestions })} />
+        </div>
+
+        {/* ── Live preview ── */}
+        <div className="flex-1 min-w-0 overflow-y-auto scrollbar-light px-6 py-5 space-y-5">
+          <p className="text-[10px] font-black text-gray-400 uppercase tracking-[0.14em]">Slide preview</p>
+          <div style={{ height: "clamp(380px, 58vh, 600px)" }}>
+            <SlideCanvas slide={slide} slideNumber={index + 1} slideCount={deck.slides.length} />
+          </div>
+          <p className="text-[10px] font-black text-gray-400 uppercase tracking-[0.14em]">Deep dive preview</p>
+          <div className="max-w-2xl" style={{ height: "720px" }}>
+            <DeepDiveModal
+              slide={slide}
+              slideNumber={index + 1}
+              slideCount={deck.slides.length}
+              deckTitle={deck.title}
+              isOpen
+              onClose={() => {}}
+              embedded
+            />
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,22 +1,19 @@
 import { motion } from "framer-motion";
-import {
-  Server, HardDrive, Zap, Database, Lock, Code2, ArrowLeftRight, Radio,
-  type LucideIcon,
-} from "lucide-react";
+import { Server } from "lucide-react";
 import type { Slide } from "../data/slides";
-
-const iconMap: Record<string, LucideIcon> = {
-  Server, HardDrive, Zap, Database, Lock, Code2, ArrowLeftRight, Radio,
-};
+import { iconMap } from "../data/icons";
+import { deckCompletion, formatDuration, isSlideComplete, slideSteps, type DeckProgress } from "../lib/learningProgress";
 
 interface SlideThumbnailsProps {
   slides: Slide[];
   current: number;
+  /** null while saved progress is loading */
+  progress: DeckProgress | null;
   onSelect: (index: number) => void;
 }
 
-export default function SlideThumbnails({ slides, current, onSelect }: SlideThumbnailsProps) {
-  const progress = Math.round(((current + 1) / slides.length) * 100);
+export default function SlideThumbnails({ slides, current, progress, onSelect }: SlideThumbnailsProps) {
+  const percent = Math.round(deckCompletion(slides, progress) * 100);
 
   return (
     <aside className="h-full flex flex-col overflow-hidden" style={{ background: "#ffffff" }}>
@@ -53,12 +50,12 @@ export default function SlideThumbnails({ slides, current, onSelect }: SlideThum
           <motion.div
             className="absolute inset-y-0 left-0 rounded-full"
             style={{ background: "linear-gradient(to right, #1d4ed8, #3b82f6)" }}
-            animate={{ width: `${progress}%` }}
+            animate={{ width: `${percent}%` }}
             transition={{ duration: 0.4, ease: [0.25, 0.1, 0.25, 1] }}
           />
         </div>
         <p className="text-[9.5px] text-gray-400 font-medium mt-1.5">
-          {progress}% complete
+          {percent}% complete
         </p>
       </div>
 
@@ -67,12 +64,22 @@ export default function SlideThumbnails({ slides, current, onSelect }: SlideThum
         {slides.map((slide, i) => {
           const Icon = iconMap[slide.icon] ?? Server;
           const isActive = i === current;
-          const isVisited = i < current;
+          const slideProgress = progress?.slides[slide.id];
+          const steps = slideSteps(slide, slideProgress);
+          const isVisited = steps.opened;
+          const isComplete = isSlideComplete(slide, slideProgress);
+          const stepList = Object.values(steps).filter((step) => step !== null);
+          const detail = [
+            steps.opened ? `Opened · ${formatDuration(slideProgress?.timeMs ?? 0)}` : "Not opened yet",
+            steps.deepDiveRead ? "deep dive read" : "deep dive not read",
+            ...(steps.quizPassed === null ? [] : [steps.quizPassed ? "quiz passed" : "quiz not passed"]),
+          ].join(" · ");
 
           return (
             <motion.button
               key={slide.id}
               onClick={() => onSelect(i)}
+              title={detail}
               whileHover={{ x: isActive ? 0 : 3 }}
               whileTap={{ scale: 0.98 }}
               className="flex-1 w-full text-left rounded-2xl overflow-hidden transition-all duration-200 relative group cursor-pointer"
@@ -123,8 +130,8 @@ export default function SlideThumbnails({ slides, current, onSelect }: SlideThum
                     }}>
                     <Icon className="w-4 h-4 text-white drop-shadow" />
                   </div>
-                  {/* Visited tick */}
-                  {isVisited && !isActive && (
+                  {/* Completed tick — opened, deep dive read and quiz (if any) passed */}
+                  {isComplete && !isActive && (
                     <div className="absolute bottom-0.5 right-0.5 w-3.5 h-3.5 rounded-full bg-green-500 flex items-center justify-center"
                       style={{ border: "1.5px solid white" }}>
                       <svg className="w-2 h-2 text-white" fill="none" stroke="currentColor" strokeWidth={3} viewBox="0 0 10 10">
@@ -132,6 +139,13 @@ export default function SlideThumbnails({ slides, current, onSelect }: SlideThum
                       </svg>
                     </div>
                   )}
+                  {/* Partly done — how many of the slide's steps are finished */}
+                  {isVisited && !isComplete && !isActive && (
+                    <div className="absolute bottom-0.5 right-0.5 h-3.5 px-1 rounded-full bg-blue-500 flex items-center justify-center text-[7px] font-black text-white tabular-nums"
+                      style={{ border: "1.5px solid white" }}>
+                      {stepList.filter(Boolean).length}/{stepList.length}
+                    </div>
+                  )}
                 </div>
 
                 {/* Text */}
@@ -178,7 +192,7 @@ export default function SlideThumbnails({ slides, current, onSelect }: SlideThum
                 height: "5px",
                 background: i === current
                   ? "linear-gradient(to right, #1d4ed8, #3b82f6)"
-                  : i < current ? "#93c5fd" : "#e2e8f0",
+                  : slideSteps(slides[i], progress?.slides[slides[i].id]).opened ? "#93c5fd" : "#e2e8f0",
               }} />
           ))}
         </div>
@@ -0,0 +1,28 @@
+import { widgetMap } from "../data/widgets";
+
+interface SlideWidgetProps {
+  /** Key into widgetMap */
+  name: string;
+}
+
+export default function SlideWidget({ name }: SlideWidgetProps) {
+  const widget = widgetMap[name];
+  if (!widget) return null;
+  const { icon: Icon, component: Widget } = widget;
+
+  return (
+    <div className="rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+      <div className="flex items-start gap-2.5 mb-3">
+        <div className="w-8 h-8 rounded-xl flex items-center justify-center flex-shrink-0"
+          style={{ background: "#2563eb14", border: "1px solid #2563eb30" }}>
+          <Icon className="w-4 h-4 text-blue-600" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-gray-800">{widget.title}</p>
+          <p className="text-xs text-gray-500 leading-snug">{widget.description}</p>
+        </div>
+      </div>
+      <Widget />
+    </div>
+  );
+}
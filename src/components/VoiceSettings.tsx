@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { X, AudioLines, RotateCcw, Volume2, Square, Loader2 } from "lucide-react";
+import { getSpeechEngine, type SpeechPlayback, type SpeechVoice } from "../lib/speechEngine";
+import {
+  DEFAULT_VOICE_PREFS, PITCH_RANGE, RATE_RANGE, VOICE_LANGUAGES,
+  getVoicePrefs, saveVoicePrefs, setVoicePrefs, type VoicePrefs,
+} from "../lib/voicePrefs";
+
+interface VoiceSettingsProps {
+  /** Whose settings these are — the access code's label */
+  userLabel: string;
+  onClose: () => void;
+}
+
+const AUTOMATIC = "auto";
+
+const SAMPLES: Record<string, string> = {
+  hi: "नमस्ते! आपकी स्लाइड्स इसी आवाज़ में पढ़ी जाएँगी।",
+  en: "Hello! This is how your slides will sound when they are read aloud.",
+};
+
+const sampleFor = (lang: string) => SAMPLES[lang.split("-")[0]] ?? SAMPLES.en;
+
+// Some platforms report "en_GB" rather than "en-GB"
+const speaks = (voice: SpeechVoice, lang: string) => voice.lang.replace("_", "-") === lang;
+
+export default function VoiceSettings({ userLabel, onClose }: VoiceSettingsProps) {
+  const [prefs, setPrefs] = useState(getVoicePrefs);
+  // null while the engine is still listing its voices
+  const [voices, setVoices] = useState<SpeechVoice[] | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  // The voice being previewed (AUTOMATIC for the default pick)
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const previewRef = useRef<SpeechPlayback | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSpeechEngine().voices().then((list) => { if (!cancelled) setVoices(list); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // A preview stops with the dialog
+  useEffect(() => () => previewRef.current?.cancel(), []);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    document.addEventListener("keydown", handler);
+    return () => document.removeEventListener("keydown", handler);
+  }, [onClose]);
+
+  // Every change applies at once — the next thing read aloud uses it
+  const update = (next: VoicePrefs) => {
+    setPrefs(next);
+    setVoicePrefs(next);
+    saveVoicePrefs(userLabel, next);
+  };
+
+  const changeLanguage = (lang: string) => {
+    const chosen = voices?.find((v) => v.id === prefs.voice);
+    update({ ...prefs, lang, voice: chosen && speaks(chosen, lang) ? chosen.id : null });
+  };
+
+  const preview = (id: string) => {
+    previewRef.current?.cancel();
+    previewRef.current = null;
+    if (previewing === id) {
+      setPreviewing(null);
+      return;
+    }
+    const done = () => {
+      if (previewRef.current !== playback) return;
+      previewRef.current = null;
+      setPreviewing(null);
+    };
+    const playback = getSpeechEngine().speak(sampleFor(prefs.lang), {
+      voice: id === AUTOMATIC ? undefined : id,
+      rate: prefs.rate,
+      pitch: prefs.pitch,
+      lang: prefs.lang,
+    }, { onEnd: done, onError: done });
+    previewRef.current = playback;
+    setPreviewing(id);
+  };
+
+  const matching = voices?.filter((v) => speaks(v, prefs.lang)) ?? [];
+  // The chosen voice stays listed even when it speaks another language
+  const listed = showAll ? voices ?? [] : voices?.filter((v) => speaks(v, prefs.lang) || v.id === prefs.voice) ?? [];
+  const rows = [{ id: AUTOMATIC, name: "Automatic", lang: "Best available voice for the language" }, ...listed];
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.2 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/40 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, y: 24, scale: 0.98 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, y: 24, scale: 0.98 }}
+        transition={{ type: "spring", damping: 28, stiffness: 320 }}
+        role="dialog"
+        aria-label="Voice settings"
+        className="fixed inset-x-3 top-[6vh] mx-auto max-w-xl max-h-[88vh] bg-white rounded-2xl shadow-2xl z-50 flex flex-col overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-gray-100">
+          <div className="w-9 h-9 rounded-xl flex items-center justify-center bg-blue-600">
+            <AudioLines className="w-5 h-5 text-white" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-wider text-gray-400">Workspace</p>
+            <h2 className="text-base font-bold text-gray-900">Voice settings</h2>
+          </div>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          <label className="flex items-center justify-between gap-3 text-[12px] font-semibold text-gray-700">
+            Language for reading aloud and voice input
+            <select value={prefs.lang} onChange={(e) => changeLanguage(e.target.value)}
+              className="text-[12px] font-bold text-blue-600 bg-white border border-gray-200 rounded-lg px-2 py-1 outline-none">
+              {VOICE_LANGUAGES.map(({ lang, label }) => <option key={lang} value={lang}>{label}</option>)}
+            </select>
+          </label>
+
+          <section>
+            <div className="flex items-center justify-between mb-1.5">
+              <h3 className="text-[10.5px] font-black uppercase tracking-widest text-gray-400">Voice</h3>
+              {voices && voices.length > matching.length && (
+                <button onClick={() => setShowAll((s) => !s)} className="text-[11px] font-bold text-blue-600 hover:underline">
+                  {showAll ? "Only this language" : `Show all ${voices.length} voices`}
+                </button>
+              )}
+            </div>
+            <div className="rounded-xl border border-gray-100 divide-y divide-gray-100">
+              {rows.map((voice) => {
+                const selected = voice.id === (prefs.voice ?? AUTOMATIC);
+                return (
+                  <div key={voice.id} className={`flex items-center gap-3 px-3 py-2 ${selected ? "bg-blue-50/60" : ""}`}>
+                    <label className="flex-1 min-w-0 flex items-center gap-2.5 cursor-pointer">
+                      <input type="radio" name="voice" checked={selected} className="accent-blue-600"
+                        onChange={() => update({ ...prefs, voice: voice.id === AUTOMATIC ? null : voice.id })} />
+                      <span className="min-w-0">
+                        <span className="block text-[13px] text-gray-700 truncate">{voice.name}</span>
+                        <span className="block text-[11px] text-gray-400 truncate">{voice.lang}</span>
+                      </span>
+                    </label>
+                    <button
+                      onClick={() => preview(voice.id)}
+                      title={previewing === voice.id ? "Stop preview" : "Preview"}
+                      className="p-1.5 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors">
+                      {previewing === voice.id ? <Square className="w-3.5 h-3.5" /> : <Volume2 className="w-3.5 h-3.5" />}
+                    </button>
+                  </div>
+                );
+              })}
+              {voices === null && (
+                <p className="flex items-center gap-2 px-3 py-2 text-[12px] text-gray-400">
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" /> Looking for voices…
+                </p>
+              )}
+              {voices !== null && listed.length === 0 && (
+                <p className="px-3 py-2 text-[12px] text-gray-400 italic">
+                  No voice on this device speaks {VOICE_LANGUAGES.find((l) => l.lang === prefs.lang)?.label ?? prefs.lang} — the automatic pick uses the closest one.
+                </p>
+              )}
+            </div>
+          </section>
+
+          <label className="block">
+            <span className="flex justify-between text-[11.5px] font-bold text-gray-600">
+              Speed
+              <span className="tabular-nums text-blue-600">{prefs.rate.toFixed(2)}×</span>
+            </span>
+            <input type="range" min={RATE_RANGE.min} max={RATE_RANGE.max} step={RATE_RANGE.step} value={prefs.rate}
+              onChange={(e) => update({ ...prefs, rate: Number(e.target.value) })}
+              className="w-full accent-blue-600" />
+          </label>
+          <label className="block">
+            <span className="flex justify-between text-[11.5px] font-bold text-gray-600">
+              Pitch
+              <span className="tabular-nums text-blue-600">{prefs.pitch.toFixed(2)}</span>
+            </span>
+            <input type="range" min={PITCH_RANGE.min} max={PITCH_RANGE.max} step={PITCH_RANGE.step} value={prefs.pitch}
+              onChange={(e) => update({ ...prefs, pitch: Number(e.target.value) })}
+              className="w-full accent-blue-600" />
+          </label>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-3 px-5 py-3 border-t border-gray-100">
+          <p className="flex-1 text-[11.5px] text-gray-500">
+            Using {getSpeechEngine().name.toLowerCase()}. Saved for {userLabel} on this device; changes apply to the next thing read aloud.
+          </p>
+          <button
+            onClick={() => update(DEFAULT_VOICE_PREFS)}
+            className="flex items-center gap-1.5 text-[12px] font-bold px-3 py-1.5 rounded-xl border text-gray-600 border-gray-200 hover:bg-gray-50 transition-colors flex-shrink-0">
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset
+          </button>
+        </div>
+      </motion.div>
+    </>
+  );
+}
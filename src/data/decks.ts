@@ -0,0 +1,53 @@
+import { slides as backendSlides, type Slide } from "./slides";
+import { parseDeckFile, type DeckIssue } from "../lib/deckLoader";
+
+export interface Deck {
+  id: string;
+  title: string;
+  description: string;
+  themeColor: string;
+  slides: Slide[];
+}
+
+export interface DeckLoadError {
+  fileName: string;
+  issues: DeckIssue[];
+}
+
+const builtInDecks: Deck[] = [
+  {
+    id: "backend",
+    title: "Backend Engineering",
+    description: "Servers, APIs, databases, auth and real-time systems — the complete backend stack.",
+    themeColor: "#2563eb",
+    slides: backendSlides,
+  },
+];
+
+// Every .json / .md file in ./decks is bundled and validated at startup
+const deckFiles = import.meta.glob<string>("./decks/*.{json,md}", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+const fileDecks: Deck[] = [];
+export const deckLoadErrors: DeckLoadError[] = [];
+
+for (const [path, source] of Object.entries(deckFiles).sort(([a], [b]) => a.localeCompare(b))) {
+  const fileName = path.split("/").pop() ?? path;
+  const result = parseDeckFile(source, fileName);
+  if (!result.ok) {
+    deckLoadErrors.push({ fileName, issues: result.issues });
+  } else if ([...builtInDecks, ...fileDecks].some((d) => d.id === result.deck.id)) {
+    deckLoadErrors.push({ fileName, issues: [{ field: "id", message: `deck id "${result.deck.id}" is already used` }] });
+  } else {
+    fileDecks.push(result.deck);
+  }
+}
+
+export const decks: Deck[] = [...builtInDecks, ...fileDecks];
+
+export function findDeck(id: string, extra: Deck[] = []): Deck | undefined {
+  return [...decks, ...extra].find((d) => d.id === id);
+}
@@ -0,0 +1,11 @@
+import {
+  Server, HardDrive, Zap, Database, Lock, Code2, ArrowLeftRight, Radio,
+  Table, Search, ShieldCheck, Cloud, Layers, GitBranch, Globe, Monitor,
+  type LucideIcon,
+} from "lucide-react";
+
+/** Icons a slide may reference by name in its `icon` field */
+export const iconMap: Record<string, LucideIcon> = {
+  Server, HardDrive, Zap, Database, Lock, Code2, ArrowLeftRight, Radio,
+  Table, Search, ShieldCheck, Cloud, Layers, GitBranch, Globe, Monitor,
+};
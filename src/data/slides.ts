@@ -8,13 +8,54 @@ export interface SlideTech {
   color: string;
 }
 
+/**
+ * A typed piece of deep-dive content. Text fields may contain `inline code`
+ * spans wrapped in backticks.
+ */
+export type RichBlock =
+  | { type: "heading"; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "bullets"; items: string[] }
+  | { type: "numbered"; items: string[]; start?: number }
+  | { type: "callout"; text: string; tone?: "tip" | "note" | "warning" }
+  | { type: "code"; code: string; language?: string }
+  | { type: "image"; src: string; alt: string; caption?: string }
+  | { type: "table"; headers: string[]; rows: string[][] };
+
+/** Deep-dive content: either Markdown-style text or a list of typed blocks */
+export type RichContent = string | RichBlock[];
+
+/** One named snippet in a slide's code example, shown as a tab */
+export interface CodeFile {
+  name: string;
+  language: string;
+  code: string;
+}
+
+/**
+ * One quiz question. `deepDiveRef` is a phrase from the deep dive — feedback links to the
+ * first block that contains it.
+ */
+export type QuizItem = {
+  question: string;
+  explanation?: string;
+  deepDiveRef?: string;
+} & (
+  | { type: "multiple-choice"; options: string[]; answer: number }
+  | { type: "true-false"; answer: boolean }
+  /** `items` are listed in the correct order and shown shuffled */
+  | { type: "ordering"; items: string[] }
+  /** Each "___" in `code` is a blank; `answers` go in the same order, alternatives separated by "|" */
+  | { type: "fill-blank"; code: string; language?: string; answers: string[] }
+);
+
 export interface Slide {
   id: number;
   title: string;
   summary: string;
   color: string;
   icon: string;
-  deepDive: string;
+  deepDive: RichContent;
   aiInsight: string;
   chatSuggestions: string[];
   // Rich content fields
@@ -28,6 +69,15 @@ export interface Slide {
   realWorldExample: string;
   codeSnippet?: string;
   codeLanguage?: string;
+  /** Several named snippets — takes the place of codeSnippet / codeLanguage */
+  codeFiles?: CodeFile[];
+  /** SQL script (CREATE TABLE + INSERT) that SQL examples on this slide run against */
+  sqlSeed?: string;
+  /** Interactive widgets by name — see src/data/widgets.ts */
+  widgets?: string[];
+  quiz?: QuizItem[];
+  /** Talking points for the presenter view — never shown to the audience */
+  speakerNotes?: string;
 }
 
 export const slides: Slide[] = [
@@ -61,9 +111,26 @@ export const slides: Slide[] = [
     imageUrl: "https://images.unsplash.com/photo-1667984390538-3dea7a3fe33d?w=600&q=80",
     diagramAlt: "Backend architecture — client, server, and database layers",
     realWorldExample: "When you tap 'Order' on a food delivery app, the backend validates your payment, checks restaurant availability, assigns a driver, sends push notifications, and logs everything — all within 2 seconds.",
+    speakerNotes: "Open with a question: what happens after you tap 'Order'? Let the room name the steps before revealing the food-delivery example. Stress that users only ever see the frontend — everything on this slide happens out of sight.",
     deepDive: "The backend is the invisible powerhouse behind every web application. While users interact with the frontend, the backend handles all the heavy lifting: processing requests, managing databases, enforcing business logic, and ensuring security.\n\nA backend system typically consists of a server, an application layer, and a database. The server receives requests from clients, the application layer processes them using logic (written in languages like Node.js, Python, or Java), and the database stores and retrieves persistent data.\n\nModern backends are often designed as microservices — small, independently deployable components that each handle a specific function. This architecture improves scalability, fault tolerance, and development velocity.\n\nKey concepts include REST & GraphQL APIs, authentication & authorization, caching strategies (Redis, CDN), message queues (RabbitMQ, Kafka), and cloud infrastructure (AWS, GCP, Azure).",
     aiInsight: "The backend is like a restaurant kitchen — guests never see it, but it's where all the magic happens. Every button click triggers server logic, database queries, and a response — all in milliseconds.",
     chatSuggestions: ["What languages are used for backend?", "What is a REST API?", "How does backend differ from frontend?"],
+    quiz: [
+      {
+        type: "multiple-choice",
+        question: "Which three parts make up a typical backend system?",
+        options: ["Browser, CDN and DNS", "Server, application layer and database", "HTML, CSS and JavaScript", "Router, switch and firewall"],
+        answer: 1,
+        explanation: "The server receives requests, the application layer runs the logic and the database stores the data.",
+        deepDiveRef: "server, an application layer, and a database",
+      },
+      {
+        type: "true-false",
+        question: "Microservices are small, independently deployable components that each handle one specific function.",
+        answer: true,
+        deepDiveRef: "microservices",
+      },
+    ],
   },
   {
     id: 2,
@@ -95,9 +162,27 @@ export const slides: Slide[] = [
     imageUrl: "https://images.unsplash.com/photo-1573164713988-8665fc963095?w=600&q=80",
     diagramAlt: "Data center rack servers running 24/7",
     realWorldExample: "Netflix runs on over 100,000 servers across AWS, serving 250 million users. When you hit play, a server selects the nearest edge location, authenticates your account, and streams the video — all in under 3 seconds.",
+    speakerNotes: "Ask who has deployed something. Contrast a laptop with a server: always on, reachable, built to serve many clients. Use the Netflix numbers to show scale, then move to how clients actually talk to a server.",
     deepDive: "A server is a computer program or device that provides functionality for other programs or devices, called clients. This architecture is called the client-server model.\n\nPhysically, servers are high-performance machines with large amounts of RAM, fast multi-core processors, and redundant storage. They run 24/7 in temperature-controlled data centers with backup power and internet connectivity.\n\nTypes of servers include:\n• Web Servers – Serve HTML, CSS, JS files (Nginx, Apache)\n• Application Servers – Run business logic (Node.js, Tomcat)\n• Database Servers – Store and manage data (PostgreSQL, MySQL)\n• File Servers – Manage file storage (S3, FTP)\n• Mail Servers – Handle email (Postfix, Exchange)\n\nCloud computing has virtualized servers through VMs and containers (Docker/Kubernetes), allowing developers to spin up or scale servers on demand without owning physical hardware.",
     aiInsight: "A server is like a 24/7 post office — it waits for requests, processes them, and sends back the right response. Unlike your laptop, servers never sleep.",
     chatSuggestions: ["What is Nginx?", "Difference between server and cloud?", "How does Docker relate to servers?"],
+    quiz: [
+      {
+        type: "multiple-choice",
+        question: "Which kind of server runs your business logic?",
+        options: ["Web server", "Application server", "File server", "Mail server"],
+        answer: 1,
+        explanation: "Web servers like Nginx serve static files; application servers such as Node.js or Tomcat run the logic.",
+        deepDiveRef: "Application Servers",
+      },
+      {
+        type: "true-false",
+        question: "With containers and VMs you must own the physical hardware before you can scale a server.",
+        answer: false,
+        explanation: "Cloud virtualisation lets you spin servers up and down on demand without owning any hardware.",
+        deepDiveRef: "without owning physical hardware",
+      },
+    ],
   },
   {
     id: 3,
@@ -129,11 +214,37 @@ export const slides: Slide[] = [
     imageUrl: "https://images.unsplash.com/photo-1516321318423-f06f85e504b3?w=600&q=80",
     diagramAlt: "API endpoints connecting different applications and services",
     realWorldExample: "Google Maps API is called 25 million times per day by apps like Uber, Airbnb, and Snapchat. When you request a route in Uber, their app calls Google Maps API, payment API, driver-matching API, and push notification API — all in one tap.",
+    speakerNotes: "Use the restaurant analogy: the menu is the API, the kitchen is the server. Walk through the Uber example — one tap, four APIs. Pause for questions on REST verbs before moving on.",
+    widgets: ["http"],
     codeSnippet: "GET /api/users/42\nAuthorization: Bearer eyJhbG...\n\n200 OK\n{\n  \"id\": 42,\n  \"name\": \"Sarah Ahmed\",\n  \"email\": \"sarah@example.com\"\n}",
     codeLanguage: "http",
     deepDive: "An API (Application Programming Interface) is a set of rules and protocols that allows different software applications to communicate. It defines the methods and data formats that programs can use to request and exchange information.\n\nREST (Representational State Transfer) is the most common API architecture. It uses HTTP methods:\n• GET – Retrieve data\n• POST – Create new data\n• PUT/PATCH – Update data\n• DELETE – Remove data\n\nGraphQL is an alternative that lets clients request exactly the data they need — nothing more, nothing less.\n\nAPIs are secured using API keys, OAuth 2.0 tokens, and JWT (JSON Web Tokens). Rate limiting prevents abuse.\n\nReal-world examples: When you log into a website using Google, it calls Google's OAuth API. When you see a weather widget, it fetches from a weather API. Payment processors like Stripe expose APIs for charging cards.",
     aiInsight: "An API is like a waiter — you tell it what you want, it goes to the kitchen (server), and brings back your data. You never deal with the kitchen directly.",
     chatSuggestions: ["What is REST vs GraphQL?", "How is an API secured?", "What is a webhook?"],
+    quiz: [
+      {
+        type: "multiple-choice",
+        question: "Which HTTP method should a REST API use to create a new resource?",
+        options: ["GET", "POST", "DELETE", "OPTIONS"],
+        answer: 1,
+        deepDiveRef: "POST – Create new data",
+      },
+      {
+        type: "true-false",
+        question: "GraphQL lets a client ask for exactly the fields it needs.",
+        answer: true,
+        deepDiveRef: "GraphQL",
+      },
+      {
+        type: "fill-blank",
+        question: "Complete the request so it fetches user 42 with a bearer token.",
+        code: "___ /api/users/42\nAuthorization: ___ eyJhbG...",
+        language: "http",
+        answers: ["GET", "Bearer"],
+        explanation: "Reading data is a GET; JWTs travel in the Authorization header with the Bearer scheme.",
+        deepDiveRef: "JWT (JSON Web Tokens)",
+      },
+    ],
   },
   {
     id: 4,
@@ -165,11 +276,38 @@ export const slides: Slide[] = [
     imageUrl: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=600&q=80",
     diagramAlt: "Database tables and structured data storage visualization",
     realWorldExample: "Instagram's database handles 500 million daily active users, 100M+ photos uploaded per day. They use PostgreSQL for user data, Cassandra for activity feeds, Redis for caching hot posts, and S3 for photo storage.",
+    speakerNotes: "Ask what a spreadsheet is missing compared with a database: concurrent users, constraints, queries at scale. Point out that Instagram uses four stores for different jobs — the right database depends on the access pattern.",
     codeSnippet: "SELECT u.name, COUNT(o.id) as orders\nFROM users u\nJOIN orders o ON u.id = o.user_id\nWHERE u.created_at > '2025-01-01'\nGROUP BY u.name\nORDER BY orders DESC\nLIMIT 10;",
     codeLanguage: "sql",
+    sqlSeed: "CREATE TABLE users (\n  id INTEGER PRIMARY KEY,\n  name TEXT NOT NULL,\n  email TEXT NOT NULL UNIQUE,\n  created_at TEXT NOT NULL\n);\n\nCREATE TABLE orders (\n  id INTEGER PRIMARY KEY,\n  user_id INTEGER NOT NULL REFERENCES users(id),\n  total REAL NOT NULL,\n  status TEXT NOT NULL,\n  created_at TEXT NOT NULL\n);\n\nINSERT INTO users (id, name, email, created_at) VALUES\n  (1, 'Sarah Ahmed', 'sarah@example.com', '2024-11-02'),\n  (2, 'Ravi Kumar', 'ravi@example.com', '2025-01-15'),\n  (3, 'Priya Singh', 'priya@example.com', '2025-02-03'),\n  (4, 'Tom Walker', 'tom@example.com', '2025-03-21'),\n  (5, 'Mei Chen', 'mei@example.com', '2025-04-09'),\n  (6, 'Arjun Patel', 'arjun@example.com', '2025-05-30'),\n  (7, 'Lucia Rossi', 'lucia@example.com', '2025-06-12'),\n  (8, 'Omar Haddad', 'omar@example.com', '2025-07-01');\n\nINSERT INTO orders (id, user_id, total, status, created_at) VALUES\n  (1, 1, 49.99, 'delivered', '2025-01-05'),\n  (2, 2, 120.00, 'delivered', '2025-01-20'),\n  (3, 2, 35.50, 'delivered', '2025-02-11'),\n  (4, 3, 18.75, 'delivered', '2025-02-14'),\n  (5, 3, 220.10, 'shipped', '2025-03-02'),\n  (6, 3, 64.00, 'delivered', '2025-03-18'),\n  (7, 4, 15.25, 'cancelled', '2025-03-25'),\n  (8, 5, 89.90, 'delivered', '2025-04-12'),\n  (9, 5, 42.00, 'delivered', '2025-05-01'),\n  (10, 5, 310.45, 'shipped', '2025-06-03'),\n  (11, 5, 12.99, 'pending', '2025-07-08'),\n  (12, 6, 75.00, 'delivered', '2025-06-04'),\n  (13, 7, 150.00, 'pending', '2025-06-20'),\n  (14, 7, 27.30, 'delivered', '2025-07-02'),\n  (15, 2, 58.60, 'shipped', '2025-07-10');",
     deepDive: "A database is an organized collection of structured information or data, stored and accessed electronically. Databases are managed by Database Management Systems (DBMS).\n\nRelational Databases (SQL) store data in tables with rows and columns. They use SQL for queries. Examples: PostgreSQL, MySQL, SQLite. They enforce ACID properties: Atomicity, Consistency, Isolation, Durability.\n\nNon-Relational Databases (NoSQL) store data in flexible formats:\n• Document stores (MongoDB) – JSON-like documents\n• Key-Value stores (Redis) – Ultra-fast lookups\n• Column stores (Cassandra) – Optimized for analytics\n• Graph databases (Neo4j) – Relationship mapping\n\nDatabase optimization involves indexing, query optimization, connection pooling, and sharding (distributing data across multiple servers) for horizontal scaling.\n\nORMs like Prisma, Sequelize, and TypeORM let developers interact with databases using their programming language instead of raw SQL.",
     aiInsight: "A database is like a filing cabinet — SQL is very organized like a spreadsheet, NoSQL is flexible like folders where anything can go in any shape.",
     chatSuggestions: ["SQL vs NoSQL — when to use which?", "What is database indexing?", "What is an ORM?"],
+    quiz: [
+      {
+        type: "multiple-choice",
+        question: "Which database is a key-value store built for ultra-fast lookups?",
+        options: ["PostgreSQL", "MongoDB", "Redis", "Neo4j"],
+        answer: 2,
+        deepDiveRef: "Key-Value stores (Redis)",
+      },
+      {
+        type: "fill-blank",
+        question: "Finish the query: count each user's orders, busiest users first.",
+        code: "SELECT u.name, COUNT(o.id) AS orders\nFROM users u\n___ orders o ON u.id = o.user_id\n___ u.name\nORDER BY orders ___;",
+        language: "sql",
+        answers: ["JOIN|INNER JOIN", "GROUP BY", "DESC"],
+        explanation: "JOIN matches each order to its user, GROUP BY makes one row per user and DESC puts the largest counts first.",
+        deepDiveRef: "They use SQL for queries",
+      },
+      {
+        type: "true-false",
+        question: "The \"A\" in ACID stands for Availability.",
+        answer: false,
+        explanation: "It stands for Atomicity — a transaction happens completely or not at all.",
+        deepDiveRef: "ACID",
+      },
+    ],
   },
   {
     id: 5,
@@ -201,11 +339,37 @@ export const slides: Slide[] = [
     imageUrl: "https://images.unsplash.com/photo-1614064641938-3bbee52942c7?w=600&q=80",
     diagramAlt: "Digital security lock protecting user authentication and data",
     realWorldExample: "When you log into GitHub with Google (OAuth), GitHub never sees your Google password. Google authenticates you, issues a token, and GitHub uses that token to identify you. Your password stays safe with Google.",
+    speakerNotes: "Separate authentication (who are you?) from authorisation (what may you do?) early — people mix them up all session. Demo the JWT widget if time allows; the OAuth example lands well with anyone who has used 'Sign in with Google'.",
+    widgets: ["jwt"],
     codeSnippet: "// Verify JWT token middleware\nconst verifyToken = (req, res, next) => {\n  const token = req.headers.authorization?.split(' ')[1];\n  if (!token) return res.status(401).json({ error: 'Unauthorized' });\n  \n  const decoded = jwt.verify(token, process.env.JWT_SECRET);\n  req.user = decoded;\n  next();\n};",
     codeLanguage: "javascript",
     deepDive: "Authentication is the process of verifying who someone is. Authorization is determining what they are allowed to do. These two concepts are the foundation of application security.\n\nAuthentication methods:\n• Username/Password – Traditional, requires hashing (bcrypt, Argon2)\n• OAuth 2.0 – Delegated authorization (Login with Google)\n• JWT (JSON Web Tokens) – Stateless tokens containing user claims\n• Session Cookies – Server-side sessions mapped to a session ID\n• MFA – Multi-Factor Authentication adds a second layer\n• Biometrics – Fingerprint, Face ID\n\nSecurity best practices:\n• Never store plain-text passwords\n• Use HTTPS everywhere (TLS/SSL)\n• Implement rate limiting and account lockouts\n• Use CORS policies to restrict API access\n• Sanitize all inputs to prevent SQL injection and XSS\n• Store secrets in environment variables, never in code\n\nModern auth is often handled by services like Auth0, Firebase Auth, or Supabase.",
     aiInsight: "Auth is like a club bouncer — they check your ID (credentials) to let you in. Authorization is the VIP list — even inside, not everyone can access every area.",
     chatSuggestions: ["What is JWT?", "OAuth vs session auth?", "How to store passwords safely?"],
+    quiz: [
+      {
+        type: "true-false",
+        question: "Authentication decides what a user is allowed to do.",
+        answer: false,
+        explanation: "That is authorization. Authentication verifies who someone is.",
+        deepDiveRef: "Authorization is determining what they are allowed to do",
+      },
+      {
+        type: "multiple-choice",
+        question: "How should passwords be stored?",
+        options: ["In plain text, so support can read them", "Base64-encoded", "Hashed with bcrypt or Argon2", "Encrypted with the JWT secret"],
+        answer: 2,
+        deepDiveRef: "requires hashing (bcrypt, Argon2)",
+      },
+      {
+        type: "fill-blank",
+        question: "Fill in the status code the middleware sends when no token is present.",
+        code: "const token = req.headers.authorization?.split(' ')[1];\nif (!token) return res.status(___).json({ error: 'Unauthorized' });",
+        language: "javascript",
+        answers: ["401"],
+        deepDiveRef: "Authentication is the process of verifying who someone is",
+      },
+    ],
   },
   {
     id: 6,
@@ -237,11 +401,46 @@ export const slides: Slide[] = [
     imageUrl: "https://images.unsplash.com/photo-1542831371-29b0f74f9713?w=600&q=80",
     diagramAlt: "Node.js JavaScript code running in a terminal editor",
     realWorldExample: "LinkedIn migrated their mobile servers from Ruby to Node.js in 2012 — their server count dropped from 30 to 3, while handling 2x the traffic. Walmart saw 98% cost reduction in hardware during Black Friday using Node.js.",
-    codeSnippet: "const express = require('express');\nconst app = express();\n\n// Middleware\napp.use(express.json());\napp.use(authMiddleware);\n\n// Route\napp.get('/api/users/:id', async (req, res) => {\n  const user = await User.findById(req.params.id);\n  res.json(user);\n});\n\napp.listen(3000, () => console.log('Server running'));",
-    codeLanguage: "javascript",
+    speakerNotes: "Keep this practical: one event loop, non-blocking I/O, middleware as a pipeline. The LinkedIn and Walmart numbers are a good hook, but warn that CPU-heavy work still blocks the loop.",
+    codeFiles: [
+      {
+        name: "server.js",
+        language: "javascript",
+        code: "const express = require('express');\nconst app = express();\n\n// Middleware\napp.use(express.json());\napp.use(authMiddleware);\n\n// Route\napp.get('/api/users/:id', async (req, res) => {\n  const user = await User.findById(req.params.id);\n  res.json(user);\n});\n\napp.listen(3000, () => console.log('Server running'));",
+      },
+      {
+        name: "request.sh",
+        language: "bash",
+        code: "# Call the route above with a bearer token\ncurl -s http://localhost:3000/api/users/42 \\\n  -H \"Authorization: Bearer $TOKEN\" \\\n  -H \"Accept: application/json\"\n\n# {\"id\":42,\"name\":\"Sarah Ahmed\",\"email\":\"sarah@example.com\"}",
+      },
+    ],
     deepDive: "Node.js is a JavaScript runtime built on Chrome's V8 engine. It allows JavaScript — traditionally a browser-only language — to run on the server side. It uses an event-driven, non-blocking I/O model that makes it highly efficient for I/O-heavy applications.\n\nWhy Node.js?\n• Same language (JavaScript) for frontend and backend\n• Massive ecosystem (npm has 2M+ packages)\n• Excellent for real-time apps (chat, notifications)\n• Fast for I/O-heavy, not CPU-heavy workloads\n\nExpress.js is a minimal, unopinionated web framework for Node.js. It provides routing, middleware, and request/response handling with very little boilerplate.\n\nModern alternatives include Fastify (faster), NestJS (structured, TypeScript-first), and Hono (edge-ready). For Python: Django, FastAPI. For Java: Spring Boot.",
     aiInsight: "Node.js is like one efficient waiter handling 1000 tables — while one table's food is cooking, they take another order. Express is their notepad that keeps everything organized.",
     chatSuggestions: ["What is middleware in Express?", "Node.js vs Python for backend?", "What is npm?"],
+    quiz: [
+      {
+        type: "multiple-choice",
+        question: "What makes Node.js efficient for I/O-heavy servers?",
+        options: ["It compiles JavaScript to C++", "An event-driven, non-blocking I/O model", "One thread per request", "A built-in database"],
+        answer: 1,
+        deepDiveRef: "non-blocking I/O",
+      },
+      {
+        type: "true-false",
+        question: "Node.js is a good fit for CPU-heavy workloads such as video encoding.",
+        answer: false,
+        explanation: "It shines at I/O-heavy work; long CPU tasks block the event loop.",
+        deepDiveRef: "not CPU-heavy",
+      },
+      {
+        type: "fill-blank",
+        question: "Complete the Express route that returns JSON.",
+        code: "const app = express();\napp.use(express.json());\n\napp.___('/api/users', (req, res) => {\n  res.___({ users: [] });\n});",
+        language: "javascript",
+        answers: ["get", "json"],
+        deepDiveRef: "routing, middleware, and request/response handling",
+      },
+    ],
   },
   {
     id: 7,
@@ -273,9 +472,43 @@ export const slides: Slide[] = [
     imageUrl: "https://images.unsplash.com/photo-1558494949-ef010cbdcc31?w=600&q=80",
     diagramAlt: "HTTP request and response flowing through a network",
     realWorldExample: "When you Google something, your browser performs a DNS lookup (~10ms), TCP+TLS handshake (~50ms), sends the HTTP request, Google's servers search their index across thousands of machines, and return results — all in under 200ms.",
+    speakerNotes: "Trace a single request end to end on the whiteboard: DNS, TCP + TLS, HTTP, server, database and back. Ask the room to guess the total time before showing the ~200 ms figure.",
+    widgets: ["cycle"],
     deepDive: "The HTTP Request-Response cycle is the fundamental communication pattern of the web. Every interaction — loading a page, submitting a form, fetching data — follows this cycle.\n\nThe cycle step by step:\n1. DNS Lookup – Browser converts domain name to IP address\n2. TCP Handshake – Client and server establish a connection\n3. TLS Handshake – Encrypted tunnel is established (HTTPS)\n4. HTTP Request – Client sends request with method, headers, body\n5. Server Processing – App receives request, runs logic, queries DB\n6. HTTP Response – Server sends back status code, headers, body\n7. Rendering – Browser parses HTML/CSS/JS and renders the page\n8. Connection Close/Keep-Alive – Connection is closed or reused\n\nHTTP Status Codes:\n• 2xx – Success (200 OK, 201 Created)\n• 3xx – Redirect (301 Moved, 304 Not Modified)\n• 4xx – Client Error (400 Bad Request, 401 Unauthorized, 404 Not Found)\n• 5xx – Server Error (500 Internal Server Error, 503 Service Unavailable)\n\nHTTP/2 and HTTP/3 improve performance with multiplexing and the QUIC protocol.",
     aiInsight: "The request-response cycle is like a drive-through — you place your order (request), the kitchen processes it (server logic), and hands you the bag (response). Status 200 means ready, 404 means we don't have that.",
     chatSuggestions: ["What is DNS?", "What are HTTP headers?", "How does HTTPS work?"],
+    quiz: [
+      {
+        type: "ordering",
+        question: "Put the steps of the request-response cycle in order.",
+        items: [
+          "DNS lookup",
+          "TCP handshake",
+          "TLS handshake",
+          "HTTP request",
+          "Server processing",
+          "HTTP response",
+          "Rendering",
+          "Connection close / keep-alive",
+        ],
+        explanation: "The browser needs an IP address before it can connect, and a secure connection before it sends the request.",
+        deepDiveRef: "DNS Lookup – Browser converts domain name to IP address",
+      },
+      {
+        type: "multiple-choice",
+        question: "A request arrives without a valid token. Which status code fits?",
+        options: ["200 OK", "301 Moved", "401 Unauthorized", "503 Service Unavailable"],
+        answer: 2,
+        deepDiveRef: "4xx – Client Error",
+      },
+      {
+        type: "true-false",
+        question: "5xx status codes mean the client sent a bad request.",
+        answer: false,
+        explanation: "5xx codes are server errors; client errors are 4xx.",
+        deepDiveRef: "5xx – Server Error",
+      },
+    ],
   },
   {
     id: 8,
@@ -307,10 +540,36 @@ export const slides: Slide[] = [
     imageUrl: "https://images.unsplash.com/photo-1556761175-4b46a572b786?w=600&q=80",
     diagramAlt: "Real-time chat and live communication via WebSockets",
     realWorldExample: "Figma's multiplayer design tool uses WebSockets to sync cursor positions, selections, and edits across thousands of collaborators in real time. When you move your cursor, everyone else sees it within 50ms.",
+    speakerNotes: "Contrast polling with a persistent connection — have two people pass notes versus talk on the phone. Run the chat simulator live, then mention Figma's 50 ms cursor sync as the bar to aim for.",
+    widgets: ["realtime"],
     codeSnippet: "// WebSocket server with Socket.IO\nio.on('connection', (socket) => {\n  console.log('User connected:', socket.id);\n  \n  socket.on('send-message', (data) => {\n    // Broadcast to everyone in the room\n    io.to(data.room).emit('new-message', {\n      user: data.user,\n      text: data.text,\n      time: new Date()\n    });\n  });\n  \n  socket.on('disconnect', () => {\n    io.emit('user-left', socket.id);\n  });\n});",
     codeLanguage: "javascript",
     deepDive: "Real-time systems enable instantaneous, bidirectional communication between clients and servers — without the client needing to repeatedly ask 'any updates?' (polling).\n\nWebSockets establish a persistent, full-duplex connection over a single TCP connection. Once opened, both the client and server can push messages at any time.\n\nUse cases:\n• Live chat applications (WhatsApp Web, Slack)\n• Collaborative editing (Google Docs)\n• Live sports scores and stock tickers\n• Multiplayer games\n• Real-time notifications\n• Live dashboards and monitoring\n\nTechnologies:\n• Socket.IO – Popular Node.js WebSocket library with fallbacks\n• Server-Sent Events (SSE) – One-way server to client stream\n• WebRTC – Peer-to-peer real-time (video calls, Zoom)\n• MQTT – Lightweight protocol for IoT devices\n• Apache Kafka – High-throughput event streaming\n\nScaling real-time: Multiple server instances need shared state. Redis Pub/Sub or message brokers coordinate WebSocket messages across servers.",
     aiInsight: "Regular HTTP is like sending letters — you write and wait for a reply. WebSockets are like a phone call — once connected, both sides can talk instantly without hanging up.",
     chatSuggestions: ["WebSockets vs HTTP polling?", "How does Socket.IO work?", "What is WebRTC?"],
+    quiz: [
+      {
+        type: "true-false",
+        question: "Once a WebSocket is open, only the client can start sending messages.",
+        answer: false,
+        explanation: "A WebSocket is full-duplex — the server can push at any time too.",
+        deepDiveRef: "full-duplex",
+      },
+      {
+        type: "multiple-choice",
+        question: "Which technology gives a one-way stream from server to client?",
+        options: ["WebRTC", "Server-Sent Events", "MQTT", "Socket.IO rooms"],
+        answer: 1,
+        deepDiveRef: "Server-Sent Events (SSE)",
+      },
+      {
+        type: "fill-blank",
+        question: "Broadcast the message to everyone in the sender's room.",
+        code: "socket.on('send-message', (data) => {\n  io.___(data.room).___('new-message', data);\n});",
+        language: "javascript",
+        answers: ["to|in", "emit"],
+        deepDiveRef: "Redis Pub/Sub",
+      },
+    ],
   },
 ];
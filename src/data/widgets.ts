@@ -0,0 +1,41 @@
+import type { ComponentType } from "react";
+import { KeyRound, ArrowLeftRight, Route, Radio, type LucideIcon } from "lucide-react";
+import JwtPlayground from "../components/JwtPlayground";
+import HttpPlayground from "../components/HttpPlayground";
+import RequestCycleSimulator from "../components/RequestCycleSimulator";
+import RealtimeChatSimulator from "../components/RealtimeChatSimulator";
+
+export interface WidgetDefinition {
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  component: ComponentType;
+}
+
+/** Interactive widgets a slide may embed by name in its `widgets` field */
+export const widgetMap: Record<string, WidgetDefinition> = {
+  jwt: {
+    title: "JWT Playground",
+    description: "Decode a token, verify its HMAC signature and sign your own — all in the browser.",
+    icon: KeyRound,
+    component: JwtPlayground,
+  },
+  http: {
+    title: "HTTP Playground",
+    description: "Send requests to a mock users API and inspect the status line, headers and body that come back.",
+    icon: ArrowLeftRight,
+    component: HttpPlayground,
+  },
+  cycle: {
+    title: "Request Journey",
+    description: "Step through every hop of a request with timings and narration, then inject a failure and watch the cycle change.",
+    icon: Route,
+    component: RequestCycleSimulator,
+  },
+  realtime: {
+    title: "Live Chat Rooms",
+    description: "Fake clients join rooms, chat, drop off and reconnect over a simulated Socket.IO server — then compare with polling.",
+    icon: Radio,
+    component: RealtimeChatSimulator,
+  },
+};
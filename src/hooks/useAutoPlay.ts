@@ -0,0 +1,144 @@
+/**
+ * useAutoPlay.ts
+ * Kiosk auto-play for the dashboard (see lib/autoPlay.ts).
+ * - useAutoPlay(slide, settings, { active, onAdvance, onDeepDive })
+ *     → { running, phase, pausedBy, secondsLeft, progress, start, stop, pause, resume, skip }
+ *   The slide is narrated; when the narration ends it dwells for settings.dwellSeconds, then onAdvance moves on.
+ *   onAdvance returns false when there is nowhere to go, which ends auto-play.
+ *   Touching the screen, scrolling or typing pauses it — anything inside [data-autoplay-controls] does not —
+ *   and it carries on after settings.resumeAfterSeconds without input. A pause while not active (locked) waits for Resume.
+ */
+import { useEffect, useRef, useState } from "react";
+import { useTTS } from "./useSpeech";
+import { slideNarration } from "../lib/narration";
+import type { AutoPlaySettings } from "../lib/autoPlay";
+import type { Slide } from "../data/slides";
+
+const TICK_MS = 250;
+const INTERACTIONS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+export type AutoPlayPhase = "narrating" | "dwell";
+/** "user" waits for Resume; "interaction" resumes by itself once the screen is left alone */
+export type AutoPlayPause = "user" | "interaction";
+
+interface AutoPlayHandlers {
+  /** False while the dashboard cannot be watched, e.g. behind the lock screen */
+  active: boolean;
+  onAdvance: () => boolean;
+  onDeepDive: () => void;
+}
+
+export function useAutoPlay(slide: Slide, settings: AutoPlaySettings, { active, onAdvance, onDeepDive }: AutoPlayHandlers) {
+  const [running, setRunning] = useState(false);
+  const [pausedBy, setPausedBy] = useState<AutoPlayPause | null>(null);
+  // The slide whose narration has finished — while it is shown, the slide dwells
+  const [endedSlideId, setEndedSlideId] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(settings.dwellSeconds);
+  const dwellLeft = useRef(0);
+  const narratedSlideId = useRef<number | null>(null);
+
+  const narration = slideNarration(slide);
+  const tts = useTTS(narration, {
+    onEnd: () => {
+      dwellLeft.current = settings.dwellSeconds * 1000;
+      setSecondsLeft(settings.dwellSeconds);
+      setEndedSlideId(narratedSlideId.current);
+      if (settings.openDeepDive) onDeepDive();
+    },
+  });
+  const phase: AutoPlayPhase = endedSlideId === slide.id ? "dwell" : "narrating";
+
+  const narrate = () => {
+    narratedSlideId.current = slide.id;
+    tts.speak(narration);
+  };
+
+  const start = () => {
+    setRunning(true);
+    setPausedBy(null);
+    setEndedSlideId(null);
+    narrate();
+  };
+
+  const stop = () => {
+    setRunning(false);
+    setPausedBy(null);
+    setEndedSlideId(null);
+    tts.stop();
+  };
+
+  const pause = (reason: AutoPlayPause = "user") => {
+    if (!running) return;
+    setPausedBy((p) => (p === "user" ? p : reason));
+    if (tts.state === "playing") tts.pause();
+  };
+
+  const resume = () => {
+    if (!running) return;
+    setPausedBy(null);
+    if (phase === "dwell") return;
+    if (tts.state === "paused" && narratedSlideId.current === slide.id) tts.play();
+    else if (tts.state !== "playing") narrate();
+  };
+
+  const skip = () => {
+    if (!running) return;
+    tts.stop();
+    if (!onAdvance()) stop();
+  };
+
+  const latest = useRef({ settings, onAdvance, running, pausedBy, narrate, pause, resume });
+  useEffect(() => {
+    latest.current = { settings, onAdvance, running, pausedBy, narrate, pause, resume };
+  });
+
+  // A new slide is narrated from the start — useTTS has already reset itself for the new text
+  useEffect(() => {
+    if (latest.current.running && !latest.current.pausedBy) latest.current.narrate();
+  }, [slide.id]);
+
+  // Count down the dwell, then move on
+  const counting = running && !pausedBy && phase === "dwell";
+  useEffect(() => {
+    if (!counting) return;
+    const timer = setInterval(() => {
+      dwellLeft.current -= TICK_MS;
+      setSecondsLeft(Math.max(0, Math.ceil(dwellLeft.current / 1000)));
+      if (dwellLeft.current > 0) return;
+      clearInterval(timer);
+      if (!latest.current.onAdvance()) {
+        setRunning(false);
+        setEndedSlideId(null);
+      }
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [counting]);
+
+  // Someone at the screen takes over; auto-play carries on once they leave it alone
+  const listening = running && pausedBy !== "user";
+  useEffect(() => {
+    if (!listening) return;
+    let resumeTimer: ReturnType<typeof setTimeout> | undefined;
+    const onInteraction = (e: Event) => {
+      if (e.target instanceof Element && e.target.closest("[data-autoplay-controls]")) return;
+      latest.current.pause("interaction");
+      clearTimeout(resumeTimer);
+      const after = latest.current.settings.resumeAfterSeconds;
+      if (after > 0) resumeTimer = setTimeout(() => latest.current.resume(), after * 1000);
+    };
+    for (const type of INTERACTIONS) document.addEventListener(type, onInteraction, { capture: true, passive: true });
+    return () => {
+      clearTimeout(resumeTimer);
+      for (const type of INTERACTIONS) document.removeEventListener(type, onInteraction, { capture: true });
+    };
+  }, [listening]);
+
+  // Locking the dashboard pauses until someone presses Resume
+  useEffect(() => {
+    if (!active) latest.current.pause("user");
+  }, [active]);
+
+  return { running, phase, pausedBy, secondsLeft, progress: tts.progress, start, stop, pause, resume, skip };
+}
+
+export type AutoPlay = ReturnType<typeof useAutoPlay>;
@@ -0,0 +1,114 @@
+/**
+ * useCoursePlaylist.ts
+ * The course playlist behind the header mini player (see lib/coursePlaylist.ts). It reads on while the
+ * learner browses — changing slides does not stop it.
+ * - useCoursePlaylist(slides)
+ *     → { status, queue, at, item, sentence, sleep, sleepLeftMs, start, stop, pause, resume, skip, setSleep }
+ *   status is "off", "playing" or "paused". Other audio (a panel reading aloud) pauses the playlist.
+ *   Pausing stops mid-sentence; resuming reads that sentence again.
+ */
+import { useEffect, useRef, useState } from "react";
+import { useTTS } from "./useSpeech";
+import {
+  buildPlaylist, nextPosition,
+  type PlaylistItem, type PlaylistPosition, type SleepTimer,
+} from "../lib/coursePlaylist";
+import type { Slide } from "../data/slides";
+
+export type PlaylistStatus = "off" | "playing" | "paused";
+
+export function useCoursePlaylist(slides: Slide[]) {
+  const [queue, setQueue] = useState<PlaylistItem[]>([]);
+  const [at, setAt] = useState<PlaylistPosition>({ item: 0, sentence: 0 });
+  const [paused, setPaused] = useState(false);
+  const [sleep, setSleepTimer] = useState<SleepTimer | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const item = queue[at.item] ?? null;
+  const sentence = item?.sentences[at.sentence] ?? "";
+
+  const finish = () => {
+    setQueue([]);
+    setPaused(false);
+    setSleepTimer(null);
+  };
+
+  const tts = useTTS(sentence, {
+    onEnd: () => {
+      const next = nextPosition(queue, at, "sentence");
+      if (!next) return finish();
+      // "End of this slide" stops at the start of the next one
+      if (sleep?.kind === "slide" && next.item !== at.item) {
+        setPaused(true);
+        setSleepTimer(null);
+      }
+      setAt(next);
+    },
+  });
+
+  const status: PlaylistStatus = queue.length === 0 ? "off" : paused || tts.state === "error" ? "paused" : "playing";
+
+  const start = (from: number, to: number) => {
+    const next = buildPlaylist(slides, from, to);
+    if (!next.length) return;
+    setQueue(next);
+    setAt({ item: 0, sentence: 0 });
+    setPaused(false);
+  };
+
+  const stop = () => {
+    tts.stop();
+    finish();
+  };
+
+  const pause = () => {
+    setPaused(true);
+    tts.stop();
+  };
+
+  const resume = () => {
+    setPaused(false);
+    tts.play();
+  };
+
+  const skip = (unit: "sentence" | "slide") => {
+    const next = nextPosition(queue, at, unit);
+    if (next) setAt(next);
+    else stop();
+  };
+
+  const setSleep = (choice: number | "slide" | null) => {
+    const t = Date.now();
+    setNow(t);
+    setSleepTimer(choice === null ? null : choice === "slide" ? { kind: "slide" } : { kind: "minutes", minutes: choice, endsAt: t + choice * 60_000 });
+  };
+
+  const latest = useRef({ paused, sentence, speak: tts.speak, pause });
+  useEffect(() => {
+    latest.current = { paused, sentence, speak: tts.speak, pause };
+  });
+
+  // Read each sentence as the queue reaches it — useTTS has already reset itself for the new text
+  useEffect(() => {
+    if (!latest.current.paused && latest.current.sentence) latest.current.speak(latest.current.sentence);
+  }, [queue, at]);
+
+  // The sleep timer pauses the playlist when it runs out
+  const sleepEndsAt = sleep?.kind === "minutes" ? sleep.endsAt : null;
+  useEffect(() => {
+    if (sleepEndsAt === null) return;
+    const timer = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t < sleepEndsAt) return;
+      setSleepTimer(null);
+      latest.current.pause();
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [sleepEndsAt]);
+  const sleepLeftMs = sleepEndsAt === null ? null : Math.max(0, sleepEndsAt - now);
+
+  return { status, queue, at, item, sentence, sleep, sleepLeftMs, start, stop, pause, resume, skip, setSleep };
+}
+
+export type CoursePlaylist = ReturnType<typeof useCoursePlaylist>;
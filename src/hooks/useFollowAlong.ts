@@ -0,0 +1,173 @@
+/**
+ * useFollowAlong.ts
+ * Classroom follow-along over the relay (see lib/followAlong.ts).
+ * - useFollowAlong(position, onMove) → { state, host, join, leave, breakAway, resync }
+ *   position is where this device is (null outside a deck). A host publishes it on every change;
+ *   a learner is sent to the instructor's position with onMove unless they broke away.
+ *   Dropped connections are retried until leave() is called.
+ */
+import { useEffect, useRef, useState } from "react";
+import {
+  RELAY_URL, newClassCode, newHostSecret,
+  type ClassPosition, type ClientMessage, type RelayMessage,
+} from "../lib/followAlong";
+
+const RETRY_MAX_MS = 15_000;
+
+export type FollowState =
+  | { mode: "off" }
+  | { mode: "error"; message: string }
+  | { mode: "hosting"; code: string; connected: boolean; followers: number }
+  | {
+      mode: "following";
+      code: string;
+      connected: boolean;
+      instructorOnline: boolean;
+      /** The instructor's position, once they have published one */
+      target: ClassPosition | null;
+      /** The learner chose to look around on their own */
+      detached: boolean;
+    };
+
+type Membership = { role: "host"; code: string; secret: string } | { role: "learner"; code: string };
+
+const samePosition = (a: ClassPosition | null, b: ClassPosition | null) =>
+  a?.deckId === b?.deckId && a?.slide === b?.slide;
+
+export function useFollowAlong(position: ClassPosition | null, onMove: (position: ClassPosition) => void) {
+  const [state, setState] = useState<FollowState>({ mode: "off" });
+  const [membership, setMembership] = useState<Membership | null>(null);
+  const socket = useRef<WebSocket | null>(null);
+  const detached = useRef(false);
+  const latest = useRef({ position, onMove });
+  useEffect(() => { latest.current = { position, onMove }; });
+
+  useEffect(() => {
+    if (!membership) return;
+    let stopped = false;
+    let attempt = 0;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    const send = (ws: WebSocket, message: ClientMessage) => ws.send(JSON.stringify(message));
+
+    const follow = (target: ClassPosition | null) => {
+      if (target && !detached.current && !samePosition(target, latest.current.position)) latest.current.onMove(target);
+    };
+
+    const connect = () => {
+      let ws: WebSocket;
+      try {
+        ws = new WebSocket(RELAY_URL);
+      } catch {
+        // A bad relay URL, or ws: from an https: page, throws instead of failing to connect
+        stopped = true;
+        setMembership(null);
+        setState({ mode: "error", message: "Couldn't reach the class relay from this page — check its address." });
+        return;
+      }
+      socket.current = ws;
+      ws.onopen = () => {
+        attempt = 0;
+        if (membership.role === "host") {
+          send(ws, { type: "host", code: membership.code, secret: membership.secret });
+          if (latest.current.position) send(ws, { type: "move", position: latest.current.position });
+        } else {
+          send(ws, { type: "join", code: membership.code });
+        }
+      };
+      ws.onmessage = (e: MessageEvent<string>) => {
+        let msg: RelayMessage;
+        try {
+          msg = JSON.parse(e.data) as RelayMessage;
+        } catch {
+          return;
+        }
+        switch (msg.type) {
+          case "hosted":
+            setState({ mode: "hosting", code: membership.code, connected: true, followers: msg.followers });
+            break;
+          case "followers":
+            setState((s) => (s.mode === "hosting" ? { ...s, followers: msg.count } : s));
+            break;
+          case "joined":
+            setState((s) => ({
+              mode: "following", code: membership.code, connected: true, instructorOnline: msg.instructorOnline,
+              target: msg.position, detached: s.mode === "following" && s.detached,
+            }));
+            follow(msg.position);
+            break;
+          case "move":
+            setState((s) => (s.mode === "following" ? { ...s, target: msg.position, instructorOnline: true } : s));
+            follow(msg.position);
+            break;
+          case "host-left":
+          case "host-back":
+            setState((s) => (s.mode === "following" ? { ...s, instructorOnline: msg.type === "host-back" } : s));
+            break;
+          case "error":
+            stopped = true;
+            ws.close();
+            setMembership(null);
+            setState({
+              mode: "error",
+              message: msg.reason === "code-taken" ? "That class code is already in use — start a new session." : "The relay did not understand this app.",
+            });
+            break;
+        }
+      };
+      ws.onclose = () => {
+        if (stopped) return;
+        setState((s) => (s.mode === "hosting" || s.mode === "following" ? { ...s, connected: false } : s));
+        retry = setTimeout(connect, Math.min(1000 * 2 ** attempt++, RETRY_MAX_MS));
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      socket.current?.close();
+      socket.current = null;
+    };
+  }, [membership]);
+
+  // Publish every move while hosting
+  const hosting = membership?.role === "host";
+  const deckId = position?.deckId;
+  const slide = position?.slide;
+  useEffect(() => {
+    const ws = socket.current;
+    if (!hosting || !deckId || !slide || ws?.readyState !== WebSocket.OPEN) return;
+    ws.send(JSON.stringify({ type: "move", position: { deckId, slide } } satisfies ClientMessage));
+  }, [hosting, deckId, slide]);
+
+  const start = (next: Membership) => {
+    detached.current = false;
+    setMembership(next);
+    setState(next.role === "host"
+      ? { mode: "hosting", code: next.code, connected: false, followers: 0 }
+      : { mode: "following", code: next.code, connected: false, instructorOnline: false, target: null, detached: false });
+  };
+
+  const host = () => start({ role: "host", code: newClassCode(), secret: newHostSecret() });
+  const join = (code: string) => start({ role: "learner", code });
+
+  const leave = () => {
+    setMembership(null);
+    setState({ mode: "off" });
+  };
+
+  const breakAway = () => {
+    detached.current = true;
+    setState((s) => (s.mode === "following" ? { ...s, detached: true } : s));
+  };
+
+  const resync = () => {
+    detached.current = false;
+    setState((s) => (s.mode === "following" ? { ...s, detached: false } : s));
+    if (state.mode === "following" && state.target) onMove(state.target);
+  };
+
+  return { state, host, join, leave, breakAway, resync };
+}
+
+export type FollowAlong = ReturnType<typeof useFollowAlong>;
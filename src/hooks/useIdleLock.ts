@@ -0,0 +1,57 @@
+/**
+ * useIdleLock.ts
+ * Locks the session after a period without input, or when the tab is hidden if the policy says so.
+ * - useIdleLock(policy, enabled, onLock) → { warningSeconds, stayActive }
+ *   warningSeconds counts down during the final policy.warningMs before locking (null otherwise);
+ *   stayActive() resets the idle timer, e.g. from a "Stay signed in" button.
+ */
+import { useEffect, useRef, useState } from "react";
+import type { SessionPolicy } from "../lib/access";
+import type { LockReason } from "../lib/accessLog";
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart", "scroll"] as const;
+const CHECK_MS = 1_000;
+
+export function useIdleLock(policy: SessionPolicy, enabled: boolean, onLock: (reason: LockReason) => void) {
+  const [warningSeconds, setWarningSeconds] = useState<number | null>(null);
+  const lastActivity = useRef(0);
+  const lock = useRef(onLock);
+  useEffect(() => { lock.current = onLock; });
+
+  const { idleMs, warningMs, lockOnHidden } = policy;
+
+  useEffect(() => {
+    if (!enabled || idleMs === null) return;
+    lastActivity.current = Date.now();
+    const onActivity = () => { lastActivity.current = Date.now(); };
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, onActivity, { capture: true, passive: true }));
+    const timer = setInterval(() => {
+      const left = idleMs - (Date.now() - lastActivity.current);
+      if (left <= 0) {
+        setWarningSeconds(null);
+        lock.current("idle");
+      } else {
+        setWarningSeconds(left <= warningMs ? Math.ceil(left / 1000) : null);
+      }
+    }, CHECK_MS);
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, onActivity, { capture: true }));
+      setWarningSeconds(null);
+    };
+  }, [enabled, idleMs, warningMs]);
+
+  useEffect(() => {
+    if (!enabled || !lockOnHidden) return;
+    const onVisibility = () => { if (document.visibilityState === "hidden") lock.current("hidden"); };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, [enabled, lockOnHidden]);
+
+  const stayActive = () => {
+    lastActivity.current = Date.now();
+    setWarningSeconds(null);
+  };
+
+  return { warningSeconds, stayActive };
+}
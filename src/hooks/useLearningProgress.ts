@@ -0,0 +1,80 @@
+/**
+ * useLearningProgress.ts
+ * Tracks what the learner actually does in a deck and keeps it in IndexedDB.
+ * - useLearningProgress(deckId, view, onRestore) → { progress, recordQuizResult }
+ *   view is the dashboard's current slide, zoom, whether the deep dive is open and whether
+ *   the learner is there at all (a locked session counts no time);
+ *   onRestore(slideIndex, zoom) is called once with the saved position when the deck reopens.
+ */
+import { useEffect, useRef, useState } from "react";
+import { addViewTime, emptyProgress, withQuizResult, type DeckProgress } from "../lib/learningProgress";
+import { loadProgress, savePosition, saveProgress } from "../lib/progressStore";
+
+/** How often viewing time is committed — the flush on slide change catches the remainder */
+const TICK_MS = 5_000;
+
+interface ProgressView {
+  slideId: number;
+  slideIndex: number;
+  zoom: number;
+  deepDiveOpen: boolean;
+  active: boolean;
+}
+
+export function useLearningProgress(
+  deckId: string,
+  { slideId, slideIndex, zoom, deepDiveOpen, active }: ProgressView,
+  onRestore: (slideIndex: number, zoom: number) => void,
+) {
+  // null until the saved progress has loaded
+  const [progress, setProgress] = useState<DeckProgress | null>(null);
+  const ready = progress !== null;
+  const restore = useRef(onRestore);
+  useEffect(() => { restore.current = onRestore; });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadProgress(deckId).then(({ progress: saved, position }) => {
+      if (cancelled) return;
+      setProgress(saved ?? emptyProgress(deckId));
+      if (position) restore.current(position.slideIndex, position.zoom);
+    });
+    return () => { cancelled = true; };
+  }, [deckId]);
+
+  useEffect(() => {
+    if (progress) saveProgress(progress);
+  }, [progress]);
+
+  // Only once loaded, so the first render on slide 1 never overwrites the saved position
+  useEffect(() => {
+    if (ready) savePosition({ deckId, slideIndex, zoom });
+  }, [ready, deckId, slideIndex, zoom]);
+
+  // Count time on the current slide while the tab is visible
+  useEffect(() => {
+    if (!ready || !active) return;
+    let since = Date.now();
+    const flush = () => {
+      const ms = Date.now() - since;
+      since = Date.now();
+      if (ms > 0) setProgress((p) => p && addViewTime(p, slideId, ms, deepDiveOpen));
+    };
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") flush();
+      else since = Date.now();
+    };
+    const timer = setInterval(() => { if (document.visibilityState === "visible") flush(); }, TICK_MS);
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisibility);
+      if (document.visibilityState === "visible") flush();
+    };
+  }, [ready, active, slideId, deepDiveOpen]);
+
+  const recordQuizResult = (quizSlideId: number, right: number, total: number) =>
+    setProgress((p) => p && withQuizResult(p, quizSlideId, right, total));
+
+  return { progress, recordQuizResult };
+}
@@ -0,0 +1,127 @@
+/**
+ * usePresentation.ts
+ * Both ends of a presentation (see lib/presenter.ts).
+ * - useAudienceLink(presentation, audience, { onView, onEnd }) → { sendQuestion }
+ *   Run by the dashboard the presenter window drives. While `audience.active` is false (the session
+ *   is locked) it neither answers a presenter window nor follows it.
+ * - usePresenterLink(presentationId) → { link, show }
+ *   Run by the presenter window: link is "connecting" until the audience window answers, then "linked"
+ *   with its deck, view and questions, or "ended" once either window goes away.
+ *   show(changes) moves the audience window.
+ */
+import { useEffect, useRef, useState } from "react";
+import type { Deck } from "../data/decks";
+import type { AccessSession } from "../lib/access";
+import {
+  presentationChannel, type AudienceQuestion, type AudienceView, type PresenterMessage,
+} from "../lib/presenter";
+
+/** How long a presenter window waits for its audience window before giving up */
+const HELLO_TIMEOUT_MS = 3_000;
+
+interface Audience {
+  session: AccessSession;
+  deck: Deck;
+  view: AudienceView;
+  active: boolean;
+}
+
+export function useAudienceLink(
+  presentation: { id: string; startedAt: number } | null,
+  audience: Audience,
+  { onView, onEnd }: { onView: (view: AudienceView) => void; onEnd: () => void },
+) {
+  const latest = useRef({ audience, onView, onEnd });
+  useEffect(() => { latest.current = { audience, onView, onEnd }; });
+  const channel = useRef<BroadcastChannel | null>(null);
+  const questions = useRef<AudienceQuestion[]>([]);
+
+  const id = presentation?.id;
+  const startedAt = presentation?.startedAt ?? 0;
+  useEffect(() => {
+    if (!id) return;
+    const ch = presentationChannel(id);
+    channel.current = ch;
+    questions.current = [];
+    ch.onmessage = ({ data: msg }: MessageEvent<PresenterMessage>) => {
+      const { audience: now, onView: follow, onEnd: end } = latest.current;
+      if (msg.type === "bye") end();
+      if (!now.active) return;
+      if (msg.type === "hello") {
+        ch.postMessage({
+          type: "welcome", session: now.session, deck: now.deck, view: now.view, questions: questions.current, startedAt,
+        } satisfies PresenterMessage);
+      }
+      if (msg.type === "view") follow(msg.view);
+    };
+    // Closing the tab skips effect cleanup, so say goodbye on pagehide as well
+    const bye = () => ch.postMessage({ type: "bye" } satisfies PresenterMessage);
+    window.addEventListener("pagehide", bye);
+    return () => {
+      window.removeEventListener("pagehide", bye);
+      bye();
+      ch.close();
+      channel.current = null;
+    };
+  }, [id, startedAt]);
+
+  const sendQuestion = (question: AudienceQuestion) => {
+    questions.current.push(question);
+    channel.current?.postMessage({ type: "question", question } satisfies PresenterMessage);
+  };
+
+  return { sendQuestion };
+}
+
+export type PresenterLink =
+  | { status: "connecting" | "ended" }
+  | {
+      status: "linked";
+      session: AccessSession;
+      deck: Deck;
+      view: AudienceView;
+      questions: AudienceQuestion[];
+      startedAt: number;
+    };
+
+export function usePresenterLink(presentationId: string) {
+  const [link, setLink] = useState<PresenterLink>({ status: "connecting" });
+  const channel = useRef<BroadcastChannel | null>(null);
+
+  useEffect(() => {
+    const ch = presentationChannel(presentationId);
+    channel.current = ch;
+    ch.onmessage = ({ data: msg }: MessageEvent<PresenterMessage>) => {
+      if (msg.type === "welcome") {
+        const { session, deck, view, questions, startedAt } = msg;
+        setLink({ status: "linked", session, deck, view, questions, startedAt });
+      } else if (msg.type === "question") {
+        setLink((l) => (l.status === "linked" ? { ...l, questions: [...l.questions, msg.question] } : l));
+      } else if (msg.type === "bye") {
+        setLink({ status: "ended" });
+      }
+    };
+    ch.postMessage({ type: "hello" } satisfies PresenterMessage);
+    // Nobody answered: the audience tab was closed or has already stopped presenting
+    const timeout = setTimeout(() => setLink((l) => (l.status === "connecting" ? { status: "ended" } : l)), HELLO_TIMEOUT_MS);
+    // Only on pagehide — this window never unmounts the link otherwise, and StrictMode's
+    // rehearsal unmount must not end the presentation
+    const bye = () => ch.postMessage({ type: "bye" } satisfies PresenterMessage);
+    window.addEventListener("pagehide", bye);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener("pagehide", bye);
+      ch.close();
+      channel.current = null;
+    };
+  }, [presentationId]);
+
+  const show = (changes: Partial<AudienceView>) => {
+    if (link.status !== "linked") return;
+    const view = { ...link.view, ...changes };
+    channel.current?.postMessage({ type: "view", view } satisfies PresenterMessage);
+    setLink({ ...link, view });
+  };
+
+  return { link, show };
+}
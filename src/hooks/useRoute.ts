@@ -0,0 +1,36 @@
+/**
+ * useRoute.ts
+ * Keeps a Route (see lib/routes.ts) in sync with the address bar through the History API.
+ * - useRoute() → { route, navigate }
+ *   navigate(changes, { replace }) merges changes into the route; new slides and decks push a
+ *   history entry so back / forward step through them, everything else replaces the current one.
+ */
+import { useEffect, useState } from "react";
+import { parseRoute, routeToUrl, type Route } from "../lib/routes";
+
+const readLocation = () => parseRoute(window.location.pathname, window.location.search);
+
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(readLocation);
+
+  useEffect(() => {
+    const onPopState = () => setRoute(readLocation());
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const navigate = (changes: Partial<Route>, { replace }: { replace?: boolean } = {}) => {
+    // The address bar, not render-time state, is the latest route when several navigations happen at once
+    const prev = readLocation();
+    const next = { ...prev, ...changes };
+    const url = routeToUrl(next);
+    const push = !replace && (next.deckId !== prev.deckId || next.slide !== prev.slide);
+    if (url !== window.location.pathname + window.location.search) {
+      if (push) window.history.pushState(null, "", url);
+      else window.history.replaceState(null, "", url);
+    }
+    setRoute(next);
+  };
+
+  return { route, navigate };
+}
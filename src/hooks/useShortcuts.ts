@@ -0,0 +1,53 @@
+/**
+ * useShortcuts.ts
+ * One document keydown listener for every workspace shortcut (see lib/shortcuts.ts).
+ * - useShortcuts(handlers, enabled) registers handlers for some actions while the component is mounted;
+ *   when several components handle an action, the most recently mounted enabled one wins
+ *   (the Listen tab's player over the AI panel, the mobile AI panel over the desktop one)
+ * - getKeymap() / setKeymap(keymap) → the live keymap; setKeymap also saves it (null restores the defaults)
+ */
+import { useEffect, useRef } from "react";
+import { actionForKey, isTypingTarget, keyFromEvent, loadKeymap, saveKeymap, type Keymap, type ShortcutAction } from "../lib/shortcuts";
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+interface Registration {
+  current: { handlers: ShortcutHandlers; enabled: boolean };
+}
+
+let keymap = loadKeymap();
+const registrations: Registration[] = [];
+
+export const getKeymap = () => keymap;
+
+export function setKeymap(next: Keymap | null) {
+  keymap = saveKeymap(next);
+  return keymap;
+}
+
+function onKeyDown(e: KeyboardEvent) {
+  // Modified keys stay with the browser (Ctrl + for page zoom, Alt ← for history)
+  if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+  const key = keyFromEvent(e);
+  if (isTypingTarget(e.target, key)) return;
+  const action = actionForKey(keymap, key);
+  if (!action) return;
+  const handler = [...registrations].reverse().find((r) => r.current.enabled && r.current.handlers[action])?.current.handlers[action];
+  if (!handler) return;
+  e.preventDefault();
+  handler();
+}
+
+export function useShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  const registration = useRef({ handlers, enabled });
+  useEffect(() => { registration.current = { handlers, enabled }; });
+
+  useEffect(() => {
+    if (registrations.length === 0) document.addEventListener("keydown", onKeyDown);
+    registrations.push(registration);
+    return () => {
+      registrations.splice(registrations.indexOf(registration), 1);
+      if (registrations.length === 0) document.removeEventListener("keydown", onKeyDown);
+    };
+  }, []);
+}
@@ -0,0 +1,128 @@
+/**
+ * access.ts
+ * Access codes, roles and what each role unlocks.
+ * - verifyAccessCode(code, now)    → { ok: true, session } | { ok: false, reason, entry? }
+ *                                    rejects outside a secure context (HTTPS or localhost), where Web Crypto is missing
+ * - can(session, permission)       → whether the session's role grants a feature
+ * - canOpenDeck(session, deckId)   → whether the code is scoped to that deck
+ * - sessionPolicy(session)         → idle timeout, warning length and lock-on-hidden for the code
+ * - hasAccessCodes                 → false until the first code is added — the gate then explains how
+ *
+ * Codes live in src/data/accessCodes.json as salted PBKDF2 hashes — add one with
+ * `npm run hash-code -- <code> --role presenter`. The check still runs in the browser,
+ * so a short code can be brute-forced from its hash; use long codes for anything sensitive.
+ */
+import accessCodes from "../data/accessCodes.json";
+
+export const ROLES = ["learner", "presenter", "author"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission = "export" | "present" | "edit" | "import" | "audit";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  learner:   [],
+  presenter: ["export", "present"],
+  author:    ["export", "present", "edit", "import", "audit"],
+};
+
+export interface AccessCodeEntry {
+  label: string;
+  role: Role;
+  /** Deck ids the code opens; every deck when omitted */
+  decks?: string[];
+  /** Last day the code works, "YYYY-MM-DD" */
+  expires?: string;
+  /** Minutes without input before the session locks; 0 never locks. DEFAULT_IDLE_MINUTES when omitted */
+  idleMinutes?: number;
+  /** Lock as soon as the tab is hidden — for shared classroom and kiosk machines */
+  lockOnHidden?: boolean;
+  iterations: number;
+  salt: string;
+  hash: string;
+}
+
+export interface AccessSession {
+  label: string;
+  role: Role;
+  decks: string[] | null;
+  idleMinutes: number;
+  lockOnHidden: boolean;
+  unlockedAt: string;
+}
+
+export interface SessionPolicy {
+  /** null when the session never locks by itself */
+  idleMs: number | null;
+  warningMs: number;
+  lockOnHidden: boolean;
+}
+
+export const DEFAULT_IDLE_MINUTES = 20;
+const WARNING_MS = 60_000;
+
+export type AccessResult =
+  | { ok: true; session: AccessSession }
+  | { ok: false; reason: "invalid" }
+  | { ok: false; reason: "expired"; entry: AccessCodeEntry };
+
+const isEntry = (e: Partial<AccessCodeEntry>): e is AccessCodeEntry =>
+  typeof e.label === "string" && ROLES.includes(e.role as Role) &&
+  typeof e.salt === "string" && typeof e.hash === "string" && typeof e.iterations === "number";
+
+// Malformed entries are dropped rather than crashing the gate
+const entries: AccessCodeEntry[] = (accessCodes as Partial<AccessCodeEntry>[]).filter(isEntry);
+
+export const hasAccessCodes = entries.length > 0;
+
+const fromHex = (hex: string) => new Uint8Array(hex.match(/../g)?.map((b) => parseInt(b, 16)) ?? []);
+const toHex = (bytes: ArrayBuffer) => [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, "0")).join("");
+
+async function hashCode(code: string, entry: AccessCodeEntry): Promise<string> {
+  if (!globalThis.crypto?.subtle) throw new Error("Web Crypto needs a secure context (HTTPS or localhost)");
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(code), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromHex(entry.salt), iterations: entry.iterations },
+    key,
+    256,
+  );
+  return toHex(bits);
+}
+
+export async function verifyAccessCode(code: string, now: Date): Promise<AccessResult> {
+  const trimmed = code.trim();
+  if (!trimmed) return { ok: false, reason: "invalid" };
+  for (const entry of entries) {
+    if ((await hashCode(trimmed, entry)) !== entry.hash) continue;
+    if (entry.expires && now > new Date(`${entry.expires}T23:59:59.999`)) return { ok: false, reason: "expired", entry };
+    return {
+      ok: true,
+      session: {
+        label: entry.label,
+        role: entry.role,
+        decks: entry.decks ?? null,
+        idleMinutes: entry.idleMinutes ?? DEFAULT_IDLE_MINUTES,
+        lockOnHidden: entry.lockOnHidden ?? false,
+        unlockedAt: now.toISOString(),
+      },
+    };
+  }
+  return { ok: false, reason: "invalid" };
+}
+
+export function can(session: AccessSession, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[session.role].includes(permission);
+}
+
+export function canOpenDeck(session: AccessSession, deckId: string): boolean {
+  return session.decks === null || session.decks.includes(deckId);
+}
+
+export function sessionPolicy(session: AccessSession): SessionPolicy {
+  const idleMs = session.idleMinutes > 0 ? session.idleMinutes * 60_000 : null;
+  return {
+    idleMs,
+    // Short timeouts get a proportionally short warning
+    warningMs: idleMs === null ? 0 : Math.min(WARNING_MS, idleMs / 4),
+    lockOnHidden: session.lockOnHidden,
+  };
+}
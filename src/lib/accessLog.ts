@@ -0,0 +1,101 @@
+/**
+ * accessLog.ts
+ * The gate's rate limit and a local audit log of unlock attempts, both in localStorage.
+ * - gateLockedUntil()                  → epoch ms until which attempts are refused (0 when open)
+ * - recordGateAttempt(outcome, entry)  → log the attempt and update the lockout; returns gateLockedUntil()
+ * - recordSessionLock(session, reason) → log a session locking itself (idle timeout, hidden tab)
+ * - loadAuditLog()                     → AuditEntry[], newest first
+ * - downloadAuditLog()                 → save the log as elexico-access-log.csv
+ *
+ * The code typed in is never stored — only which configured code (by label) matched.
+ */
+import type { AccessSession, Role } from "./access";
+
+const LIMIT_KEY = "elexico:gate";
+const AUDIT_KEY = "elexico:audit";
+
+/** Failures allowed before the first lockout; each one after that doubles it */
+const FREE_ATTEMPTS = 3;
+const BASE_LOCK_MS = 30_000;
+const MAX_LOCK_MS = 15 * 60_000;
+const MAX_AUDIT_ENTRIES = 500;
+
+export type AuditOutcome = "unlocked" | "rejected" | "expired" | "locked";
+
+export type LockReason = "idle" | "hidden";
+
+export interface AuditEntry {
+  at: string;
+  outcome: AuditOutcome;
+  label?: string;
+  role?: Role;
+  reason?: LockReason;
+}
+
+interface GateLimit {
+  failures: number;
+  lockedUntil: number;
+}
+
+function loadLimit(): GateLimit {
+  try {
+    const raw = localStorage.getItem(LIMIT_KEY);
+    return raw ? (JSON.parse(raw) as GateLimit) : { failures: 0, lockedUntil: 0 };
+  } catch {
+    return { failures: 0, lockedUntil: 0 };
+  }
+}
+
+export function gateLockedUntil(): number {
+  return loadLimit().lockedUntil;
+}
+
+export function loadAuditLog(): AuditEntry[] {
+  try {
+    const raw = localStorage.getItem(AUDIT_KEY);
+    return raw ? (JSON.parse(raw) as AuditEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function appendAudit(entry: AuditEntry) {
+  try {
+    localStorage.setItem(AUDIT_KEY, JSON.stringify([entry, ...loadAuditLog()].slice(0, MAX_AUDIT_ENTRIES)));
+  } catch { /* storage full or disabled — the attempt goes unlogged */ }
+}
+
+export function recordGateAttempt(outcome: Exclude<AuditOutcome, "locked">, entry?: { label: string; role: Role }): number {
+  const now = Date.now();
+  const prev = loadLimit();
+  const failures = outcome === "unlocked" ? 0 : prev.failures + 1;
+  const over = failures - FREE_ATTEMPTS;
+  const limit: GateLimit = {
+    failures,
+    lockedUntil: over >= 0 ? now + Math.min(MAX_LOCK_MS, BASE_LOCK_MS * 2 ** over) : 0,
+  };
+  try {
+    localStorage.setItem(LIMIT_KEY, JSON.stringify(limit));
+  } catch { /* storage full or disabled — the lockout still applies until reload */ }
+  appendAudit({ at: new Date(now).toISOString(), outcome, label: entry?.label, role: entry?.role });
+  return limit.lockedUntil;
+}
+
+export function recordSessionLock(session: AccessSession, reason: LockReason) {
+  appendAudit({ at: new Date().toISOString(), outcome: "locked", label: session.label, role: session.role, reason });
+}
+
+export function downloadAuditLog() {
+  const rows = [
+    ["Time", "Outcome", "Code", "Role", "Reason"],
+    ...loadAuditLog().map((e) => [e.at, e.outcome, e.label ?? "", e.role ?? "", e.reason ?? ""]),
+  ];
+  const csv = rows.map((r) => r.map((v) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v)).join(",")).join("\n");
+  const blob = new Blob([csv], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = "elexico-access-log.csv";
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,55 @@
+/**
+ * autoPlay.ts
+ * Kiosk auto-play: each slide is read aloud, held on screen for a dwell time, then the next one follows.
+ * Settings belong to the device (a lobby screen keeps its own), not to a deck. What is read comes from lib/narration.ts.
+ * - loadAutoPlaySettings()     → saved settings, or the defaults
+ * - saveAutoPlaySettings(s)    → persists them
+ */
+
+export interface AutoPlaySettings {
+  /** Seconds a slide stays up after its narration ends */
+  dwellSeconds: number;
+  /** Open the deep dive while the slide dwells */
+  openDeepDive: boolean;
+  /** Start again from the first slide after the last one */
+  loop: boolean;
+  /** Seconds without input before a pause caused by someone touching the screen ends — 0 waits for Resume */
+  resumeAfterSeconds: number;
+}
+
+export const DEFAULT_AUTOPLAY_SETTINGS: AutoPlaySettings = {
+  dwellSeconds: 8,
+  openDeepDive: false,
+  loop: true,
+  resumeAfterSeconds: 60,
+};
+
+export const MIN_DWELL_SECONDS = 2;
+export const MAX_DWELL_SECONDS = 60;
+export const RESUME_AFTER_OPTIONS = [0, 30, 60, 120];
+
+const STORAGE_KEY = "elexico:autoplay";
+
+export function loadAutoPlaySettings(): AutoPlaySettings {
+  const settings = { ...DEFAULT_AUTOPLAY_SETTINGS };
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<AutoPlaySettings> | null;
+    if (!saved || typeof saved !== "object") return settings;
+    const dwell = saved.dwellSeconds;
+    if (typeof dwell === "number" && Number.isFinite(dwell)) {
+      settings.dwellSeconds = Math.min(MAX_DWELL_SECONDS, Math.max(MIN_DWELL_SECONDS, Math.round(dwell)));
+    }
+    if (typeof saved.openDeepDive === "boolean") settings.openDeepDive = saved.openDeepDive;
+    if (typeof saved.loop === "boolean") settings.loop = saved.loop;
+    if (typeof saved.resumeAfterSeconds === "number" && RESUME_AFTER_OPTIONS.includes(saved.resumeAfterSeconds)) {
+      settings.resumeAfterSeconds = saved.resumeAfterSeconds;
+    }
+  } catch { /* unreadable — use the defaults */ }
+  return settings;
+}
+
+export function saveAutoPlaySettings(settings: AutoPlaySettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch { /* storage full or disabled — the settings last until reload */ }
+}
@@ -0,0 +1,30 @@
+/**
+ * codeFiles.ts
+ * A slide's code example as a list of named files, whichever way the deck wrote it.
+ * - getCodeFiles(slide)    → codeFiles, or the single codeSnippet wrapped as one file
+ * - fileNameFor(language)  → default file name, e.g. "query.sql"
+ */
+import type { CodeFile, Slide } from "../data/slides";
+
+export const CODE_LANGUAGES = ["javascript", "typescript", "sql", "http", "json", "bash", "python"];
+
+const FILE_NAMES: Record<string, string> = {
+  javascript: "app.js",
+  typescript: "app.ts",
+  sql:        "query.sql",
+  http:       "request.http",
+  json:       "data.json",
+  bash:       "script.sh",
+  python:     "main.py",
+};
+
+export function fileNameFor(language?: string): string {
+  return (language && FILE_NAMES[language]) ?? "snippet.txt";
+}
+
+export function getCodeFiles(slide: Slide): CodeFile[] {
+  if (slide.codeFiles?.length) return slide.codeFiles;
+  if (!slide.codeSnippet) return [];
+  const language = slide.codeLanguage ?? "";
+  return [{ name: fileNameFor(language), language, code: slide.codeSnippet }];
+}
@@ -0,0 +1,42 @@
+/**
+ * coursePlaylist.ts
+ * "Listen to the course": the narration of a run of slides, queued a sentence at a time so the
+ * mini player can skip a sentence or a whole slide.
+ * - buildPlaylist(slides, from, to)  → one item per slide from…to (0-based, inclusive)
+ * - nextPosition(queue, at, unit)    → where skipping a sentence or a slide lands, or null past the end
+ * - SLEEP_MINUTES                    → the sleep timer choices; a timer can also end with the slide
+ */
+import type { Slide } from "../data/slides";
+import { narrationSentences } from "./narration";
+
+export interface PlaylistItem {
+  slideIndex: number;
+  title: string;
+  sentences: string[];
+}
+
+export interface PlaylistPosition {
+  item: number;
+  sentence: number;
+}
+
+export type SleepTimer = { kind: "minutes"; minutes: number; endsAt: number } | { kind: "slide" };
+
+export const SLEEP_MINUTES = [5, 15, 30, 60];
+
+export function buildPlaylist(slides: Slide[], from: number, to: number): PlaylistItem[] {
+  const first = Math.max(0, Math.min(from, to));
+  const last = Math.min(slides.length - 1, Math.max(from, to));
+  return slides.slice(first, last + 1).map((slide, i) => ({
+    slideIndex: first + i,
+    title: slide.title,
+    sentences: narrationSentences(slide),
+  })).filter((item) => item.sentences.length > 0);
+}
+
+export function nextPosition(queue: PlaylistItem[], at: PlaylistPosition, unit: "sentence" | "slide"): PlaylistPosition | null {
+  const next = unit === "sentence" && at.sentence + 1 < (queue[at.item]?.sentences.length ?? 0)
+    ? { item: at.item, sentence: at.sentence + 1 }
+    : { item: at.item + 1, sentence: 0 };
+  return next.item < queue.length ? next : null;
+}
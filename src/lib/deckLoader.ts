@@ -0,0 +1,510 @@
+/**
+ * deckLoader.ts
+ * Turns deck files (JSON or Markdown with front-matter) into validated `Deck` objects.
+ * - parseDeckFile(source, fileName) → { ok: true, deck } | { ok: false, issues }
+ * - validateDeck(raw)               → same result shape, for already-parsed objects
+ * - formatIssue(issue)              → "Slide 3 · stats[1].value — must be a non-empty string"
+ *
+ * Markdown layout (see src/data/decks/databases.md for a full example):
+ *
+ *   ---                          ← deck front-matter
+ *   id: databases
+ *   title: Databases
+ *   themeColor: "#d97706"
+ *   ---
+ *   ## Slide title               ← every H2 starts a slide
+ *   icon: Database               ← `key: value` slide fields
+ *   widgets: jwt                 ← comma-separated widget names
+ *   ### Key Points               ← H3 sections hold the longer fields
+ *   - one bullet per item
+ *   ### Quiz                     ← a ```json list of quiz items (see QuizItem)
+ */
+import type { Slide, SlideKeyPoint, SlideTech, RichBlock, RichContent, CodeFile, QuizItem } from "../data/slides";
+import type { Deck } from "../data/decks";
+import { iconMap } from "../data/icons";
+import { widgetMap } from "../data/widgets";
+import { CODE_LANGUAGES, fileNameFor } from "./codeFiles";
+import { QUIZ_TYPES, blankCount, findDeepDiveBlock } from "./quiz";
+import { toRichBlocks } from "./richContent";
+
+export interface DeckIssue {
+  /** 1-based slide position, absent for deck-level problems */
+  slide?: number;
+  field: string;
+  message: string;
+}
+
+export type DeckLoadResult =
+  | { ok: true; deck: Deck }
+  | { ok: false; issues: DeckIssue[] };
+
+export function formatIssue(issue: DeckIssue): string {
+  const where = issue.slide ? `Slide ${issue.slide} · ${issue.field}` : issue.field;
+  return `${where} — ${issue.message}`;
+}
+
+// ─── Entry point ──────────────────────────────────────────────────────────────
+export function parseDeckFile(source: string, fileName: string): DeckLoadResult {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".json")) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(source);
+    } catch (err) {
+      return { ok: false, issues: [{ field: fileName, message: `invalid JSON: ${(err as Error).message}` }] };
+    }
+    return validateDeck(raw);
+  }
+  if (lower.endsWith(".md") || lower.endsWith(".markdown")) {
+    const issues: DeckIssue[] = [];
+    const raw = markdownToRawDeck(source, issues);
+    if (issues.length) return { ok: false, issues };
+    return validateDeck(raw);
+  }
+  return { ok: false, issues: [{ field: fileName, message: "unsupported file type — use .json or .md" }] };
+}
+
+// ─── Markdown → plain object ─────────────────────────────────────────────────
+const SECTION_FIELDS: Record<string, keyof Slide> = {
+  "description":        "description",
+  "key points":         "keyPoints",
+  "stats":              "stats",
+  "tech stack":         "techStack",
+  "real-world example": "realWorldExample",
+  "real world example": "realWorldExample",
+  "ai insight":         "aiInsight",
+  "deep dive":          "deepDive",
+  "code":               "codeSnippet",
+  "sql seed":           "sqlSeed",
+  "chat suggestions":   "chatSuggestions",
+  "quiz":               "quiz",
+  "speaker notes":      "speakerNotes",
+};
+
+const LIST_FIELDS = new Set<keyof Slide>(["keyPoints", "chatSuggestions"]);
+const PAIR_FIELDS: Partial<Record<keyof Slide, [string, string]>> = {
+  stats:     ["label", "value"],
+  techStack: ["name", "color"],
+};
+
+function unquote(value: string): string {
+  const v = value.trim();
+  if (v.length >= 2 && (v[0] === '"' || v[0] === "'") && v[v.length - 1] === v[0]) return v.slice(1, -1);
+  return v;
+}
+
+/** Split "key: value" at the first colon followed by a space (URLs keep their "://") */
+function splitPair(line: string): [string, string] | null {
+  const idx = line.search(/:\s/);
+  if (idx <= 0) return null;
+  return [line.slice(0, idx).trim(), unquote(line.slice(idx + 1))];
+}
+
+function parseListItems(body: string): string[] {
+  return body
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => /^[-*]\s+/.test(l))
+    .map((l) => l.replace(/^[-*]\s+/, "").trim());
+}
+
+function markdownToRawDeck(source: string, issues: DeckIssue[]): Record<string, unknown> {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const deck: Record<string, unknown> = {};
+  let i = 0;
+
+  // Deck front-matter
+  while (i < lines.length && !lines[i].trim()) i++;
+  if (lines[i]?.trim() === "---") {
+    i++;
+    while (i < lines.length && lines[i].trim() !== "---") {
+      const line = lines[i].trim();
+      if (line && !line.startsWith("#")) {
+        const pair = splitPair(line);
+        if (pair) deck[pair[0]] = pair[1];
+        else issues.push({ field: `front-matter line ${i + 1}`, message: `expected "key: value", got "${line}"` });
+      }
+      i++;
+    }
+    if (i >= lines.length) issues.push({ field: "front-matter", message: "missing closing ---" });
+    i++;
+  } else {
+    issues.push({ field: "front-matter", message: "deck file must start with a --- front-matter block" });
+  }
+
+  const slides: Record<string, unknown>[] = [];
+  let slide: Record<string, unknown> | null = null;
+  let section: { field: keyof Slide | null; name: string; lines: string[] } | null = null;
+  let inFence = false;
+
+  const flushSection = () => {
+    if (!slide || !section) return;
+    const body = section.lines.join("\n").trim();
+    const { field } = section;
+    section = null;
+    if (!field) return;
+    if (field === "codeSnippet") {
+      // ```lang name.ext — one unnamed fence stays a codeSnippet, anything more becomes codeFiles
+      const fences = [...body.matchAll(/^```([\w-]*)[ \t]*(\S*)[ \t]*\n([\s\S]*?)\n```$/gm)];
+      if (fences.length === 1 && !fences[0][2]) {
+        if (fences[0][1]) slide.codeLanguage = fences[0][1];
+        slide.codeSnippet = fences[0][3];
+      } else if (fences.length) {
+        slide.codeFiles = fences.map(([, language, name, code]) => ({ name: name || fileNameFor(language), language, code }));
+      } else {
+        slide.codeSnippet = body;
+      }
+    } else if (field === "sqlSeed") {
+      slide.sqlSeed = body.match(/^```[\w-]*\n([\s\S]*?)\n```$/)?.[1] ?? body;
+    } else if (field === "quiz") {
+      try {
+        slide.quiz = JSON.parse(body.match(/^```[\w-]*\n([\s\S]*?)\n```$/)?.[1] ?? body);
+      } catch (err) {
+        issues.push({ slide: slides.length, field: "Quiz", message: `expected a JSON list of questions: ${(err as Error).message}` });
+      }
+    } else if (LIST_FIELDS.has(field)) {
+      slide[field] = parseListItems(body);
+    } else if (PAIR_FIELDS[field]) {
+      const [k, v] = PAIR_FIELDS[field];
+      slide[field] = parseListItems(body).map((item) => {
+        const pair = splitPair(item);
+        return pair ? { [k]: pair[0], [v]: pair[1] } : { [k]: item };
+      });
+    } else {
+      slide[field] = body;
+    }
+  };
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim().startsWith("```")) inFence = !inFence;
+
+    if (!inFence && /^##\s+/.test(line)) {
+      flushSection();
+      slide = { title: line.replace(/^##\s+/, "").trim() };
+      slides.push(slide);
+      continue;
+    }
+    if (!slide) {
+      if (line.trim()) issues.push({ field: `line ${i + 1}`, message: "content before the first \"## \" slide heading" });
+      continue;
+    }
+    if (!inFence && /^###\s+/.test(line)) {
+      flushSection();
+      const name = line.replace(/^###\s+/, "").trim();
+      const field = SECTION_FIELDS[name.toLowerCase()] ?? null;
+      if (!field) {
+        issues.push({ slide: slides.length, field: name, message: `unknown section — expected one of: ${Object.keys(SECTION_FIELDS).join(", ")}` });
+      }
+      section = { field, name, lines: [] };
+      continue;
+    }
+    if (section) {
+      section.lines.push(line);
+      continue;
+    }
+    // `key: value` slide fields between the H2 and the first H3
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const pair = splitPair(trimmed);
+    if (pair) {
+      const [key, value] = pair;
+      slide[key] = key === "id" ? Number(value) : key === "widgets" ? value.split(",").map((w) => w.trim()) : value;
+    }
+    else issues.push({ slide: slides.length, field: `line ${i + 1}`, message: `expected "key: value", got "${trimmed}"` });
+  }
+  flushSection();
+
+  deck.slides = slides;
+  return deck;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isText(v: unknown): v is string {
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+export function validateDeck(raw: unknown): DeckLoadResult {
+  const issues: DeckIssue[] = [];
+  if (!isRecord(raw)) return { ok: false, issues: [{ field: "deck", message: "must be an object" }] };
+
+  if (!isText(raw.id) || !/^[a-z0-9-]+$/.test(raw.id)) {
+    issues.push({ field: "id", message: "must be a lowercase slug such as \"databases\"" });
+  }
+  if (!isText(raw.title)) issues.push({ field: "title", message: "must be a non-empty string" });
+  if (!isText(raw.themeColor) || !HEX_COLOR.test(raw.themeColor)) {
+    issues.push({ field: "themeColor", message: "must be a hex colour such as \"#2563eb\"" });
+  }
+  if (raw.description !== undefined && typeof raw.description !== "string") {
+    issues.push({ field: "description", message: "must be a string" });
+  }
+
+  const slides: Slide[] = [];
+  if (!Array.isArray(raw.slides) || raw.slides.length === 0) {
+    issues.push({ field: "slides", message: "must be a non-empty list of slides" });
+  } else {
+    const seenIds = new Set<number>();
+    raw.slides.forEach((s, i) => {
+      const slide = validateSlide(s, i, issues);
+      if (!slide) return;
+      if (seenIds.has(slide.id)) issues.push({ slide: i + 1, field: "id", message: `duplicate slide id ${slide.id}` });
+      seenIds.add(slide.id);
+      slides.push(slide);
+    });
+  }
+
+  if (issues.length) return { ok: false, issues };
+  return {
+    ok: true,
+    deck: {
+      id: raw.id as string,
+      title: raw.title as string,
+      description: (raw.description as string | undefined) ?? "",
+      themeColor: raw.themeColor as string,
+      slides,
+    },
+  };
+}
+
+const CALLOUT_TONES = ["tip", "note", "warning"];
+
+/** Describe what is wrong with a deep-dive block, or null if it is well formed */
+function richBlockProblem(block: unknown): string | null {
+  if (!isRecord(block)) return "must be an object with a type";
+  const textList = (v: unknown) => Array.isArray(v) && v.length > 0 && v.every(isText);
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+      return isText(block.text) ? null : `${block.type} needs non-empty text`;
+    case "bullets":
+    case "numbered":
+      if (!textList(block.items)) return `${block.type} needs a non-empty list of text items`;
+      if (block.type === "numbered" && block.start !== undefined && (typeof block.start !== "number" || block.start < 0)) {
+        return "numbered start must be a non-negative number";
+      }
+      return null;
+    case "callout":
+      if (!isText(block.text)) return "callout needs non-empty text";
+      if (block.tone !== undefined && !CALLOUT_TONES.includes(block.tone as string)) {
+        return `callout tone must be one of: ${CALLOUT_TONES.join(", ")}`;
+      }
+      return null;
+    case "code":
+      return isText(block.code) ? null : "code needs non-empty code";
+    case "image":
+      return isText(block.src) && typeof block.alt === "string" ? null : "image needs a src and alt text";
+    case "table": {
+      if (!textList(block.headers)) return "table needs a non-empty list of headers";
+      const width = (block.headers as string[]).length;
+      if (!Array.isArray(block.rows) || !block.rows.every((r) => Array.isArray(r) && r.length === width && r.every((c) => typeof c === "string"))) {
+        return `table rows must be lists of ${width} text cells`;
+      }
+      return null;
+    }
+    default:
+      return `unknown block type "${String(block.type)}" — expected heading, paragraph, bullets, numbered, callout, code, image or table`;
+  }
+}
+
+/** Describe what is wrong with a quiz item, or null if it is well formed */
+function quizItemProblem(item: unknown): string | null {
+  if (!isRecord(item)) return "must be an object with a type and question";
+  if (!isText(item.question)) return "needs a non-empty question";
+  if (item.explanation !== undefined && !isText(item.explanation)) return "explanation must be non-empty text when present";
+  if (item.deepDiveRef !== undefined && !isText(item.deepDiveRef)) return "deepDiveRef must be non-empty text when present";
+  const textList = (v: unknown, min: number) => Array.isArray(v) && v.length >= min && v.every(isText);
+  switch (item.type) {
+    case "multiple-choice":
+      if (!textList(item.options, 2)) return "multiple-choice needs at least 2 text options";
+      if (typeof item.answer !== "number" || !Number.isInteger(item.answer) || item.answer < 0 || item.answer >= (item.options as string[]).length) {
+        return "multiple-choice answer must be the index of one of its options";
+      }
+      return null;
+    case "true-false":
+      return typeof item.answer === "boolean" ? null : "true-false answer must be true or false";
+    case "ordering":
+      if (!textList(item.items, 2)) return "ordering needs at least 2 text items, in the correct order";
+      return new Set(item.items as string[]).size === (item.items as string[]).length ? null : "ordering items must be unique";
+    case "fill-blank": {
+      if (!isText(item.code)) return "fill-blank needs code with ___ blanks";
+      const blanks = blankCount(item.code);
+      if (blanks === 0) return "fill-blank code has no ___ blanks";
+      if (!textList(item.answers, 1) || (item.answers as string[]).length !== blanks) {
+        return `fill-blank needs one answer per blank — ${blanks} blank(s) in the code`;
+      }
+      return null;
+    }
+    default:
+      return `unknown quiz type "${String(item.type)}" — expected one of: ${QUIZ_TYPES.join(", ")}`;
+  }
+}
+
+function validateSlide(raw: unknown, index: number, issues: DeckIssue[]): Slide | null {
+  const at = (field: string, message: string) => issues.push({ slide: index + 1, field, message });
+  if (!isRecord(raw)) {
+    at("slide", "must be an object");
+    return null;
+  }
+  const before = issues.length;
+
+  const text = (field: string): string => {
+    const v = raw[field];
+    if (!isText(v)) {
+      at(field, "must be a non-empty string");
+      return "";
+    }
+    return v;
+  };
+  const optionalText = (field: string): string | undefined => {
+    const v = raw[field];
+    if (v === undefined) return undefined;
+    if (!isText(v)) at(field, "must be a non-empty string when present");
+    return v as string;
+  };
+  const richContent = (field: string): RichContent => {
+    const v = raw[field];
+    if (isText(v)) return v;
+    if (!Array.isArray(v) || v.length === 0) {
+      at(field, "must be non-empty text or a list of content blocks");
+      return "";
+    }
+    v.forEach((block, j) => {
+      const problem = richBlockProblem(block);
+      if (problem) at(`${field}[${j}]`, problem);
+    });
+    return v as RichBlock[];
+  };
+  const textList = (field: string, minItems: number): string[] => {
+    const v = raw[field];
+    if (!Array.isArray(v) || v.length < minItems) {
+      at(field, minItems > 0 ? `must be a list with at least ${minItems} item(s)` : "must be a list");
+      return [];
+    }
+    v.forEach((item, j) => { if (!isText(item)) at(`${field}[${j}]`, "must be a non-empty string"); });
+    return v as string[];
+  };
+
+  let id = index + 1;
+  if (raw.id !== undefined) {
+    if (typeof raw.id !== "number" || !Number.isInteger(raw.id) || raw.id < 1) at("id", "must be a positive whole number");
+    else id = raw.id;
+  }
+
+  const icon = text("icon");
+  if (icon && !Object.hasOwn(iconMap, icon)) at("icon", `unknown icon "${icon}" — expected one of: ${Object.keys(iconMap).join(", ")}`);
+
+  const color = text("color");
+  if (color && !HEX_COLOR.test(color)) at("color", `"${color}" is not a hex colour such as "#2563eb"`);
+
+  const stats: SlideKeyPoint[] = [];
+  if (!Array.isArray(raw.stats)) {
+    at("stats", "must be a list of { label, value } items");
+  } else {
+    raw.stats.forEach((s, j) => {
+      if (!isRecord(s) || !isText(s.label) || !isText(s.value)) {
+        at(`stats[${j}]`, "must have a non-empty label and value");
+        return;
+      }
+      stats.push({ label: s.label, value: s.value });
+    });
+  }
+
+  const techStack: SlideTech[] = [];
+  if (!Array.isArray(raw.techStack)) {
+    at("techStack", "must be a list of { name, color } items");
+  } else {
+    raw.techStack.forEach((t, j) => {
+      if (!isRecord(t) || !isText(t.name)) {
+        at(`techStack[${j}].name`, "must be a non-empty string");
+        return;
+      }
+      if (!isText(t.color) || !HEX_COLOR.test(t.color)) {
+        at(`techStack[${j}].color`, "must be a hex colour such as \"#2563eb\"");
+        return;
+      }
+      techStack.push({ name: t.name, color: t.color });
+    });
+  }
+
+  const codeLanguage = optionalText("codeLanguage");
+  if (codeLanguage && !CODE_LANGUAGES.includes(codeLanguage)) {
+    at("codeLanguage", `unknown language "${codeLanguage}" — expected one of: ${CODE_LANGUAGES.join(", ")}`);
+  }
+
+  let codeFiles: CodeFile[] | undefined;
+  if (raw.codeFiles !== undefined) {
+    const files: CodeFile[] = [];
+    codeFiles = files;
+    if (!Array.isArray(raw.codeFiles) || raw.codeFiles.length === 0) {
+      at("codeFiles", "must be a non-empty list of { name, language, code } items");
+    } else {
+      raw.codeFiles.forEach((f, j) => {
+        if (!isRecord(f) || !isText(f.name) || !isText(f.code)) {
+          at(`codeFiles[${j}]`, "must have a non-empty name and code");
+          return;
+        }
+        if (!isText(f.language) || !CODE_LANGUAGES.includes(f.language)) {
+          at(`codeFiles[${j}].language`, `must be one of: ${CODE_LANGUAGES.join(", ")}`);
+          return;
+        }
+        files.push({ name: f.name, language: f.language, code: f.code });
+      });
+    }
+  }
+
+  const slide: Slide = {
+    id,
+    title: text("title"),
+    summary: text("summary"),
+    subtitle: text("subtitle"),
+    color,
+    icon,
+    description: text("description"),
+    keyPoints: textList("keyPoints", 1),
+    stats,
+    techStack,
+    imageUrl: text("imageUrl"),
+    diagramAlt: text("diagramAlt"),
+    realWorldExample: text("realWorldExample"),
+    deepDive: richContent("deepDive"),
+    aiInsight: text("aiInsight"),
+    chatSuggestions: textList("chatSuggestions", 0),
+    codeSnippet: optionalText("codeSnippet"),
+    codeLanguage,
+    codeFiles,
+    sqlSeed: optionalText("sqlSeed"),
+    widgets: raw.widgets === undefined ? undefined : textList("widgets", 1),
+    quiz: raw.quiz === undefined ? undefined : (raw.quiz as QuizItem[]),
+    speakerNotes: optionalText("speakerNotes"),
+  };
+  slide.widgets?.forEach((w, j) => {
+    if (w && !Object.hasOwn(widgetMap, w)) at(`widgets[${j}]`, `unknown widget "${w}" — expected one of: ${Object.keys(widgetMap).join(", ")}`);
+  });
+  if (raw.quiz !== undefined) {
+    if (!Array.isArray(raw.quiz) || raw.quiz.length === 0) {
+      at("quiz", "must be a non-empty list of questions");
+    } else {
+      // Feedback links need a deep dive that parsed cleanly
+      const deepDiveOk = !issues.slice(before).some((issue) => issue.field.startsWith("deepDive"));
+      const blocks = deepDiveOk ? toRichBlocks(slide.deepDive) : [];
+      raw.quiz.forEach((item, j) => {
+        const problem = quizItemProblem(item);
+        const ref = (item as QuizItem).deepDiveRef;
+        if (problem) at(`quiz[${j}]`, problem);
+        else if (ref && blocks.length && findDeepDiveBlock(blocks, ref) < 0) {
+          at(`quiz[${j}].deepDiveRef`, `"${ref}" does not appear in the deep dive`);
+        }
+      });
+    }
+  }
+  if (slide.codeLanguage && !slide.codeSnippet) at("codeLanguage", "set without a codeSnippet");
+  if (slide.codeFiles && slide.codeSnippet) at("codeFiles", "use either codeSnippet or codeFiles, not both");
+
+  return issues.length === before ? slide : null;
+}
@@ -0,0 +1,46 @@
+/**
+ * draftDecks.ts
+ * Local drafts written by the slide editor.
+ * - loadDraft(deckId)  → the saved draft, or null if none / not a valid deck
+ * - saveDraft(deck)    → persist the whole deck to localStorage
+ * - clearDraft(deckId) → throw the draft away
+ * - downloadDeckFile(deck) → save the deck as <id>.json, loadable by deckLoader
+ */
+import type { Deck } from "../data/decks";
+import { validateDeck } from "./deckLoader";
+
+const KEY_PREFIX = "elexico:draft:";
+
+export function loadDraft(deckId: string): Deck | null {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + deckId);
+    if (!raw) return null;
+    // A draft saved mid-edit can be invalid — it is not shown; the next save from the editor replaces it
+    const result = validateDeck(JSON.parse(raw));
+    return result.ok ? result.deck : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveDraft(deck: Deck) {
+  try {
+    localStorage.setItem(KEY_PREFIX + deck.id, JSON.stringify(deck));
+  } catch { /* storage full or disabled — draft stays in memory only */ }
+}
+
+export function clearDraft(deckId: string) {
+  try {
+    localStorage.removeItem(KEY_PREFIX + deckId);
+  } catch { /* storage disabled — nothing was saved */ }
+}
+
+export function downloadDeckFile(deck: Deck) {
+  const blob = new Blob([JSON.stringify(deck, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${deck.id}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
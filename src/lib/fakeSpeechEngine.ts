@@ -0,0 +1,114 @@
+/**
+ * fakeSpeechEngine.ts
+ * A silent, deterministic engine for development and machines without voices: every word takes
+ * the same time, and recognition hears exactly what hear() is given. The project has no test
+ * runner yet, so nothing drives it automatically — it is the seam a future hook test would use.
+ * - createFakeSpeechEngine({ msPerWord?, voices? }) → SpeechEngine plus
+ *     spoken      every text passed to speak(), in order
+ *     hear(text)  delivers a final transcript to whoever is listening
+ */
+import type { RecognizeCallbacks, SpeechEngine, SpeechError, SpeechVoice } from "./speechEngine";
+
+export interface FakeSpeechEngine extends SpeechEngine {
+  readonly spoken: string[];
+  hear(text: string): void;
+}
+
+const FAKE_VOICES: SpeechVoice[] = [
+  { id: "fake-en-IN", name: "Fake voice (India)", lang: "en-IN" },
+  { id: "fake-en-GB", name: "Fake voice (UK)", lang: "en-GB" },
+];
+
+interface Playing {
+  settle: (error?: SpeechError) => void;
+  pause: () => void;
+  resume: () => void;
+}
+
+export function createFakeSpeechEngine({ msPerWord = 300, voices = FAKE_VOICES }: { msPerWord?: number; voices?: SpeechVoice[] } = {}): FakeSpeechEngine {
+  const spoken: string[] = [];
+  let current: Playing | null = null;
+  let listener: RecognizeCallbacks | null = null;
+
+  const interrupt = () => current?.settle("interrupted");
+
+  const endListening = () => {
+    const callbacks = listener;
+    listener = null;
+    callbacks?.onEnd?.();
+  };
+
+  return {
+    name: "Silent test voice",
+    spoken,
+
+    speak(text, _options, callbacks) {
+      interrupt();
+      spoken.push(text);
+      const wordStarts = [...text.matchAll(/\S+/g)].map((m) => m.index);
+      let next = 0;
+      let paused = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      // Starts at once, then one word every msPerWord, then ends one word later
+      const step = () => {
+        if (next === 0) callbacks.onStart?.();
+        if (next < wordStarts.length) {
+          callbacks.onBoundary?.(wordStarts[next++]);
+          timer = setTimeout(step, msPerWord);
+        } else {
+          entry.settle();
+        }
+      };
+
+      const entry: Playing = {
+        settle(error) {
+          if (current !== entry) return;
+          current = null;
+          clearTimeout(timer);
+          if (error) callbacks.onError?.(error);
+          else callbacks.onEnd?.();
+        },
+        pause() {
+          paused = true;
+          clearTimeout(timer);
+        },
+        resume() {
+          if (!paused) return;
+          paused = false;
+          timer = setTimeout(step, msPerWord);
+        },
+      };
+      current = entry;
+      timer = setTimeout(step, 0);
+
+      return {
+        cancel() {
+          if (current === entry) interrupt();
+        },
+      };
+    },
+
+    pause() { current?.pause(); },
+    resume() { current?.resume(); },
+    cancel: interrupt,
+
+    voices: async () => voices,
+
+    canRecognize: true,
+
+    recognize(_options, callbacks) {
+      endListening();
+      listener = callbacks;
+      return {
+        stop: () => { if (listener === callbacks) endListening(); },
+        abort: () => { if (listener === callbacks) endListening(); },
+      };
+    },
+
+    hear(text) {
+      listener?.onInterim?.(text);
+      listener?.onFinal?.(text);
+    },
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * flashcards.ts
+ * Flashcards generated from slide content, scheduled with SM-2 spaced repetition.
+ * - buildFlashcards(deck)              → one card per key point and stat, plus one per tech stack
+ * - dayKey(date)                       → "2026-03-14", the local calendar day used for due dates
+ * - scheduleReview(prev, grade, today) → the card's next CardSchedule (SM-2)
+ * - dueQueue(cards, schedule, today)   → cards due today, then up to NEW_PER_DAY unseen cards
+ * - nextIntervalLabel(prev, grade)     → "6d", shown on the grade buttons before answering
+ */
+import type { Deck } from "../data/decks";
+
+export type FlashcardKind = "key-point" | "stat" | "tech";
+
+export interface Flashcard {
+  /** Derived from the content, so editing a slide starts fresh cards instead of reusing old progress */
+  id: string;
+  slideId: number;
+  kind: FlashcardKind;
+  /** Shown under the slide's title, which gives the context */
+  prompt: string;
+  answer: string;
+}
+
+/** SM-2 state for one card */
+export interface CardSchedule {
+  reps: number;
+  intervalDays: number;
+  ease: number;
+  due: string;
+  firstSeen: string;
+  lastGrade: ReviewGrade;
+}
+
+/** SM-2 quality: 1 = forgot, 3 = hard, 4 = good, 5 = easy */
+export type ReviewGrade = 1 | 3 | 4 | 5;
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 1, label: "Again" },
+  { grade: 3, label: "Hard" },
+  { grade: 4, label: "Good" },
+  { grade: 5, label: "Easy" },
+];
+
+/** New cards introduced per day — a deck of ~70 cards is fully in rotation within the first week */
+export const NEW_PER_DAY = 10;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// "Term: explanation" / "Term — explanation" key points split naturally into a question and answer
+const KEY_POINT_SPLIT = /^(.{2,60}?)(?::| — | – )\s*(.+)$/;
+
+export function buildFlashcards(deck: Deck): Flashcard[] {
+  return deck.slides.flatMap((slide) => {
+    const cards: Flashcard[] = [];
+    slide.keyPoints.forEach((point) => {
+      const split = point.match(KEY_POINT_SPLIT);
+      const words = point.split(" ");
+      cards.push({
+        id: `${slide.id}:key-point:${point}`,
+        slideId: slide.id,
+        kind: "key-point",
+        // Without a term to ask about, show the opening words and ask for the rest
+        prompt: split ? split[1] : `${words.slice(0, Math.min(3, words.length - 1)).join(" ")} …`,
+        answer: split ? split[2] : point,
+      });
+    });
+    slide.stats.forEach((stat) => {
+      cards.push({
+        id: `${slide.id}:stat:${stat.label}:${stat.value}`,
+        slideId: slide.id,
+        kind: "stat",
+        prompt: `${stat.label}?`,
+        answer: stat.value,
+      });
+    });
+    if (slide.techStack.length > 0) {
+      const names = slide.techStack.map((t) => t.name);
+      cards.push({
+        id: `${slide.id}:tech:${names.join(",")}`,
+        slideId: slide.id,
+        kind: "tech",
+        prompt: `Name the ${names.length} technologies in this tech stack`,
+        answer: names.join(", "),
+      });
+    }
+    return cards;
+  });
+}
+
+export function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(day: string, days: number): string {
+  const [y, m, d] = day.split("-").map(Number);
+  return dayKey(new Date(y, m - 1, d + days));
+}
+
+function nextState(prev: CardSchedule | undefined, grade: ReviewGrade): Pick<CardSchedule, "reps" | "intervalDays" | "ease"> {
+  const ease = Math.max(MIN_EASE, (prev?.ease ?? INITIAL_EASE) + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+  // A lapse starts the card over; the review screen shows it again before the session ends
+  if (grade < 3) return { reps: 0, intervalDays: 1, ease };
+  const reps = (prev?.reps ?? 0) + 1;
+  const intervalDays = reps === 1 ? 1 : reps === 2 ? 6 : Math.round((prev?.intervalDays ?? 1) * ease);
+  return { reps, intervalDays, ease };
+}
+
+export function scheduleReview(prev: CardSchedule | undefined, grade: ReviewGrade, today: string): CardSchedule {
+  const next = nextState(prev, grade);
+  return {
+    ...next,
+    due: addDays(today, next.intervalDays),
+    firstSeen: prev?.firstSeen ?? today,
+    lastGrade: grade,
+  };
+}
+
+export function nextIntervalLabel(prev: CardSchedule | undefined, grade: ReviewGrade): string {
+  const { intervalDays } = nextState(prev, grade);
+  if (grade < 3) return "again";
+  return intervalDays >= 30 ? `${Math.round(intervalDays / 30)}mo` : `${intervalDays}d`;
+}
+
+export function dueQueue(cards: Flashcard[], schedule: Record<string, CardSchedule>, today: string): Flashcard[] {
+  const due = cards
+    .filter((c) => schedule[c.id] && schedule[c.id].due <= today)
+    .sort((a, b) => schedule[a.id].due.localeCompare(schedule[b.id].due));
+  const introducedToday = cards.filter((c) => schedule[c.id]?.firstSeen === today).length;
+  const fresh = cards.filter((c) => !schedule[c.id]).slice(0, Math.max(0, NEW_PER_DAY - introducedToday));
+  return [...due, ...fresh];
+}
@@ -0,0 +1,61 @@
+/**
+ * followAlong.ts
+ * The session protocol between the app and the classroom relay (scripts/follow-relay.mjs), which
+ * keeps learners' devices on the instructor's deck and slide. Every class has its own code.
+ *
+ *   app   → relay  host       { code, secret }   claim a class code; the secret lets the instructor reconnect
+ *   app   → relay  join       { code }           follow a class (it does not need to have started)
+ *   app   → relay  move       { position }       the instructor moved — hosts only
+ *   relay → app    hosted     { followers }
+ *   relay → app    followers  { count }          learners came or went — sent to the host
+ *   relay → app    joined     { position, instructorOnline }
+ *   relay → app    move       { position }
+ *   relay → app    host-left / host-back         the instructor disconnected / reconnected
+ *   relay → app    error      { reason }         "code-taken" | "bad-message"
+ *
+ * - RELAY_URL                   → VITE_FOLLOW_RELAY_URL, or port 8787 on the host that served the app (wss: from an https: page)
+ * - newClassCode()              → 6 characters without look-alikes (no 0/O, 1/I/L)
+ * - normalizeClassCode(input)   → the code in upper case, or null when the input cannot be one
+ * - newHostSecret()             → random secret for a host message
+ */
+
+export interface ClassPosition {
+  deckId: string;
+  /** 1-based, as in the URL */
+  slide: number;
+}
+
+export type ClientMessage =
+  | { type: "host"; code: string; secret: string }
+  | { type: "join"; code: string }
+  | { type: "move"; position: ClassPosition };
+
+export type RelayMessage =
+  | { type: "hosted"; followers: number }
+  | { type: "followers"; count: number }
+  | { type: "joined"; position: ClassPosition | null; instructorOnline: boolean }
+  | { type: "move"; position: ClassPosition }
+  | { type: "host-left" }
+  | { type: "host-back" }
+  | { type: "error"; reason: "code-taken" | "bad-message" };
+
+export const RELAY_URL = (import.meta.env.VITE_FOLLOW_RELAY_URL ||
+  `${window.location.protocol === "https:" ? "wss" : "ws"}://${window.location.hostname}:8787`) as string;
+
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+export function newClassCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+}
+
+export function normalizeClassCode(input: string): string | null {
+  const code = input.replace(/[\s-]/g, "").toUpperCase();
+  return /^[A-Z2-9]{4,8}$/.test(code) ? code : null;
+}
+
+// crypto.randomUUID() needs a secure context; a classroom often serves the app over plain http on the LAN
+export function newHostSecret(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
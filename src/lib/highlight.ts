@@ -0,0 +1,304 @@
+/**
+ * highlight.ts
+ * A small hand-written tokenizer for the code examples — no grammar files, no dependencies.
+ * - highlightLines(code, language) → Token[][] (one token list per source line)
+ *
+ * Supported: javascript, typescript, sql, http, json, bash, python. Anything else
+ * comes back as plain text so it still renders with line numbers.
+ */
+
+export type TokenKind =
+  | "plain"
+  | "keyword"
+  | "string"
+  | "number"
+  | "comment"
+  | "function"
+  | "property"
+  | "literal"
+  | "type"
+  | "variable"
+  | "punctuation";
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface LanguageSpec {
+  lineComments: string[];
+  blockComment?: [string, string];
+  /** Longest delimiters first, e.g. '"""' before '"' */
+  quotes: string[];
+  keywords: Set<string>;
+  literals: Set<string>;
+  types?: Set<string>;
+  /** SQL keywords match regardless of case */
+  caseInsensitive?: boolean;
+  /** Strings followed by ":" are object keys (JSON) */
+  keyedStrings?: boolean;
+  /** $VAR / ${VAR} and --flags (bash) */
+  shell?: boolean;
+  /** @decorator lines (python, typescript) */
+  decorators?: boolean;
+}
+
+const words = (s: string) => new Set(s.split(/\s+/).filter(Boolean));
+
+const JS_KEYWORDS =
+  "async await break case catch class const continue debugger default delete do else export extends finally for from function if import in instanceof let new of return static super switch this throw try typeof var void while with yield";
+
+const JAVASCRIPT: LanguageSpec = {
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ["`", '"', "'"],
+  keywords: words(JS_KEYWORDS),
+  literals: words("true false null undefined NaN Infinity"),
+  types: words("Promise Array Object String Number Boolean Map Set Date Error JSON Math console process require module exports"),
+};
+
+const TYPESCRIPT: LanguageSpec = {
+  ...JAVASCRIPT,
+  keywords: words(`${JS_KEYWORDS} abstract as declare enum implements interface keyof namespace private protected public readonly satisfies type`),
+  types: words("Promise Array Object String Number Boolean Map Set Date Error JSON Math Record Partial Readonly string number boolean unknown any never void console process"),
+  decorators: true,
+};
+
+const SQL: LanguageSpec = {
+  lineComments: ["--"],
+  blockComment: ["/*", "*/"],
+  quotes: ["'", '"'],
+  keywords: words(
+    "select from where join inner left right full outer cross on as and or not in is like between exists group by order having limit offset insert into values update set delete create table index view drop alter add column primary key foreign references unique default check constraint distinct union all case when then else end asc desc begin commit rollback transaction returning with",
+  ),
+  literals: words("null true false"),
+  types: words("int integer bigint smallint serial text varchar char boolean date timestamp timestamptz numeric decimal real float uuid json jsonb count sum avg min max coalesce now"),
+  caseInsensitive: true,
+};
+
+const JSON_SPEC: LanguageSpec = {
+  lineComments: [],
+  quotes: ['"'],
+  keywords: new Set(),
+  literals: words("true false null"),
+  keyedStrings: true,
+};
+
+const BASH: LanguageSpec = {
+  lineComments: ["#"],
+  quotes: ['"', "'"],
+  keywords: words("if then else elif fi for while until do done case esac in function return export local set unset source echo exit"),
+  literals: new Set(),
+  types: words("curl wget npm npx node git docker cd ls cat grep sudo psql"),
+  shell: true,
+};
+
+const PYTHON: LanguageSpec = {
+  lineComments: ["#"],
+  quotes: ['"""', "'''", '"', "'"],
+  keywords: words("and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield"),
+  literals: words("True False None"),
+  types: words("self cls int str float bool list dict set tuple print len range open"),
+  decorators: true,
+};
+
+const SPECS: Record<string, LanguageSpec> = {
+  javascript: JAVASCRIPT,
+  typescript: TYPESCRIPT,
+  sql: SQL,
+  json: JSON_SPEC,
+  bash: BASH,
+  python: PYTHON,
+};
+
+// ─── Generic scanner ──────────────────────────────────────────────────────────
+const IDENT = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /(0x[0-9a-f]+|\d[\d_]*(\.\d+)?(e[+-]?\d+)?)\b/iy;
+const SPACE = /\s+/y;
+
+function matchAt(re: RegExp, code: string, i: number): string | null {
+  re.lastIndex = i;
+  const m = re.exec(code);
+  return m ? m[0] : null;
+}
+
+/** Index just past the closing quote, honouring backslash escapes */
+function stringEnd(code: string, start: number, quote: string): number {
+  let i = start + quote.length;
+  while (i < code.length) {
+    if (code[i] === "\\") { i += 2; continue; }
+    if (code.startsWith(quote, i)) return i + quote.length;
+    // Single-line quotes stop at the end of the line
+    if (code[i] === "\n" && quote.length === 1 && quote !== "`") return i;
+    i++;
+  }
+  return code.length;
+}
+
+function previousNonSpace(code: string, i: number): string {
+  let j = i - 1;
+  while (j >= 0 && (code[j] === " " || code[j] === "\t")) j--;
+  return j >= 0 ? code[j] : "";
+}
+
+function scan(code: string, spec: LanguageSpec): Token[] {
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const space = matchAt(SPACE, code, i);
+    if (space) { push("plain", space); i += space.length; continue; }
+
+    if (spec.blockComment && code.startsWith(spec.blockComment[0], i)) {
+      const close = code.indexOf(spec.blockComment[1], i + spec.blockComment[0].length);
+      const end = close === -1 ? code.length : close + spec.blockComment[1].length;
+      push("comment", code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    const lineComment = spec.lineComments.find((c) => code.startsWith(c, i));
+    // "#" only starts a shell comment at the beginning of a word
+    if (lineComment && !(spec.shell && i > 0 && !/\s/.test(code[i - 1]))) {
+      const nl = code.indexOf("\n", i);
+      const end = nl === -1 ? code.length : nl;
+      push("comment", code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    const quote = spec.quotes.find((q) => code.startsWith(q, i));
+    if (quote) {
+      const end = stringEnd(code, i, quote);
+      const text = code.slice(i, end);
+      const isKey = spec.keyedStrings && /^\s*:/.test(code.slice(end, end + 20));
+      push(isKey ? "property" : "string", text);
+      i = end;
+      continue;
+    }
+
+    if (spec.shell && code[i] === "$") {
+      const variable = code[i + 1] === "{"
+        ? code.slice(i, code.indexOf("}", i) + 1 || code.length)
+        : `$${matchAt(IDENT, code, i + 1) ?? ""}`;
+      push("variable", variable);
+      i += variable.length;
+      continue;
+    }
+
+    if (spec.shell && code[i] === "-" && (i === 0 || /\s/.test(code[i - 1]))) {
+      const flag = matchAt(/--?[\w-]+/y, code, i);
+      if (flag) { push("property", flag); i += flag.length; continue; }
+    }
+
+    if (spec.decorators && code[i] === "@") {
+      const name = matchAt(IDENT, code, i + 1);
+      if (name) { push("function", `@${name}`); i += name.length + 1; continue; }
+    }
+
+    if (/\d/.test(code[i]) && (i === 0 || !/[\w$]/.test(code[i - 1]))) {
+      const num = matchAt(NUMBER, code, i);
+      if (num) { push("number", num); i += num.length; continue; }
+    }
+
+    const ident = matchAt(IDENT, code, i);
+    if (ident) {
+      const word = spec.caseInsensitive ? ident.toLowerCase() : ident;
+      const next = code.slice(i + ident.length).match(/^\s*(\S)/)?.[1];
+      let kind: TokenKind = "plain";
+      if (previousNonSpace(code, i) === ".") kind = next === "(" ? "function" : "property";
+      else if (spec.keywords.has(word)) kind = "keyword";
+      else if (spec.literals.has(word)) kind = "literal";
+      else if (spec.types?.has(word)) kind = "type";
+      else if (next === "(") kind = "function";
+      push(kind, ident);
+      i += ident.length;
+      continue;
+    }
+
+    push("punctuation", code[i]);
+    i++;
+  }
+  return tokens;
+}
+
+// ─── HTTP ─────────────────────────────────────────────────────────────────────
+const HTTP_METHOD = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)(\s+)(\S+)(\s+HTTP\/[\d.]+)?\s*$/;
+const HTTP_STATUS = /^(HTTP\/[\d.]+\s+)?([1-5]\d{2})(\s+[A-Za-z][\w -]*)?\s*$/;
+const HTTP_HEADER = /^([\w-]+)(:)(.*)$/;
+
+/** Request / status lines and headers by hand; bodies are tokenized as JSON */
+function scanHttp(code: string): Token[] {
+  const tokens: Token[] = [];
+  const lines = code.split("\n");
+  let body: string[] = [];
+  let inHead = false;
+
+  const flushBody = () => {
+    if (body.length) tokens.push(...scan(body.join("\n"), JSON_SPEC), { kind: "plain", text: "\n" });
+    body = [];
+  };
+
+  lines.forEach((line) => {
+    const request = line.match(HTTP_METHOD);
+    // A bare "200" could be a body value — a status line needs "HTTP/x" or a reason phrase
+    const statusMatch = !request && line.match(HTTP_STATUS);
+    const status = statusMatch && (statusMatch[1] || statusMatch[3]) ? statusMatch : null;
+    const header = inHead && line.match(HTTP_HEADER);
+    if (request) {
+      flushBody();
+      tokens.push(
+        { kind: "keyword", text: request[1] },
+        { kind: "plain", text: request[2] },
+        { kind: "string", text: request[3] },
+        { kind: "comment", text: request[4] ?? "" },
+      );
+      inHead = true;
+    } else if (status) {
+      flushBody();
+      tokens.push(
+        { kind: "comment", text: status[1] ?? "" },
+        { kind: "number", text: status[2] },
+        { kind: "type", text: status[3] ?? "" },
+      );
+      inHead = true;
+    } else if (header) {
+      tokens.push(
+        { kind: "property", text: header[1] },
+        { kind: "punctuation", text: header[2] },
+        { kind: "plain", text: header[3] },
+      );
+    } else {
+      if (!line.trim()) inHead = false;
+      body.push(line);
+      return;
+    }
+    tokens.push({ kind: "plain", text: "\n" });
+  });
+  if (body.length) tokens.push(...scan(body.join("\n"), JSON_SPEC));
+  else tokens.pop();
+  return tokens.filter((t) => t.text);
+}
+
+// ─── Entry point ──────────────────────────────────────────────────────────────
+export function highlightLines(code: string, language?: string): Token[][] {
+  const source = code.replace(/\r\n?/g, "\n");
+  const lang = language?.toLowerCase() ?? "";
+  const spec = SPECS[lang];
+  const tokens = lang === "http" ? scanHttp(source) : spec ? scan(source, spec) : [{ kind: "plain" as const, text: source }];
+
+  // Split tokens that span several lines so every line renders on its own row
+  const lines: Token[][] = [[]];
+  for (const token of tokens) {
+    token.text.split("\n").forEach((part, j) => {
+      if (j > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ kind: token.kind, text: part });
+    });
+  }
+  return lines;
+}
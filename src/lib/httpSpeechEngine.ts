@@ -0,0 +1,123 @@
+/**
+ * httpSpeechEngine.ts
+ * Speech from a server voice. Each utterance is one request:
+ *
+ *   POST <url>          { text, voice?, rate?, pitch?, lang? }  → audio (any type an <audio> element plays)
+ *   GET  <url>/voices                                          → [{ id, name, lang }]  (optional — none listed without it)
+ *
+ * The audio carries no word timings, so word boundaries are estimated from how far it has played.
+ * Recognition is left to the browser (see webSpeechEngine.ts).
+ * - createHttpSpeechEngine(url) → SpeechEngine (see speechEngine.ts)
+ */
+import type { SpeechEngine, SpeechError, SpeechVoice } from "./speechEngine";
+import { createWebSpeechEngine } from "./webSpeechEngine";
+
+interface Playing {
+  audio: HTMLAudioElement | null;
+  /** Paused before the audio arrived — it waits for resume() */
+  paused: boolean;
+  settle: (error?: SpeechError) => void;
+}
+
+export function createHttpSpeechEngine(url: string): SpeechEngine {
+  const browser = createWebSpeechEngine();
+  let current: Playing | null = null;
+
+  const interrupt = () => current?.settle("interrupted");
+
+  // A blocked autoplay or a broken stream ends the utterance rather than leaving it hanging;
+  // pause() interrupting play() rejects with AbortError, which is not a failure
+  const play = (entry: Playing, audio: HTMLAudioElement) =>
+    audio.play().catch((e: unknown) => {
+      if (e instanceof DOMException && e.name === "AbortError") return;
+      entry.settle(e instanceof DOMException && e.name === "NotAllowedError" ? "not-allowed" : "failed");
+    });
+
+  return {
+    name: "Server voice",
+
+    speak(text, options, callbacks) {
+      interrupt();
+      const controller = new AbortController();
+      let objectUrl: string | null = null;
+      const entry: Playing = {
+        audio: null,
+        paused: false,
+        settle(error) {
+          if (current !== entry) return;
+          current = null;
+          controller.abort();
+          entry.audio?.pause();
+          if (objectUrl) URL.revokeObjectURL(objectUrl);
+          if (error) callbacks.onError?.(error);
+          else callbacks.onEnd?.();
+        },
+      };
+      current = entry;
+
+      // Where each word starts, for boundaries estimated from the playback position
+      const wordStarts = [...text.matchAll(/\S+/g)].map((m) => m.index);
+      let nextWord = 0;
+
+      fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, ...options }),
+        signal: controller.signal,
+      })
+        .then((res) => {
+          if (!res.ok) throw new Error(`TTS ${res.status}`);
+          return res.blob();
+        })
+        .then((blob) => {
+          if (current !== entry) return;
+          objectUrl = URL.createObjectURL(blob);
+          const audio = new Audio(objectUrl);
+          entry.audio = audio;
+          audio.onplay = () => { if (current === entry) callbacks.onStart?.(); };
+          audio.ontimeupdate = () => {
+            if (current !== entry || !audio.duration) return;
+            const reached = (audio.currentTime / audio.duration) * text.length;
+            while (nextWord < wordStarts.length && wordStarts[nextWord] <= reached) callbacks.onBoundary?.(wordStarts[nextWord++]);
+          };
+          audio.onended = () => entry.settle();
+          audio.onerror = () => entry.settle("failed");
+          if (entry.paused) return;
+          return play(entry, audio);
+        })
+        .catch(() => entry.settle("network"));
+
+      return {
+        cancel() {
+          if (current === entry) interrupt();
+        },
+      };
+    },
+
+    pause() {
+      if (!current) return;
+      current.paused = true;
+      current.audio?.pause();
+    },
+    resume() {
+      if (!current) return;
+      current.paused = false;
+      if (current.audio) void play(current, current.audio);
+    },
+    cancel: interrupt,
+
+    async voices(): Promise<SpeechVoice[]> {
+      try {
+        const res = await fetch(`${url}/voices`);
+        if (!res.ok) return [];
+        const voices = await res.json() as SpeechVoice[];
+        return Array.isArray(voices) ? voices.filter((v) => typeof v?.id === "string" && typeof v.name === "string") : [];
+      } catch {
+        return [];
+      }
+    },
+
+    canRecognize: browser.canRecognize,
+    recognize: (options, callbacks) => browser.recognize(options, callbacks),
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * jwt.ts
+ * Decode, verify and sign JSON Web Tokens in the browser with WebCrypto — no backend.
+ * - decodeJwt(token)                 → { ok: true, header, payload, … } | { ok: false, error }
+ * - verifyJwt(token, secret)         → "valid" | "invalid" | "unsupported" (non-HMAC alg) | "no-secret"
+ * - signJwt(payload, secret, alg)    → "header.payload.signature"
+ * - claimChecks(payload, nowSeconds) → exp / nbf / iat findings for the UI
+ */
+
+export const HMAC_ALGS = { HS256: "SHA-256", HS384: "SHA-384", HS512: "SHA-512" } as const;
+export type HmacAlg = keyof typeof HMAC_ALGS;
+
+export type DecodedJwt =
+  | {
+      ok: true;
+      header: Record<string, unknown>;
+      payload: Record<string, unknown>;
+      /** The three raw base64url parts */
+      parts: [string, string, string];
+    }
+  | { ok: false; error: string };
+
+export type Verification = "valid" | "invalid" | "unsupported" | "no-secret";
+
+export interface ClaimCheck {
+  claim: "exp" | "nbf" | "iat";
+  at: Date;
+  status: "ok" | "expired" | "not-yet-valid" | "future-iat";
+  message: string;
+}
+
+// ─── base64url ────────────────────────────────────────────────────────────────
+function bytesToBase64url(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64urlToBytes(part: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(part)) throw new Error("contains characters outside base64url");
+  const padded = part.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(part.length / 4) * 4, "=");
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+const encodeJson = (value: unknown) => bytesToBase64url(new TextEncoder().encode(JSON.stringify(value)));
+
+function decodeJson(part: string, label: string): Record<string, unknown> {
+  let text: string;
+  try {
+    text = new TextDecoder().decode(base64urlToBytes(part));
+  } catch (err) {
+    throw new Error(`${label} is not valid base64url: ${(err as Error).message}`);
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error(`${label} is not valid JSON`);
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) throw new Error(`${label} must be a JSON object`);
+  return value as Record<string, unknown>;
+}
+
+// ─── Decode ───────────────────────────────────────────────────────────────────
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.trim().replace(/^Bearer\s+/i, "").split(".");
+  if (parts.length !== 3) {
+    return { ok: false, error: `A JWT has 3 dot-separated parts — this one has ${parts.length}` };
+  }
+  try {
+    return {
+      ok: true,
+      header: decodeJson(parts[0], "Header"),
+      payload: decodeJson(parts[1], "Payload"),
+      parts: parts as [string, string, string],
+    };
+  } catch (err) {
+    return { ok: false, error: (err as Error).message };
+  }
+}
+
+// ─── HMAC ─────────────────────────────────────────────────────────────────────
+async function hmac(alg: HmacAlg, secret: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw", encoder.encode(secret), { name: "HMAC", hash: HMAC_ALGS[alg] }, false, ["sign"],
+  );
+  return bytesToBase64url(new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(data))));
+}
+
+export async function verifyJwt(token: string, secret: string): Promise<Verification> {
+  const decoded = decodeJwt(token);
+  if (!decoded.ok) return "invalid";
+  const alg = decoded.header.alg;
+  if (typeof alg !== "string" || !Object.hasOwn(HMAC_ALGS, alg)) return "unsupported";
+  // Web Crypto rejects a zero-length HMAC key
+  if (!secret) return "no-secret";
+  const [header, payload, signature] = decoded.parts;
+  const expected = await hmac(alg as HmacAlg, secret, `${header}.${payload}`);
+  return expected === signature ? "valid" : "invalid";
+}
+
+export async function signJwt(payload: Record<string, unknown>, secret: string, alg: HmacAlg = "HS256"): Promise<string> {
+  const head = `${encodeJson({ alg, typ: "JWT" })}.${encodeJson(payload)}`;
+  return `${head}.${await hmac(alg, secret, head)}`;
+}
+
+// ─── Time-based claims ────────────────────────────────────────────────────────
+/** Tolerated clock difference, as most JWT libraries allow */
+const CLOCK_SKEW_S = 30;
+
+function relative(seconds: number): string {
+  const abs = Math.abs(seconds);
+  const [value, unit] =
+    abs < 90 ? [abs, "second"]
+    : abs < 5400 ? [Math.round(abs / 60), "minute"]
+    : abs < 129600 ? [Math.round(abs / 3600), "hour"]
+    : [Math.round(abs / 86400), "day"];
+  const text = `${value} ${unit}${value === 1 ? "" : "s"}`;
+  return seconds < 0 ? `${text} ago` : `in ${text}`;
+}
+
+export function claimChecks(payload: Record<string, unknown>, nowSeconds: number): ClaimCheck[] {
+  const checks: ClaimCheck[] = [];
+  const numeric = (claim: "exp" | "nbf" | "iat") => (typeof payload[claim] === "number" ? (payload[claim] as number) : null);
+
+  const exp = numeric("exp");
+  if (exp !== null) {
+    const expired = exp + CLOCK_SKEW_S < nowSeconds;
+    checks.push({
+      claim: "exp", at: new Date(exp * 1000), status: expired ? "expired" : "ok",
+      message: expired ? `Expired ${relative(exp - nowSeconds)}` : `Expires ${relative(exp - nowSeconds)}`,
+    });
+  }
+  const nbf = numeric("nbf");
+  if (nbf !== null) {
+    const early = nbf - CLOCK_SKEW_S > nowSeconds;
+    checks.push({
+      claim: "nbf", at: new Date(nbf * 1000), status: early ? "not-yet-valid" : "ok",
+      message: early ? `Not valid yet — becomes valid ${relative(nbf - nowSeconds)}` : `Valid since ${relative(nbf - nowSeconds)}`,
+    });
+  }
+  const iat = numeric("iat");
+  if (iat !== null) {
+    const future = iat - CLOCK_SKEW_S > nowSeconds;
+    checks.push({
+      claim: "iat", at: new Date(iat * 1000), status: future ? "future-iat" : "ok",
+      message: future ? `Issued ${relative(iat - nowSeconds)} — the issuer's clock is ahead` : `Issued ${relative(iat - nowSeconds)}`,
+    });
+  }
+  return checks;
+}
@@ -0,0 +1,86 @@
+/**
+ * learningProgress.ts
+ * What a learner has actually done on each slide, and how that adds up to deck completion.
+ * - emptyProgress(deckId)                          → a DeckProgress with nothing done
+ * - addViewTime(progress, slideId, ms, deepDive)   → time on the slide (and its deep dive) added
+ * - withQuizResult(progress, slideId, right, total)→ quiz marked passed at QUIZ_PASS_MARK or better
+ * - slideSteps(slide, slideProgress)               → { opened, deepDiveRead, quizPassed }
+ * - isSlideComplete(slide, slideProgress)          → every step done
+ * - deckCompletion(slides, progress)               → 0–1, the share of all steps done
+ * - formatDuration(ms)                             → "4m 05s"
+ */
+import type { Slide } from "../data/slides";
+
+export interface SlideProgress {
+  /** Time the slide was on screen while the tab was visible */
+  timeMs: number;
+  /** Part of timeMs spent with the deep dive open */
+  deepDiveMs: number;
+  quizPassed: boolean;
+}
+
+export interface DeckProgress {
+  deckId: string;
+  slides: Record<number, SlideProgress>;
+}
+
+/** A glance while flicking through does not count as opening a slide */
+export const MIN_VIEW_MS = 5_000;
+export const DEEP_DIVE_READ_MS = 15_000;
+export const QUIZ_PASS_MARK = 0.8;
+
+const NOTHING_DONE: SlideProgress = { timeMs: 0, deepDiveMs: 0, quizPassed: false };
+
+export function emptyProgress(deckId: string): DeckProgress {
+  return { deckId, slides: {} };
+}
+
+function withSlide(progress: DeckProgress, slideId: number, change: (p: SlideProgress) => SlideProgress): DeckProgress {
+  return { ...progress, slides: { ...progress.slides, [slideId]: change(progress.slides[slideId] ?? NOTHING_DONE) } };
+}
+
+export function addViewTime(progress: DeckProgress, slideId: number, ms: number, deepDive: boolean): DeckProgress {
+  return withSlide(progress, slideId, (p) => ({
+    ...p,
+    timeMs: p.timeMs + ms,
+    deepDiveMs: p.deepDiveMs + (deepDive ? ms : 0),
+  }));
+}
+
+export function withQuizResult(progress: DeckProgress, slideId: number, right: number, total: number): DeckProgress {
+  // A later, weaker attempt does not undo a pass
+  return withSlide(progress, slideId, (p) => ({ ...p, quizPassed: p.quizPassed || (total > 0 && right / total >= QUIZ_PASS_MARK) }));
+}
+
+export function slideSteps(slide: Slide, p: SlideProgress | undefined) {
+  return {
+    opened: (p?.timeMs ?? 0) >= MIN_VIEW_MS,
+    deepDiveRead: (p?.deepDiveMs ?? 0) >= DEEP_DIVE_READ_MS,
+    /** null when the slide has no quiz to pass */
+    quizPassed: slide.quiz?.length ? !!p?.quizPassed : null,
+  };
+}
+
+export function isSlideComplete(slide: Slide, p: SlideProgress | undefined): boolean {
+  const { opened, deepDiveRead, quizPassed } = slideSteps(slide, p);
+  return opened && deepDiveRead && quizPassed !== false;
+}
+
+export function deckCompletion(slides: Slide[], progress: DeckProgress | null): number {
+  let done = 0;
+  let total = 0;
+  for (const slide of slides) {
+    const steps = Object.values(slideSteps(slide, progress?.slides[slide.id])).filter((s) => s !== null);
+    done += steps.filter(Boolean).length;
+    total += steps.length;
+  }
+  return total ? done / total : 0;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
@@ -0,0 +1,264 @@
+/**
+ * mockApi.ts
+ * An in-browser REST service for the HTTP playground — a `users` resource with CRUD,
+ * bearer-token auth and validation errors. Nothing leaves the page.
+ * - createMockApi()        → { send(request), reset() }, each instance with its own data
+ * - formatHttpRequest()    → raw "METHOD /path HTTP/1.1" text for display
+ * - formatHttpResponse()   → raw "HTTP/1.1 200 OK" text for display
+ *
+ * Endpoints:
+ *   POST   /api/login        { email, password } → { token, user }
+ *   GET    /api/users        ?role=&limit=
+ *   GET    /api/users/:id
+ *   POST   /api/users        auth · { name, email, role? }
+ *   PUT    /api/users/:id    auth · full replace
+ *   PATCH  /api/users/:id    auth · partial update
+ *   DELETE /api/users/:id    auth · admin only
+ */
+
+export interface MockHttpRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface MockHttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  ms: number;
+}
+
+interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: "admin" | "user";
+  createdAt: string;
+}
+
+export const STATUS_TEXT: Record<number, string> = {
+  200: "OK", 201: "Created", 204: "No Content", 400: "Bad Request", 401: "Unauthorized",
+  403: "Forbidden", 404: "Not Found", 405: "Method Not Allowed", 409: "Conflict",
+  415: "Unsupported Media Type", 422: "Unprocessable Entity", 500: "Internal Server Error",
+};
+
+/** Demo accounts — the password is the same for both */
+export const DEMO_PASSWORD = "password123";
+export const DEMO_TOKENS = { admin: "demo-admin-token", user: "demo-user-token" } as const;
+
+const SEED_USERS: User[] = [
+  { id: 7, name: "Ravi Kumar", email: "ravi@example.com", role: "user", createdAt: "2025-01-15T09:30:00Z" },
+  { id: 12, name: "Priya Singh", email: "priya@example.com", role: "user", createdAt: "2025-02-03T14:10:00Z" },
+  { id: 42, name: "Sarah Ahmed", email: "sarah@example.com", role: "admin", createdAt: "2024-11-02T08:00:00Z" },
+];
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class HttpError extends Error {
+  status: number;
+  body: Record<string, unknown>;
+  headers: Record<string, string>;
+
+  constructor(status: number, body: Record<string, unknown>, headers: Record<string, string> = {}) {
+    super(String(body.error ?? status));
+    this.status = status;
+    this.body = body;
+    this.headers = headers;
+  }
+}
+
+export function createMockApi() {
+  let users: User[] = [];
+  let nextId = 1;
+  // token → user id
+  let sessions = new Map<string, number>();
+  let logins = 0;
+
+  const reset = () => {
+    users = SEED_USERS.map((u) => ({ ...u }));
+    nextId = Math.max(...users.map((u) => u.id)) + 1;
+    sessions = new Map([[DEMO_TOKENS.admin, 42], [DEMO_TOKENS.user, 7]]);
+    logins = 0;
+  };
+  reset();
+
+  // ─── Helpers ────────────────────────────────────────────────────────────────
+  const header = (req: MockHttpRequest, name: string) =>
+    Object.entries(req.headers).find(([k]) => k.toLowerCase() === name.toLowerCase())?.[1];
+
+  const authenticate = (req: MockHttpRequest): User => {
+    const auth = header(req, "Authorization");
+    const challenge = { "WWW-Authenticate": 'Bearer realm="elexico"' };
+    if (!auth) throw new HttpError(401, { error: "Missing Authorization header", hint: "Log in with POST /api/login, then send Authorization: Bearer <token>" }, challenge);
+    const [scheme, token] = auth.split(/\s+/);
+    if (scheme?.toLowerCase() !== "bearer" || !token) throw new HttpError(401, { error: "Authorization must use the Bearer scheme" }, challenge);
+    const user = users.find((u) => u.id === sessions.get(token));
+    if (!user) throw new HttpError(401, { error: "Invalid or expired token" }, challenge);
+    return user;
+  };
+
+  const jsonBody = (req: MockHttpRequest): Record<string, unknown> => {
+    const type = header(req, "Content-Type") ?? "";
+    if (!type.toLowerCase().startsWith("application/json")) {
+      throw new HttpError(415, { error: `Expected Content-Type: application/json, got ${type ? `"${type}"` : "none"}` });
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(req.body);
+    } catch (err) {
+      throw new HttpError(400, { error: "Body is not valid JSON", detail: (err as Error).message });
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new HttpError(400, { error: "Body must be a JSON object" });
+    }
+    return parsed as Record<string, unknown>;
+  };
+
+  /** Field-level checks shared by POST, PUT and PATCH */
+  const validateUser = (body: Record<string, unknown>, partial: boolean, selfId?: number) => {
+    const errors: Record<string, string> = {};
+    const known = ["name", "email", "role"];
+    for (const key of Object.keys(body)) {
+      if (!known.includes(key) && key !== "id" && key !== "createdAt") errors[key] = "Unknown field";
+    }
+    if (!partial || "name" in body) {
+      if (typeof body.name !== "string" || body.name.trim().length < 2) errors.name = "Required — at least 2 characters";
+    }
+    if (!partial || "email" in body) {
+      if (typeof body.email !== "string" || !EMAIL.test(body.email)) errors.email = "Required — must be a valid email address";
+      else if (users.some((u) => u.email === body.email && u.id !== selfId)) {
+        throw new HttpError(409, { error: `A user with email ${body.email} already exists` });
+      }
+    }
+    if ("role" in body && body.role !== "admin" && body.role !== "user") errors.role = 'Must be "admin" or "user"';
+    if (Object.keys(errors).length) throw new HttpError(422, { error: "Validation failed", errors });
+  };
+
+  const findUser = (rawId: string): User => {
+    if (!/^\d+$/.test(rawId)) throw new HttpError(400, { error: `User id must be a number, got "${rawId}"` });
+    const user = users.find((u) => u.id === Number(rawId));
+    if (!user) throw new HttpError(404, { error: `User ${rawId} not found` });
+    return user;
+  };
+
+  // ─── Routing ────────────────────────────────────────────────────────────────
+  const route = (req: MockHttpRequest): { status: number; body?: unknown; headers?: Record<string, string> } => {
+    const [path, search = ""] = req.path.split("?");
+    const query = new URLSearchParams(search);
+    const method = req.method.toUpperCase();
+    const clean = path.replace(/\/+$/, "") || "/";
+
+    if (clean === "/api/login") {
+      if (method !== "POST") throw new HttpError(405, { error: `${method} not allowed on /api/login` }, { Allow: "POST" });
+      const body = jsonBody(req);
+      if (typeof body.email !== "string" || typeof body.password !== "string") {
+        throw new HttpError(400, { error: "email and password are required" });
+      }
+      const user = users.find((u) => u.email === body.email);
+      if (!user || body.password !== DEMO_PASSWORD) throw new HttpError(401, { error: "Wrong email or password" });
+      // Every login gets its own token — the seeded demo tokens always stay with their demo users
+      const token = `session-${user.id}-${++logins}`;
+      sessions.set(token, user.id);
+      return { status: 200, body: { token, user } };
+    }
+
+    if (clean === "/api/users") {
+      if (method === "GET") {
+        let list = users;
+        const role = query.get("role");
+        if (role) list = list.filter((u) => u.role === role);
+        const rawLimit = query.get("limit");
+        if (rawLimit !== null && !/^\d+$/.test(rawLimit)) {
+          throw new HttpError(400, { error: `limit must be a non-negative whole number, got "${rawLimit}"` });
+        }
+        const limit = rawLimit === null ? list.length : Number(rawLimit);
+        return { status: 200, body: { data: list.slice(0, limit), total: list.length } };
+      }
+      if (method === "POST") {
+        authenticate(req);
+        const body = jsonBody(req);
+        validateUser(body, false);
+        const user: User = {
+          id: nextId++,
+          name: (body.name as string).trim(),
+          email: body.email as string,
+          role: (body.role as User["role"]) ?? "user",
+          createdAt: new Date().toISOString(),
+        };
+        users.push(user);
+        return { status: 201, body: user, headers: { Location: `/api/users/${user.id}` } };
+      }
+      throw new HttpError(405, { error: `${method} not allowed on /api/users` }, { Allow: "GET, POST" });
+    }
+
+    const item = clean.match(/^\/api\/users\/([^/]+)$/);
+    if (item) {
+      if (method === "GET") return { status: 200, body: findUser(item[1]) };
+      if (method === "PUT" || method === "PATCH") {
+        authenticate(req);
+        const user = findUser(item[1]);
+        const body = jsonBody(req);
+        validateUser(body, method === "PATCH", user.id);
+        const updated: User = method === "PUT"
+          ? { id: user.id, createdAt: user.createdAt, name: (body.name as string).trim(), email: body.email as string, role: (body.role as User["role"]) ?? "user" }
+          : {
+            ...user, ...(body as Partial<User>),
+            ...(typeof body.name === "string" ? { name: body.name.trim() } : {}),
+            id: user.id, createdAt: user.createdAt,
+          };
+        users = users.map((u) => (u.id === user.id ? updated : u));
+        return { status: 200, body: updated };
+      }
+      if (method === "DELETE") {
+        const me = authenticate(req);
+        const user = findUser(item[1]);
+        if (me.role !== "admin") throw new HttpError(403, { error: "Only admins can delete users", you: { id: me.id, role: me.role } });
+        users = users.filter((u) => u.id !== user.id);
+        return { status: 204 };
+      }
+      throw new HttpError(405, { error: `${method} not allowed on ${clean}` }, { Allow: "GET, PUT, PATCH, DELETE" });
+    }
+
+    throw new HttpError(404, { error: `No route for ${method} ${clean}`, routes: ["POST /api/login", "GET|POST /api/users", "GET|PUT|PATCH|DELETE /api/users/:id"] });
+  };
+
+  const send = async (req: MockHttpRequest): Promise<MockHttpResponse> => {
+    const started = performance.now();
+    // A little latency so the round trip is visible
+    await new Promise((r) => setTimeout(r, 80 + Math.random() * 140));
+
+    let status: number;
+    let body: unknown;
+    let extra: Record<string, string> = {};
+    try {
+      ({ status, body, headers: extra = {} } = route(req));
+    } catch (err) {
+      if (!(err instanceof HttpError)) throw err;
+      ({ status, body, headers: extra } = err);
+    }
+
+    const text = body === undefined ? "" : JSON.stringify(body, null, 2);
+    const headers: Record<string, string> = {
+      Date: new Date().toUTCString(),
+      ...(text ? { "Content-Type": "application/json; charset=utf-8", "Content-Length": String(new TextEncoder().encode(text).length) } : {}),
+      "X-Request-Id": Math.random().toString(16).slice(2, 10),
+      ...extra,
+    };
+    return { status, statusText: STATUS_TEXT[status] ?? "", headers, body: text, ms: Math.round(performance.now() - started) };
+  };
+
+  return { send, reset };
+}
+
+export function formatHttpRequest(req: MockHttpRequest): string {
+  const lines = [`${req.method.toUpperCase()} ${req.path} HTTP/1.1`, "Host: api.elexico.local", ...Object.entries(req.headers).map(([k, v]) => `${k}: ${v}`)];
+  return req.body ? `${lines.join("\n")}\n\n${req.body}` : lines.join("\n");
+}
+
+export function formatHttpResponse(res: MockHttpResponse): string {
+  const lines = [`HTTP/1.1 ${res.status} ${res.statusText}`, ...Object.entries(res.headers).map(([k, v]) => `${k}: ${v}`)];
+  return res.body ? `${lines.join("\n")}\n\n${res.body}` : lines.join("\n");
+}
@@ -0,0 +1,21 @@
+/**
+ * narration.ts
+ * What is read aloud for a slide when nobody picked a summary — used by auto-play and the course playlist.
+ * Speaker notes are cues for a presenter, not a script for the audience, so they are never read.
+ * - narrationSentences(slide)  → the title, description and key points as sentences
+ * - slideNarration(slide)      → the same sentences as one text
+ */
+import type { Slide } from "../data/slides";
+
+const asSentence = (s: string) => (/[.!?]$/.test(s) ? s : `${s}.`);
+
+export function narrationSentences(slide: Slide): string[] {
+  return [slide.title, ...slide.description.split(/(?<=[.!?])\s+/), ...slide.keyPoints]
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map(asSentence);
+}
+
+export function slideNarration(slide: Slide): string {
+  return narrationSentences(slide).join(" ");
+}
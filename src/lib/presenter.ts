@@ -0,0 +1,65 @@
+/**
+ * presenter.ts
+ * What a presenter window and the audience window it drives say to each other over a BroadcastChannel.
+ *
+ *   presenter → audience   hello     (the presenter window has loaded — send it the presentation)
+ *   audience  → presenter  welcome   (session, deck, what is on screen, questions so far, start time)
+ *   presenter → audience   view      (show this slide / zoom / overlays)
+ *   audience  → presenter  question  (someone asked the AI tutor something)
+ *   either    → other      bye       (the window closed or the presentation ended)
+ *
+ * The channel is named after a random presentation id that only travels in the presenter window's
+ * URL, so other tabs of the app never join it.
+ * - newPresentationId()         → a fresh id
+ * - presentationChannel(id)     → the BroadcastChannel for one presentation
+ * - formatClock(ms)             → "m:ss" (or "h:mm:ss") for the presenter timer
+ */
+import type { Deck } from "../data/decks";
+import type { AccessSession } from "./access";
+import type { PanelTab } from "./routes";
+
+/** Everything the audience window shows that the presenter controls */
+export interface AudienceView {
+  /** 0-based */
+  slideIndex: number;
+  zoom: number;
+  deepDive: boolean;
+  quiz: boolean;
+  panel: PanelTab;
+}
+
+export interface AudienceQuestion {
+  slideIndex: number;
+  text: string;
+  askedAt: number;
+}
+
+export type PresenterMessage =
+  | { type: "hello" }
+  | {
+      type: "welcome";
+      session: AccessSession;
+      deck: Deck;
+      view: AudienceView;
+      questions: AudienceQuestion[];
+      startedAt: number;
+    }
+  | { type: "view"; view: AudienceView }
+  | { type: "question"; question: AudienceQuestion }
+  | { type: "bye" };
+
+export function newPresentationId(): string {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, 16);
+}
+
+export function presentationChannel(id: string): BroadcastChannel {
+  return new BroadcastChannel(`elexico:present:${id}`);
+}
+
+export function formatClock(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * progressStore.ts
+ * Learning progress and the last viewing position, persisted per deck in IndexedDB.
+ * - loadProgress(deckId)  → { progress, position }, either null when nothing is saved yet
+ * - saveProgress(progress) → write the deck's DeckProgress
+ * - savePosition(position) → write the last slide and zoom, restored when the deck reopens
+ *
+ * Storage failures (private browsing, quota) are swallowed: progress then lasts for the session only.
+ */
+import type { DeckProgress } from "./learningProgress";
+
+export interface SavedPosition {
+  deckId: string;
+  slideIndex: number;
+  zoom: number;
+}
+
+const DB_NAME = "elexico";
+const DB_VERSION = 1;
+const PROGRESS_STORE = "progress";
+const POSITION_STORE = "positions";
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  db ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(PROGRESS_STORE, { keyPath: "deckId" });
+      request.result.createObjectStore(POSITION_STORE, { keyPath: "deckId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return db;
+}
+
+async function read<T>(store: string, key: string): Promise<T | null> {
+  const conn = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = conn.transaction(store, "readonly").objectStore(store).get(key);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function write(store: string, value: object): Promise<void> {
+  const conn = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = conn.transaction(store, "readwrite");
+    tx.objectStore(store).put(value);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function loadProgress(deckId: string): Promise<{ progress: DeckProgress | null; position: SavedPosition | null }> {
+  try {
+    const [progress, position] = await Promise.all([
+      read<DeckProgress>(PROGRESS_STORE, deckId),
+      read<SavedPosition>(POSITION_STORE, deckId),
+    ]);
+    return { progress, position };
+  } catch {
+    return { progress: null, position: null };
+  }
+}
+
+export async function saveProgress(progress: DeckProgress): Promise<void> {
+  try {
+    await write(PROGRESS_STORE, progress);
+  } catch { /* storage unavailable — progress stays in memory */ }
+}
+
+export async function savePosition(position: SavedPosition): Promise<void> {
+  try {
+    await write(POSITION_STORE, position);
+  } catch { /* storage unavailable — the deck reopens on the first slide */ }
+}
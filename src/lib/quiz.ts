@@ -0,0 +1,87 @@
+/**
+ * quiz.ts
+ * Grading and helpers for slide quizzes (`Slide.quiz`).
+ * - QUIZ_TYPES                      → the question types a deck may use
+ * - blankCount(code)                → number of "___" blanks in a fill-blank snippet
+ * - splitBlanks(code)               → the snippet's text around those blanks
+ * - shuffledOrder(item)             → stable shuffled indices for an ordering question
+ * - gradeQuizItem(item, response)   → true when the response is correct
+ * - correctAnswerText(item)         → the right answer, readable, for feedback
+ * - findDeepDiveBlock(blocks, ref)  → index of the first block mentioning ref, or -1
+ */
+import type { QuizItem, RichBlock } from "../data/slides";
+
+export const QUIZ_TYPES = ["multiple-choice", "true-false", "ordering", "fill-blank"] as const;
+
+/** What the learner submitted — shape depends on the question type */
+export type QuizResponse = number | boolean | string[];
+
+const BLANK = /_{3,}/g;
+
+export function blankCount(code: string): number {
+  return code.match(BLANK)?.length ?? 0;
+}
+
+/** Split a fill-blank snippet around its blanks: parts.length === blanks + 1 */
+export function splitBlanks(code: string): string[] {
+  return code.split(BLANK);
+}
+
+/** A deterministic shuffle seeded by the question, so the order holds across renders */
+export function shuffledOrder(item: Extract<QuizItem, { type: "ordering" }>): number[] {
+  let seed = 2166136261;
+  for (let i = 0; i < item.question.length; i++) seed = Math.imul(seed ^ item.question.charCodeAt(i), 16777619) >>> 0;
+  const order = item.items.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    seed = Math.imul(seed ^ (seed >>> 15), 2246822507) >>> 0;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  // Never hand out the answer
+  if (order.every((v, i) => v === i) && order.length > 1) order.push(order.shift()!);
+  return order;
+}
+
+const normalise = (s: string) => s.trim().replace(/\s+/g, " ").replace(/;$/, "").toLowerCase();
+
+export function gradeQuizItem(item: QuizItem, response: QuizResponse): boolean {
+  switch (item.type) {
+    case "multiple-choice":
+      return response === item.answer;
+    case "true-false":
+      return response === item.answer;
+    case "ordering":
+      return Array.isArray(response) && response.length === item.items.length && response.every((r, i) => r === item.items[i]);
+    case "fill-blank":
+      return Array.isArray(response) && item.answers.every((accepted, i) =>
+        accepted.split("|").some((a) => normalise(a) === normalise(response[i] ?? "")));
+  }
+}
+
+export function correctAnswerText(item: QuizItem): string {
+  switch (item.type) {
+    case "multiple-choice": return item.options[item.answer];
+    case "true-false":      return item.answer ? "True" : "False";
+    case "ordering":        return item.items.map((it, i) => `${i + 1}. ${it}`).join("  ");
+    case "fill-blank":      return item.answers.map((a) => a.split("|")[0]).join(" · ");
+  }
+}
+
+function blockText(block: RichBlock): string {
+  switch (block.type) {
+    case "heading":
+    case "paragraph":
+    case "callout":  return block.text;
+    case "bullets":
+    case "numbered": return block.items.join("\n");
+    case "code":     return block.code;
+    case "image":    return `${block.alt} ${block.caption ?? ""}`;
+    case "table":    return [block.headers, ...block.rows].map((r) => r.join(" ")).join("\n");
+  }
+}
+
+export function findDeepDiveBlock(blocks: RichBlock[], ref: string | undefined): number {
+  if (!ref) return -1;
+  const needle = ref.toLowerCase();
+  return blocks.findIndex((b) => blockText(b).toLowerCase().includes(needle));
+}
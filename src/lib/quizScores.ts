@@ -0,0 +1,84 @@
+/**
+ * quizScores.ts
+ * Quiz results kept in localStorage, per deck and slide, so leads can see where people struggle.
+ * - loadQuizScores(deckId)                      → { [slideId]: SlideQuizScore }
+ * - recordQuizAttempt(deckId, slide, correct)   → the updated scores for the deck
+ * - quizScoresToCsv(deck, scores)               → one row per slide, weakest question included
+ * - downloadQuizScores(deck, scores)            → save that CSV as <id>-quiz-scores.csv
+ */
+import type { Slide } from "../data/slides";
+import type { Deck } from "../data/decks";
+
+const KEY_PREFIX = "elexico:quiz:";
+
+export interface SlideQuizScore {
+  attempts: number;
+  /** Correct answers in the latest and best attempt, out of `total` */
+  last: number;
+  best: number;
+  total: number;
+  lastAt: string;
+  /** Question text → how many attempts got it wrong */
+  misses: Record<string, number>;
+}
+
+export type QuizScores = Record<number, SlideQuizScore>;
+
+export function loadQuizScores(deckId: string): QuizScores {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + deckId);
+    return raw ? (JSON.parse(raw) as QuizScores) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** `correct[i]` is whether question i of the slide's quiz was answered right */
+export function recordQuizAttempt(deckId: string, slide: Slide, correct: boolean[]): QuizScores {
+  const scores = loadQuizScores(deckId);
+  const prev = scores[slide.id];
+  const right = correct.filter(Boolean).length;
+  const misses = { ...prev?.misses };
+  (slide.quiz ?? []).forEach((q, i) => {
+    if (!correct[i]) misses[q.question] = (misses[q.question] ?? 0) + 1;
+  });
+  scores[slide.id] = {
+    attempts: (prev?.attempts ?? 0) + 1,
+    last: right,
+    // A changed quiz makes older bests meaningless
+    best: prev && prev.total === correct.length ? Math.max(prev.best, right) : right,
+    total: correct.length,
+    lastAt: new Date().toISOString(),
+    misses,
+  };
+  try {
+    localStorage.setItem(KEY_PREFIX + deckId, JSON.stringify(scores));
+  } catch { /* storage full or disabled — the score still shows for this session */ }
+  return scores;
+}
+
+const csvCell = (v: string | number) => (/[",\n]/.test(String(v)) ? `"${String(v).replace(/"/g, '""')}"` : String(v));
+
+export function quizScoresToCsv(deck: Deck, scores: QuizScores): string {
+  const rows: (string | number)[][] = [["Slide", "Title", "Attempts", "Last", "Best", "Questions", "Last attempt", "Most missed question", "Times missed"]];
+  deck.slides.forEach((slide, i) => {
+    const score = scores[slide.id];
+    if (!slide.quiz?.length) return;
+    const [missed, times] = Object.entries(score?.misses ?? {}).sort((a, b) => b[1] - a[1])[0] ?? ["", 0];
+    rows.push([
+      i + 1, slide.title, score?.attempts ?? 0, score?.last ?? "", score?.best ?? "",
+      slide.quiz.length, score?.lastAt ?? "", missed, times || "",
+    ]);
+  });
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n");
+}
+
+export function downloadQuizScores(deck: Deck, scores: QuizScores) {
+  const blob = new Blob([quizScoresToCsv(deck, scores)], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${deck.id}-quiz-scores.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,40 @@
+/**
+ * readAlong.ts
+ * Where sentences and words sit in a text being read aloud, so the spoken word can be highlighted
+ * and narration can start from any sentence.
+ * - sentenceSpans(text)       → each sentence with where it starts in text
+ * - joinSentences(sentences)  → { text, spans } — the sentences joined by spaces, as they are spoken
+ * - wordAt(text, charIndex)   → { start, end } of the word starting at charIndex, or null
+ */
+
+export interface SentenceSpan {
+  text: string;
+  /** Index in the whole text of the sentence's first character */
+  start: number;
+}
+
+export function sentenceSpans(text: string): SentenceSpan[] {
+  const spans: SentenceSpan[] = [];
+  // A sentence runs to its closing punctuation, or to the end of the text
+  for (const m of text.matchAll(/\S[\s\S]*?(?:[.!?]+(?=\s|$)|$)/g)) {
+    spans.push({ text: m[0], start: m.index });
+  }
+  return spans;
+}
+
+export function joinSentences(sentences: string[]): { text: string; spans: SentenceSpan[] } {
+  const spans: SentenceSpan[] = [];
+  let start = 0;
+  for (const s of sentences) {
+    spans.push({ text: s, start });
+    start += s.length + 1;
+  }
+  return { text: sentences.join(" "), spans };
+}
+
+export function wordAt(text: string, charIndex: number): { start: number; end: number } | null {
+  const word = /\S+/y;
+  word.lastIndex = charIndex;
+  const m = word.exec(text);
+  return m ? { start: charIndex, end: charIndex + m[0].length } : null;
+}
@@ -0,0 +1,217 @@
+/**
+ * realtimeSim.ts
+ * An in-browser stand-in for a Socket.IO server — clients, rooms and fan-out over an event bus —
+ * plus a model of how short and long polling would carry the same traffic.
+ * - createEventBus()                      → { on(event, fn) → off, emit(event, payload) }
+ * - createChatServer(bus)                 → answers connect / join / send-message / disconnect; dispose() when done
+ * - compareTransports(sendTimes, opts)    → wire messages and latency per transport for the same chat
+ */
+
+// ─── Event bus ────────────────────────────────────────────────────────────────
+export interface EventBus<Events extends object> {
+  on<K extends keyof Events>(event: K, fn: (payload: Events[K]) => void): () => void;
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void;
+}
+
+export function createEventBus<Events extends object>(): EventBus<Events> {
+  const listeners = new Map<keyof Events, Set<(payload: never) => void>>();
+  return {
+    on(event, fn) {
+      const set = listeners.get(event) ?? new Set();
+      set.add(fn);
+      listeners.set(event, set);
+      return () => { set.delete(fn); };
+    },
+    emit(event, payload) {
+      listeners.get(event)?.forEach((fn) => (fn as (p: typeof payload) => void)(payload));
+    },
+  };
+}
+
+// ─── Chat server ──────────────────────────────────────────────────────────────
+export interface ChatMessage {
+  user: string;
+  text: string;
+  room: string;
+  /** performance.now() when the sender hit Send — used to measure latency */
+  sentAt: number;
+}
+
+/** Everything that crosses the simulated wire */
+export interface ChatEvents {
+  /** Socket opened by a client */
+  connect: { clientId: string };
+  /** Socket closed — reason as Socket.IO reports it ("transport close", "client namespace disconnect") */
+  disconnect: { clientId: string; reason: string };
+  /** socket.emit() from a client */
+  "client:emit": { clientId: string; event: string; data: Record<string, unknown> };
+  /** A frame the server pushed to one client */
+  "server:emit": { clientId: string; event: string; data: Record<string, unknown> };
+}
+
+/** One-way network delay for a single frame */
+const oneWayMs = () => 15 + Math.random() * 35;
+
+export function createChatServer(bus: EventBus<ChatEvents>) {
+  const online = new Map<string, { user: string; room: string | null }>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  // Like TCP, each direction of a connection keeps its frames in order
+  const lastArrival = new Map<string, number>();
+
+  const later = (lane: string, fn: () => void) => {
+    const now = performance.now();
+    const at = Math.max(now + oneWayMs(), (lastArrival.get(lane) ?? 0) + 1);
+    lastArrival.set(lane, at);
+    const id = setTimeout(() => { timers.delete(id); fn(); }, at - now);
+    timers.add(id);
+  };
+
+  // Frames are only delivered if the socket is still open when they arrive
+  const deliver = (clientId: string, event: string, data: Record<string, unknown>) =>
+    later(`down:${clientId}`, () => { if (online.has(clientId)) bus.emit("server:emit", { clientId, event, data }); });
+
+  // io.to(room).emit(...) — one frame per member
+  const toRoom = (room: string, event: string, data: Record<string, unknown>) =>
+    online.forEach((socket, id) => { if (socket.room === room) deliver(id, event, data); });
+
+  const offs = [
+    bus.on("connect", ({ clientId }) => later(`up:${clientId}`, () => {
+      online.set(clientId, { user: clientId, room: null });
+      deliver(clientId, "connected", { id: clientId, online: online.size });
+    })),
+
+    bus.on("disconnect", ({ clientId, reason }) => later(`up:${clientId}`, () => {
+      const socket = online.get(clientId);
+      if (!socket) return;
+      online.delete(clientId);
+      // io.emit('user-left', socket.id)
+      online.forEach((_, id) => deliver(id, "user-left", { id: clientId, user: socket.user, reason }));
+    })),
+
+    bus.on("client:emit", ({ clientId, event, data }) => later(`up:${clientId}`, () => {
+      const socket = online.get(clientId);
+      if (!socket) return;
+      if (event === "join") {
+        socket.user = String(data.user ?? clientId);
+        socket.room = String(data.room);
+        toRoom(socket.room, "user-joined", { user: socket.user, room: socket.room });
+      } else if (event === "send-message" && socket.room) {
+        toRoom(socket.room, "new-message", { ...data, user: socket.user, room: socket.room });
+      }
+    })),
+  ];
+
+  return {
+    /** Room name → members, for the UI */
+    rooms(): Record<string, string[]> {
+      const rooms: Record<string, string[]> = {};
+      online.forEach((socket) => { if (socket.room) (rooms[socket.room] ??= []).push(socket.user); });
+      return rooms;
+    },
+    dispose() {
+      offs.forEach((off) => off());
+      timers.forEach(clearTimeout);
+      timers.clear();
+    },
+  };
+}
+
+// ─── Polling vs WebSocket ─────────────────────────────────────────────────────
+export type Transport = "websocket" | "long-polling" | "short-polling";
+
+export interface TransportStats {
+  transport: Transport;
+  /** Requests, responses and frames the listening client's connection carried */
+  wireMessages: number;
+  /** Polls answered with "nothing new" */
+  emptyResponses: number;
+  avgLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+export interface CompareOptions {
+  /** Length of the session being modelled */
+  durationMs: number;
+  /** Short polling: how often the client asks */
+  pollIntervalMs: number;
+  /** Round trip between a client and the server */
+  rttMs: number;
+  /** Long polling: how long the server holds a request before answering empty */
+  holdMs?: number;
+}
+
+const summarise = (latencies: number[]) => ({
+  avgLatencyMs: latencies.length ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : 0,
+  maxLatencyMs: latencies.length ? Math.round(Math.max(...latencies)) : 0,
+});
+
+/**
+ * Models one listener receiving the same messages over each transport.
+ * `sendTimes` are ms offsets from the start of the session at which another user hit Send.
+ */
+export function compareTransports(sendTimes: number[], opts: CompareOptions): TransportStats[] {
+  const { durationMs, pollIntervalMs, rttMs, holdMs = 25000 } = opts;
+  const half = rttMs / 2;
+  // When each message reaches the server
+  const arrivals = [...sendTimes].sort((a, b) => a - b).map((t) => t + half);
+
+  // WebSocket — one upgrade round trip, then the server pushes each message as it lands
+  const websocket: TransportStats = {
+    transport: "websocket",
+    wireMessages: 2 + arrivals.length,
+    emptyResponses: 0,
+    ...summarise(arrivals.map(() => rttMs)),
+  };
+
+  // Short polling — a request every interval; a message waits for the next poll to reach the server
+  const polls = Math.max(1, Math.ceil(durationMs / pollIntervalMs));
+  const shortLatencies: number[] = [];
+  const pollsWithData = new Set<number>();
+  for (const at of arrivals) {
+    const k = Math.ceil((at - half) / pollIntervalMs);
+    pollsWithData.add(k);
+    shortLatencies.push(k * pollIntervalMs + rttMs - (at - half));
+  }
+  const shortPolling: TransportStats = {
+    transport: "short-polling",
+    wireMessages: polls * 2,
+    emptyResponses: Math.max(0, polls - pollsWithData.size),
+    ...summarise(shortLatencies),
+  };
+
+  // Long polling — the server holds each request until there is news (or it times out),
+  // and the client immediately asks again
+  const longLatencies: number[] = [];
+  let wire = 0;
+  let empty = 0;
+  let listening = half; // when the current request reaches the server
+  let i = 0;
+  while (listening < durationMs || i < arrivals.length) {
+    wire++;
+    const next = arrivals[i];
+    if (next === undefined || next > listening + holdMs) {
+      // Held until the timeout, answered empty — unless the session ends first
+      if (next === undefined && listening + holdMs > durationMs) break;
+      wire++;
+      empty++;
+      listening += holdMs + rttMs;
+      continue;
+    }
+    // Answer as soon as something is waiting, with everything that is waiting
+    wire++;
+    const answeredAt = Math.max(listening, next);
+    while (i < arrivals.length && arrivals[i] <= answeredAt) {
+      longLatencies.push(answeredAt + half - (arrivals[i] - half));
+      i++;
+    }
+    listening = answeredAt + rttMs;
+  }
+  const longPolling: TransportStats = {
+    transport: "long-polling",
+    wireMessages: wire,
+    emptyResponses: empty,
+    ...summarise(longLatencies),
+  };
+
+  return [websocket, longPolling, shortPolling];
+}
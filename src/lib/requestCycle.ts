@@ -0,0 +1,164 @@
+/**
+ * requestCycle.ts
+ * The hops of one web request, as data for the step-through simulation.
+ * - CYCLE_NODES                 → the boxes on the diagram, left to right
+ * - CYCLE_FAILURES              → failures a learner can inject
+ * - simulateCycle(failure)      → { steps, outcome } — each step has timing and narration
+ */
+
+export type CycleNodeId = "browser" | "dns" | "lb" | "server" | "middleware" | "db";
+
+export const CYCLE_NODES: { id: CycleNodeId; label: string }[] = [
+  { id: "browser", label: "Browser" },
+  { id: "dns", label: "DNS" },
+  { id: "lb", label: "Load Balancer" },
+  { id: "server", label: "App Server" },
+  { id: "middleware", label: "Middleware" },
+  { id: "db", label: "Database" },
+];
+
+export type CycleFailure = "none" | "dns" | "tls" | "server-down" | "auth" | "db-timeout";
+
+export const CYCLE_FAILURES: { id: CycleFailure; label: string }[] = [
+  { id: "none", label: "Happy path" },
+  { id: "dns", label: "DNS can't resolve the domain" },
+  { id: "tls", label: "Expired TLS certificate" },
+  { id: "server-down", label: "No healthy servers (502)" },
+  { id: "auth", label: "Missing / bad token (401)" },
+  { id: "db-timeout", label: "Database timeout (500)" },
+];
+
+export interface CycleStep {
+  title: string;
+  from: CycleNodeId;
+  to: CycleNodeId;
+  ms: number;
+  /** What travels along the arrow */
+  packet: string;
+  narration: string;
+  failed?: boolean;
+}
+
+export interface CycleOutcome {
+  ok: boolean;
+  /** Status line or browser error the learner ends up seeing */
+  label: string;
+}
+
+const DNS: CycleStep = {
+  title: "DNS lookup",
+  from: "browser", to: "dns", ms: 24,
+  packet: "api.shop.com → 203.0.113.10",
+  narration: "First, the browser asks DNS to turn the domain name api dot shop dot com into an IP address. A cached answer takes a few milliseconds.",
+};
+
+const HANDSHAKE: CycleStep = {
+  title: "TCP + TLS handshake",
+  from: "browser", to: "lb", ms: 48,
+  packet: "SYN · SYN-ACK · ACK · TLS 1.3 hello",
+  narration: "Next, the browser opens a TCP connection to that address and runs the TLS handshake, agreeing on encryption keys before any data is sent.",
+};
+
+const REQUEST: CycleStep = {
+  title: "HTTP request sent",
+  from: "browser", to: "lb", ms: 12,
+  packet: "GET /api/orders · Authorization: Bearer …",
+  narration: "Now the actual HTTP request travels over the encrypted connection: the method, the path, headers such as the bearer token, and any body.",
+};
+
+const BALANCE: CycleStep = {
+  title: "Load balancer routes",
+  from: "lb", to: "server", ms: 3,
+  packet: "→ app-2 (healthy, 41% CPU)",
+  narration: "The load balancer picks a healthy application server, here app two, and forwards the request to it.",
+};
+
+const MIDDLEWARE: CycleStep = {
+  title: "Middleware runs",
+  from: "server", to: "middleware", ms: 4,
+  packet: "parse JSON · verify JWT · rate limit · log",
+  narration: "Before the route handler runs, middleware parses the body, verifies the token, applies rate limits and writes a log line.",
+};
+
+const QUERY: CycleStep = {
+  title: "Database query",
+  from: "middleware", to: "db", ms: 18,
+  packet: "SELECT * FROM orders WHERE user_id = 42",
+  narration: "The route handler queries the database for this user's orders. An indexed lookup like this usually takes a few milliseconds.",
+};
+
+const BUILD: CycleStep = {
+  title: "Response built",
+  from: "db", to: "server", ms: 5,
+  packet: "3 rows → JSON",
+  narration: "The rows come back, and the server serialises them to JSON with a 200 OK status and cache headers.",
+};
+
+const DELIVER: CycleStep = {
+  title: "Response delivered",
+  from: "server", to: "browser", ms: 36,
+  packet: "HTTP/1.1 200 OK · 1.2 KB JSON",
+  narration: "Finally the response travels back through the load balancer to the browser, which parses the JSON and renders the orders on screen.",
+};
+
+export function simulateCycle(failure: CycleFailure): { steps: CycleStep[]; outcome: CycleOutcome } {
+  switch (failure) {
+    case "dns":
+      return {
+        steps: [{
+          ...DNS, ms: 310, failed: true,
+          packet: "api.shop.com → NXDOMAIN",
+          narration: "The DNS resolver has no record for this domain, so it answers NXDOMAIN. Without an IP address the browser cannot even open a connection, and the request ends here.",
+        }],
+        outcome: { ok: false, label: "DNS_PROBE_FINISHED_NXDOMAIN" },
+      };
+    case "tls":
+      return {
+        steps: [DNS, {
+          ...HANDSHAKE, ms: 41, failed: true,
+          packet: "certificate expired 3 days ago",
+          narration: "The TCP connection opens, but the server's TLS certificate has expired. The browser refuses to trust it and aborts before sending any HTTP at all.",
+        }],
+        outcome: { ok: false, label: "NET::ERR_CERT_DATE_INVALID" },
+      };
+    case "server-down":
+      return {
+        steps: [DNS, HANDSHAKE, REQUEST, {
+          ...BALANCE, ms: 2, failed: true, to: "lb",
+          packet: "0 / 3 instances healthy",
+          narration: "The load balancer's health checks show no healthy application servers, so there is nowhere to send the request.",
+        }, {
+          ...DELIVER, from: "lb", ms: 30, packet: "HTTP/1.1 502 Bad Gateway",
+          narration: "It answers on the servers' behalf with 502 Bad Gateway. The app code never ran.",
+        }],
+        outcome: { ok: false, label: "502 Bad Gateway" },
+      };
+    case "auth":
+      return {
+        steps: [DNS, HANDSHAKE, { ...REQUEST, packet: "GET /api/orders · no Authorization header" }, BALANCE, {
+          ...MIDDLEWARE, failed: true, packet: "verify JWT ✗ — token missing",
+          narration: "The authentication middleware finds no valid token. It stops the chain right here, so the route handler and the database are never touched.",
+        }, {
+          ...DELIVER, from: "middleware", ms: 34, packet: "HTTP/1.1 401 Unauthorized",
+          narration: "The server responds with 401 Unauthorized, and the browser can send the user to the login page.",
+        }],
+        outcome: { ok: false, label: "401 Unauthorized" },
+      };
+    case "db-timeout":
+      return {
+        steps: [DNS, HANDSHAKE, REQUEST, BALANCE, MIDDLEWARE, {
+          ...QUERY, ms: 5000, failed: true, packet: "no reply — query timed out after 5 s",
+          narration: "The database is overloaded and does not answer. After five seconds the query times out, and the handler throws an error.",
+        }, {
+          ...DELIVER, from: "server", ms: 36, packet: "HTTP/1.1 500 Internal Server Error",
+          narration: "The error handler turns that into a 500 Internal Server Error. The user waited over five seconds for a failure, which is why timeouts and retries matter.",
+        }],
+        outcome: { ok: false, label: "500 Internal Server Error" },
+      };
+    default:
+      return {
+        steps: [DNS, HANDSHAKE, REQUEST, BALANCE, MIDDLEWARE, QUERY, BUILD, DELIVER],
+        outcome: { ok: true, label: "200 OK" },
+      };
+  }
+}
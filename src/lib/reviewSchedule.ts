@@ -0,0 +1,29 @@
+/**
+ * reviewSchedule.ts
+ * Flashcard review state kept in localStorage, per deck.
+ * - loadReviewSchedule(deckId)                    → { [cardId]: CardSchedule }
+ * - recordReview(deckId, cardId, grade, today)    → the updated schedule for the deck
+ */
+import { scheduleReview, type CardSchedule, type ReviewGrade } from "./flashcards";
+
+const KEY_PREFIX = "elexico:flashcards:";
+
+export type ReviewSchedule = Record<string, CardSchedule>;
+
+export function loadReviewSchedule(deckId: string): ReviewSchedule {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + deckId);
+    return raw ? (JSON.parse(raw) as ReviewSchedule) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function recordReview(deckId: string, cardId: string, grade: ReviewGrade, today: string): ReviewSchedule {
+  const schedule = loadReviewSchedule(deckId);
+  schedule[cardId] = scheduleReview(schedule[cardId], grade, today);
+  try {
+    localStorage.setItem(KEY_PREFIX + deckId, JSON.stringify(schedule));
+  } catch { /* storage full or disabled — the review still counts for this session */ }
+  return schedule;
+}
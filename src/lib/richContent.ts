@@ -0,0 +1,239 @@
+/**
+ * richContent.ts
+ * One model for deep-dive content, shared by the modal, the PDF export and narration.
+ * - toRichBlocks(content)     → RichBlock[] (parses Markdown-style text, passes blocks through)
+ * - richBlocksToMarkdown()    → text the editor can show and parse back losslessly
+ * - richBlocksToSentences()   → plain sentences for TTS / summaries
+ * - richBlocksToHtml()        → static HTML for the print window
+ * - escapeHtml(text) / safeUrl(url) → text and links made safe for that HTML
+ * - splitInlineCode(text)     → [{ text, code }] runs for `inline code`
+ *
+ * Text syntax: blank lines separate blocks; "#### Heading", "- item" / "• item",
+ * "1. step", "> Tip: …" callouts, ``` fenced code, ![alt](src "caption") images and
+ * | pipe | tables |. A line directly above a list becomes its heading.
+ */
+import type { RichBlock, RichContent } from "../data/slides";
+
+// ─── Inline code ──────────────────────────────────────────────────────────────
+export interface InlineRun {
+  text: string;
+  code: boolean;
+}
+
+export function splitInlineCode(text: string): InlineRun[] {
+  return text
+    .split(/(`[^`]+`)/)
+    .filter(Boolean)
+    .map((part) =>
+      part.length > 2 && part.startsWith("`") && part.endsWith("`")
+        ? { text: part.slice(1, -1), code: true }
+        : { text: part, code: false },
+    );
+}
+
+function stripInlineCode(text: string): string {
+  return text.replace(/`([^`]+)`/g, "$1");
+}
+
+// ─── Text → blocks ────────────────────────────────────────────────────────────
+const BULLET = /^[•\-*]\s+/;
+const NUMBERED = /^(\d+)[.)]\s+/;
+const CALLOUT_TONE = /^(tip|note|warning)\s*[:—–-]\s*/i;
+const IMAGE = /^!\[([^\]]*)\]\((\S+?)(?:\s+"([^"]*)")?\)$/;
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, "").replace(/\|$/, "").split("|").map((c) => c.trim());
+}
+
+export function parseRichText(text: string): RichBlock[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: RichBlock[] = [];
+  let para: string[] = [];
+
+  const flushPara = () => {
+    if (para.length) blocks.push({ type: "paragraph", text: para.join(" ") });
+    para = [];
+  };
+  // "Types of servers include:" directly above a list reads as the list's heading
+  const flushLead = () => {
+    if (para.length) blocks.push({ type: "heading", text: para.join(" ") });
+    para = [];
+  };
+  // Collect consecutive lines matching `re`, starting at lines[i]
+  const collect = (start: number, re: RegExp): [string[], number] => {
+    const out: string[] = [];
+    let i = start;
+    while (i < lines.length && re.test(lines[i].trim())) out.push(lines[i++].trim());
+    return [out, i - 1];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const t = lines[i].trim();
+    if (!t) { flushPara(); continue; }
+
+    const fence = t.match(/^```([\w+-]*)\s*$/);
+    if (fence) {
+      flushPara();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith("```")) code.push(lines[i++]);
+      blocks.push(fence[1] ? { type: "code", code: code.join("\n"), language: fence[1] } : { type: "code", code: code.join("\n") });
+      continue;
+    }
+
+    const heading = t.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flushPara();
+      blocks.push({ type: "heading", text: heading[1].trim() });
+      continue;
+    }
+
+    if (t.startsWith(">")) {
+      flushPara();
+      const [quoted, end] = collect(i, /^>/);
+      i = end;
+      let body = quoted.map((l) => l.replace(/^>\s?/, "")).join(" ").trim();
+      const tone = body.match(CALLOUT_TONE);
+      if (tone) body = body.slice(tone[0].length);
+      blocks.push(tone
+        ? { type: "callout", text: body, tone: tone[1].toLowerCase() as "tip" | "note" | "warning" }
+        : { type: "callout", text: body });
+      continue;
+    }
+
+    const image = t.match(IMAGE);
+    if (image) {
+      flushPara();
+      blocks.push(image[3]
+        ? { type: "image", alt: image[1], src: image[2], caption: image[3] }
+        : { type: "image", alt: image[1], src: image[2] });
+      continue;
+    }
+
+    if (t.startsWith("|")) {
+      flushPara();
+      const [rows, end] = collect(i, /^\|/);
+      i = end;
+      const cells = rows.filter((r) => !TABLE_SEPARATOR.test(r)).map(splitTableRow);
+      blocks.push({ type: "table", headers: cells[0] ?? [], rows: cells.slice(1) });
+      continue;
+    }
+
+    if (BULLET.test(t)) {
+      flushLead();
+      const [items, end] = collect(i, BULLET);
+      i = end;
+      blocks.push({ type: "bullets", items: items.map((l) => l.replace(BULLET, "").trim()) });
+      continue;
+    }
+
+    const numbered = t.match(NUMBERED);
+    if (numbered) {
+      flushLead();
+      const [items, end] = collect(i, NUMBERED);
+      i = end;
+      const start = Number(numbered[1]);
+      const list = items.map((l) => l.replace(NUMBERED, "").trim());
+      blocks.push(start === 1 ? { type: "numbered", items: list } : { type: "numbered", items: list, start });
+      continue;
+    }
+
+    para.push(t);
+  }
+  flushPara();
+  return blocks;
+}
+
+export function toRichBlocks(content: RichContent): RichBlock[] {
+  return typeof content === "string" ? parseRichText(content) : content;
+}
+
+// ─── Blocks → text ────────────────────────────────────────────────────────────
+export function richBlocksToMarkdown(blocks: RichBlock[]): string {
+  return blocks.map((b) => {
+    switch (b.type) {
+      case "heading":   return `#### ${b.text}`;
+      case "paragraph": return b.text;
+      case "bullets":   return b.items.map((it) => `- ${it}`).join("\n");
+      case "numbered":  return b.items.map((it, i) => `${(b.start ?? 1) + i}. ${it}`).join("\n");
+      case "callout":   return `> ${b.tone ? `${b.tone[0].toUpperCase()}${b.tone.slice(1)}: ` : ""}${b.text}`;
+      case "code":      return `\`\`\`${b.language ?? ""}\n${b.code}\n\`\`\``;
+      case "image":     return `![${b.alt}](${b.src}${b.caption ? ` "${b.caption}"` : ""})`;
+      case "table":     return [b.headers, b.headers.map(() => "---"), ...b.rows].map((r) => `| ${r.join(" | ")} |`).join("\n");
+    }
+  }).join("\n\n");
+}
+
+export function richContentToMarkdown(content: RichContent): string {
+  return typeof content === "string" ? content : richBlocksToMarkdown(content);
+}
+
+function asSentence(text: string): string {
+  const s = stripInlineCode(text).trim();
+  return /[.!?]$/.test(s) ? s : `${s}.`;
+}
+
+/** Speakable sentences in reading order — code, images and headings are skipped */
+export function richBlocksToSentences(blocks: RichBlock[]): string[] {
+  const out: string[] = [];
+  for (const b of blocks) {
+    switch (b.type) {
+      case "paragraph":
+      case "callout":
+        out.push(...stripInlineCode(b.text).split(/(?<=[.!?])\s+/).map((s) => s.trim()).filter(Boolean));
+        break;
+      case "bullets":
+      case "numbered":
+        out.push(...b.items.map(asSentence));
+        break;
+      case "table":
+        out.push(...b.rows.map((row) => asSentence(row.map((cell, i) => (b.headers[i] ? `${b.headers[i]}: ${cell}` : cell)).join(", "))));
+        break;
+    }
+  }
+  return out;
+}
+
+// ─── Blocks → HTML (print export) ─────────────────────────────────────────────
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** http(s), data:image and relative links pass; anything else (javascript:, vbscript:, …) becomes "" */
+export function safeUrl(url: string): string {
+  const trimmed = url.trim();
+  if (/^data:image\//i.test(trimmed)) return trimmed;
+  try {
+    const { protocol } = new URL(trimmed, "https://relative.invalid/");
+    return protocol === "http:" || protocol === "https:" ? trimmed : "";
+  } catch {
+    return "";
+  }
+}
+
+function inlineHtml(text: string): string {
+  return splitInlineCode(text)
+    .map((run) => (run.code ? `<code>${escapeHtml(run.text)}</code>` : escapeHtml(run.text)))
+    .join("");
+}
+
+export function richBlocksToHtml(blocks: RichBlock[]): string {
+  return blocks.map((b) => {
+    switch (b.type) {
+      case "heading":   return `<h4>${inlineHtml(b.text)}</h4>`;
+      case "paragraph": return `<p>${inlineHtml(b.text)}</p>`;
+      case "bullets":   return `<ul>${b.items.map((it) => `<li>${inlineHtml(it)}</li>`).join("")}</ul>`;
+      case "numbered":  return `<ol start="${Number(b.start ?? 1) || 1}">${b.items.map((it) => `<li>${inlineHtml(it)}</li>`).join("")}</ol>`;
+      case "callout":   return `<div class="callout ${escapeHtml(b.tone ?? "note")}">${inlineHtml(b.text)}</div>`;
+      case "code":      return `<pre><code>${escapeHtml(b.code)}</code></pre>`;
+      case "image":     return `<figure><img src="${escapeHtml(safeUrl(b.src))}" alt="${escapeHtml(b.alt)}" crossorigin="anonymous" />${b.caption ? `<figcaption>${inlineHtml(b.caption)}</figcaption>` : ""}</figure>`;
+      case "table":     return `<table><thead><tr>${b.headers.map((h) => `<th>${inlineHtml(h)}</th>`).join("")}</tr></thead><tbody>${b.rows.map((r) => `<tr>${r.map((c) => `<td>${inlineHtml(c)}</td>`).join("")}</tr>`).join("")}</tbody></table>`;
+    }
+  }).join("");
+}
@@ -0,0 +1,68 @@
+/**
+ * routes.ts
+ * The URL scheme for decks, slides, the AI panel tab and the deep dive.
+ *
+ *   /                                         ← track picker (or the gate)
+ *   /deck/backend                             ← a deck, resuming its saved slide
+ *   /deck/backend/slide/5?panel=chat&deepdive=1
+ *   /present/k3x9…                            ← a presenter window, linked to its audience window by that id
+ *
+ * - parseRoute(pathname, search) → Route (anything unrecognised falls back to the picker / defaults)
+ * - routeToUrl(route)            → the path + query for a Route
+ */
+
+export const PANEL_TABS = ["summary", "chat", "listen"] as const;
+export type PanelTab = (typeof PANEL_TABS)[number];
+
+export interface Route {
+  deckId: string | null;
+  /** 1-based, as shown in the UI; null when the URL names no slide */
+  slide: number | null;
+  panel: PanelTab;
+  deepDive: boolean;
+  /** Set in a presenter window — the id of the presentation it controls */
+  presenter: string | null;
+}
+
+export const HOME: Route = { deckId: null, slide: null, panel: "summary", deepDive: false, presenter: null };
+
+// Vite's base path, without the trailing slash, so the app also works from a sub-directory
+const BASE = import.meta.env.BASE_URL.replace(/\/$/, "");
+
+const DECK_PATH = /^\/deck\/([^/]+)(?:\/slide\/(\d+))?\/?$/;
+const PRESENT_PATH = /^\/present\/([\w-]+)\/?$/;
+
+export function parseRoute(pathname: string, search: string): Route {
+  const path = pathname.startsWith(BASE) ? pathname.slice(BASE.length) || "/" : pathname;
+  const present = path.match(PRESENT_PATH);
+  if (present) return { ...HOME, presenter: present[1] };
+  const match = path.match(DECK_PATH);
+  if (!match) return HOME;
+  let deckId: string;
+  try {
+    deckId = decodeURIComponent(match[1]);
+  } catch {
+    // A malformed escape in a pasted link — open the deck list rather than fail
+    return HOME;
+  }
+  const params = new URLSearchParams(search);
+  const panel = params.get("panel");
+  return {
+    deckId,
+    slide: match[2] ? Math.max(1, Number(match[2])) : null,
+    panel: PANEL_TABS.includes(panel as PanelTab) ? (panel as PanelTab) : "summary",
+    deepDive: params.get("deepdive") === "1",
+    presenter: null,
+  };
+}
+
+export function routeToUrl(route: Route): string {
+  if (route.presenter) return `${BASE}/present/${route.presenter}`;
+  if (!route.deckId) return `${BASE}/`;
+  const params = new URLSearchParams();
+  if (route.panel !== "summary") params.set("panel", route.panel);
+  if (route.deepDive) params.set("deepdive", "1");
+  const query = params.toString();
+  const slide = route.slide ? `/slide/${route.slide}` : "";
+  return `${BASE}/deck/${encodeURIComponent(route.deckId)}${slide}${query ? `?${query}` : ""}`;
+}
@@ -0,0 +1,52 @@
+/**
+ * runSnippet.ts
+ * Runs a JavaScript code example in a throwaway Web Worker (see sandbox.worker.ts).
+ * - runSnippet(code) → Promise<RunLine[]> — console output, harness requests and mock responses
+ *
+ * Every run gets a fresh worker which is terminated afterwards, so an infinite loop
+ * or a leaked timer can never outlive its run.
+ */
+
+export type RunLineKind = "log" | "info" | "warn" | "error" | "request" | "response" | "emit";
+
+export interface RunLine {
+  kind: RunLineKind;
+  text: string;
+}
+
+/** Messages posted by the worker */
+export type SandboxMessage =
+  | { type: "line"; line: RunLine }
+  | { type: "done" };
+
+const RUN_TIMEOUT_MS = 4000;
+
+export function runSnippet(code: string): Promise<RunLine[]> {
+  return new Promise((resolve) => {
+    const lines: RunLine[] = [];
+    const worker = new Worker(new URL("./sandbox.worker.ts", import.meta.url), { type: "module" });
+
+    const finish = (extra?: RunLine) => {
+      clearTimeout(timer);
+      worker.terminate();
+      if (extra) lines.push(extra);
+      resolve(lines);
+    };
+
+    const timer = setTimeout(
+      () => finish({ kind: "error", text: `Stopped after ${RUN_TIMEOUT_MS / 1000}s — is there an infinite loop or a request that never responds?` }),
+      RUN_TIMEOUT_MS,
+    );
+
+    worker.onmessage = (e: MessageEvent<SandboxMessage>) => {
+      if (e.data.type === "line") lines.push(e.data.line);
+      else finish();
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      finish({ kind: "error", text: e.message || "The sandbox crashed" });
+    };
+
+    worker.postMessage({ code });
+  });
+}
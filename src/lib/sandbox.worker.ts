@@ -0,0 +1,498 @@
+/**
+ * sandbox.worker.ts
+ * Executes one JavaScript snippet against in-memory stand-ins for the libraries the
+ * slides use, then drives it with a few harness requests so learners see it work.
+ *
+ * Available to snippets: require("express" | "jsonwebtoken" | "socket.io" | "dotenv"),
+ * express, jwt, io, authMiddleware, User, process.env and console. Network APIs
+ * (fetch, XMLHttpRequest, WebSocket, EventSource, importScripts, import()) throw.
+ */
+import type { RunLine, RunLineKind, SandboxMessage } from "./runSnippet";
+
+type Fn = (...args: unknown[]) => unknown;
+type Dict = Record<string, unknown>;
+
+const post = (msg: SandboxMessage) => postMessage(msg);
+const emitLine = (kind: RunLineKind, text: string) => post({ type: "line", line: { kind, text } satisfies RunLine });
+
+// ─── Output formatting ────────────────────────────────────────────────────────
+function format(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === "function") return `[Function ${value.name || "anonymous"}]`;
+  if (value === undefined) return "undefined";
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+const sandboxConsole = {
+  log:   (...args: unknown[]) => emitLine("log", args.map(format).join(" ")),
+  info:  (...args: unknown[]) => emitLine("log", args.map(format).join(" ")),
+  debug: (...args: unknown[]) => emitLine("log", args.map(format).join(" ")),
+  warn:  (...args: unknown[]) => emitLine("warn", args.map(format).join(" ")),
+  error: (...args: unknown[]) => emitLine("error", args.map(format).join(" ")),
+};
+
+// ─── Network lockdown ─────────────────────────────────────────────────────────
+const NETWORK_APIS = ["fetch", "XMLHttpRequest", "WebSocket", "EventSource", "importScripts"];
+
+function blocked(name: string) {
+  // A plain function, so `new XMLHttpRequest()` throws this message too
+  return function () {
+    throw new Error(`${name} is disabled — snippets run offline in the sandbox`);
+  };
+}
+
+for (const name of NETWORK_APIS) {
+  Object.defineProperty(self, name, { value: blocked(name), writable: false, configurable: false });
+}
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+const env: Record<string, string> = {
+  NODE_ENV: "development",
+  PORT: "3000",
+  JWT_SECRET: "sandbox-secret",
+  DATABASE_URL: "postgres://sandbox/elexico",
+};
+
+const users = [
+  { id: 42, name: "Sarah Ahmed", email: "sarah@example.com", role: "admin" },
+  { id: 7, name: "Ravi Kumar", email: "ravi@example.com", role: "user" },
+];
+
+const User = {
+  async findById(id: unknown) {
+    return users.find((u) => String(u.id) === String(id)) ?? null;
+  },
+  async findOne(query: Dict = {}) {
+    return users.find((u) => Object.entries(query).every(([k, v]) => (u as Dict)[k] === v)) ?? null;
+  },
+  async find() {
+    return [...users];
+  },
+  async create(data: Dict) {
+    const user = { id: users.length ? Math.max(...users.map((u) => u.id)) + 1 : 1, role: "user", ...data } as (typeof users)[number];
+    users.push(user);
+    return user;
+  },
+};
+
+// ─── jsonwebtoken stand-in ────────────────────────────────────────────────────
+// Same token shape as real JWTs; the signature is a simple keyed hash, not HMAC.
+function base64url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64url(part: string): string {
+  const bin = atob(part.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+function signature(data: string, secret: string): string {
+  let h = 0x811c9dc5;
+  for (const ch of `${data}.${secret}`) h = Math.imul(h ^ ch.charCodeAt(0), 0x01000193) >>> 0;
+  return base64url(h.toString(16).padStart(8, "0"));
+}
+
+function seconds(expiresIn: unknown): number | undefined {
+  if (typeof expiresIn === "number") return expiresIn;
+  const m = typeof expiresIn === "string" ? expiresIn.match(/^(\d+)\s*([smhd])?$/) : null;
+  if (!m) return undefined;
+  return Number(m[1]) * { s: 1, m: 60, h: 3600, d: 86400 }[(m[2] ?? "s") as "s" | "m" | "h" | "d"];
+}
+
+function jwtError(name: string, message: string): Error {
+  const err = new Error(message);
+  err.name = name;
+  return err;
+}
+
+const jwt = {
+  sign(payload: Dict, secret: string, options: Dict = {}) {
+    const iat = Math.floor(Date.now() / 1000);
+    const ttl = seconds(options.expiresIn);
+    const body = { ...payload, iat, ...(ttl ? { exp: iat + ttl } : {}) };
+    const head = `${base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }))}.${base64url(JSON.stringify(body))}`;
+    return `${head}.${signature(head, String(secret))}`;
+  },
+  decode(token: string) {
+    try {
+      return JSON.parse(fromBase64url(String(token).split(".")[1])) as Dict;
+    } catch {
+      return null;
+    }
+  },
+  verify(token: string, secret: string) {
+    const parts = String(token ?? "").split(".");
+    if (parts.length !== 3) throw jwtError("JsonWebTokenError", "jwt malformed");
+    if (signature(`${parts[0]}.${parts[1]}`, String(secret)) !== parts[2]) throw jwtError("JsonWebTokenError", "invalid signature");
+    const payload = jwt.decode(token);
+    if (!payload) throw jwtError("JsonWebTokenError", "jwt malformed");
+    if (typeof payload.exp === "number" && payload.exp < Date.now() / 1000) throw jwtError("TokenExpiredError", "jwt expired");
+    return payload;
+  },
+};
+
+const VALID_TOKEN = jwt.sign({ id: 42, role: "admin" }, env.JWT_SECRET, { expiresIn: "1h" });
+
+// ─── Express stand-in ─────────────────────────────────────────────────────────
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK", 201: "Created", 204: "No Content", 400: "Bad Request", 401: "Unauthorized",
+  403: "Forbidden", 404: "Not Found", 422: "Unprocessable Entity", 500: "Internal Server Error",
+};
+
+interface MockRequest {
+  method: string;
+  path: string;
+  url: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+  user?: unknown;
+  get(name: string): string | undefined;
+  header(name: string): string | undefined;
+}
+
+interface MockResponse {
+  statusCode: number;
+  headersSent: boolean;
+  status(code: number): MockResponse;
+  sendStatus(code: number): MockResponse;
+  set(name: string, value: string): MockResponse;
+  header(name: string, value: string): MockResponse;
+  setHeader(name: string, value: string): MockResponse;
+  json(body: unknown): MockResponse;
+  send(body?: unknown): MockResponse;
+  end(body?: unknown): MockResponse;
+}
+
+interface Layer {
+  method: string | null;
+  path: string;
+  handlers: Fn[];
+  /** Route layers match the whole path, `use` layers match a prefix */
+  route: boolean;
+}
+
+function makeRequest(method: string, url: string, headers: Record<string, string>, body?: unknown): MockRequest {
+  const [path, search = ""] = url.split("?");
+  const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+  return {
+    method, path, url, params: {}, headers: lower, body,
+    query: Object.fromEntries(new URLSearchParams(search)),
+    get: (name) => lower[name.toLowerCase()],
+    header: (name) => lower[name.toLowerCase()],
+  };
+}
+
+function makeResponse(onFinish: (status: number, body: unknown) => void): MockResponse {
+  const res: MockResponse = {
+    statusCode: 200,
+    headersSent: false,
+    status(code) { res.statusCode = code; return res; },
+    sendStatus(code) { res.statusCode = code; return res.send(STATUS_TEXT[code] ?? String(code)); },
+    set() { return res; },
+    header() { return res; },
+    setHeader() { return res; },
+    json(body) { return res.send(body); },
+    send(body) {
+      if (res.headersSent) {
+        emitLine("error", "Error [ERR_HTTP_HEADERS_SENT]: Cannot set headers after they are sent to the client");
+        return res;
+      }
+      res.headersSent = true;
+      onFinish(res.statusCode, body);
+      return res;
+    },
+    end(body) { return res.send(body); },
+  };
+  return res;
+}
+
+function pathPattern(path: string, route: boolean): RegExp {
+  const escaped = path.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\\\*/g, ".*").replace(/:(\w+)/g, "(?<$1>[^/]+)");
+  return new RegExp(`^${escaped === "/" && !route ? "" : escaped}${route ? "/?$" : "(/|$)"}`);
+}
+
+const registeredHandlers = new Set<Fn>();
+let app: ReturnType<typeof createApp> | null = null;
+
+function createApp() {
+  const layers: Layer[] = [];
+
+  const add = (method: string | null, route: boolean) => (...args: unknown[]) => {
+    const path = typeof args[0] === "string" ? (args.shift() as string) : "/";
+    const handlers = args.flat().filter((h): h is Fn => typeof h === "function");
+    handlers.forEach((h) => registeredHandlers.add(h));
+    layers.push({ method, path, handlers, route });
+    return instance;
+  };
+
+  /** Run one request through the middleware stack; resolves with the response or null */
+  const handle = (req: MockRequest) =>
+    new Promise<{ status: number; body: unknown } | null>((resolve) => {
+      const res = makeResponse((status, body) => resolve({ status, body }));
+      const stack = layers.flatMap((layer) => {
+        if (layer.method && layer.method !== req.method) return [];
+        const match = req.path.match(pathPattern(layer.path, layer.route));
+        return match ? layer.handlers.map((fn) => ({ fn, params: match.groups ?? {} })) : [];
+      });
+
+      let i = 0;
+      const next = (err?: unknown) => {
+        if (res.headersSent) return;
+        while (i < stack.length) {
+          const { fn, params } = stack[i++];
+          // Error handlers take four arguments and only run once something has failed
+          if ((fn.length === 4) !== (err !== undefined)) continue;
+          req.params = params;
+          try {
+            const out = err !== undefined ? fn(err, req, res, next) : fn(req, res, next);
+            if (out instanceof Promise) out.catch((e: unknown) => next(e ?? new Error("Rejected")));
+          } catch (e) {
+            next(e ?? new Error("Thrown"));
+          }
+          return;
+        }
+        if (err !== undefined) {
+          emitLine("error", format(err));
+          res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+        } else {
+          res.status(404).send(`Cannot ${req.method} ${req.path}`);
+        }
+      };
+      next();
+      // Handlers that never respond
+      setTimeout(() => resolve(null), 1000);
+    });
+
+  const instance = {
+    use: add(null, false),
+    all: add(null, true),
+    get: add("GET", true),
+    post: add("POST", true),
+    put: add("PUT", true),
+    patch: add("PATCH", true),
+    delete: add("DELETE", true),
+    listen(port: unknown, cb?: unknown) {
+      emitLine("info", `Mock server listening on :${Number(port) || 3000} (in memory — no real network)`);
+      if (typeof cb === "function") cb();
+      return { close: () => emitLine("info", "Mock server closed") };
+    },
+    get routes() {
+      return layers.filter((l) => l.route && l.method);
+    },
+    get hasMiddleware() {
+      return layers.some((l) => !l.route) || layers.some((l) => l.handlers.length > 1);
+    },
+    handle,
+  };
+  return instance;
+}
+
+function express() {
+  app = createApp();
+  return app;
+}
+express.json = () => function jsonBodyParser(_req: unknown, _res: unknown, next: Fn) { next(); };
+express.urlencoded = () => function urlencodedParser(_req: unknown, _res: unknown, next: Fn) { next(); };
+express.static = () => function serveStatic(_req: unknown, _res: unknown, next: Fn) { next(); };
+express.Router = () => createApp();
+
+function authMiddleware(req: MockRequest, res: MockResponse, next: Fn) {
+  const token = req.headers.authorization?.split(" ")[1];
+  if (!token) return res.status(401).json({ error: "Unauthorized" });
+  try {
+    req.user = jwt.verify(token, env.JWT_SECRET);
+    next();
+  } catch (err) {
+    res.status(401).json({ error: (err as Error).message });
+  }
+}
+
+// ─── Socket.IO stand-in ───────────────────────────────────────────────────────
+type Listeners = Record<string, Fn[]>;
+
+const ioListeners: Listeners = {};
+
+const broadcast = (target: string) => ({
+  emit(event: string, data?: unknown) {
+    emitLine("emit", `⇉ ${target} · '${event}' ${data === undefined ? "" : format(data)}`.trim());
+    return true;
+  },
+});
+
+const io = {
+  on(event: string, fn: Fn) {
+    (ioListeners[event] ??= []).push(fn);
+    return io;
+  },
+  emit: (event: string, data?: unknown) => broadcast("everyone").emit(event, data),
+  to: (room: string) => broadcast(`room "${room}"`),
+  in: (room: string) => broadcast(`room "${room}"`),
+};
+
+function createSocket(id: string) {
+  const entry = { id, listeners: {} as Listeners, rooms: new Set<string>() };
+  const socket = {
+    id,
+    handshake: { auth: { token: VALID_TOKEN }, query: {} },
+    on(event: string, fn: Fn) {
+      (entry.listeners[event] ??= []).push(fn);
+      return socket;
+    },
+    emit(event: string, data?: unknown) {
+      emitLine("emit", `→ ${id} · '${event}' ${data === undefined ? "" : format(data)}`.trim());
+      return true;
+    },
+    join(room: string) {
+      entry.rooms.add(room);
+      emitLine("info", `${id} joined room "${room}"`);
+    },
+    leave(room: string) {
+      entry.rooms.delete(room);
+    },
+    to: (room: string) => broadcast(`room "${room}" except ${id}`),
+    broadcast: broadcast(`everyone except ${id}`),
+    disconnect() { /* the harness fires 'disconnect' itself */ },
+  };
+  return { socket, entry };
+}
+
+// ─── require() ────────────────────────────────────────────────────────────────
+const MODULES: Record<string, unknown> = {
+  express,
+  jsonwebtoken: jwt,
+  "socket.io": { Server: function Server() { return io; } },
+  dotenv: { config: () => ({ parsed: env }) },
+};
+
+function sandboxRequire(name: string) {
+  if (name in MODULES) return MODULES[name];
+  throw new Error(`Cannot find module '${name}' — the sandbox provides ${Object.keys(MODULES).join(", ")}`);
+}
+
+// ─── Harness ──────────────────────────────────────────────────────────────────
+function describe(result: { status: number; body: unknown } | null): string {
+  if (!result) return "⋯ no response after 1s — did the handler forget res.json() or next()?";
+  return `← ${result.status} ${STATUS_TEXT[result.status] ?? ""} ${result.body === undefined ? "" : format(result.body)}`.replace(/\s+$/, "");
+}
+
+const SAMPLE_BODY = { name: "Priya Singh", email: "priya@example.com", password: "s3cret!" };
+
+function samplePath(path: string): string {
+  return path.replace(/:(\w+)/g, (_, name: string) => (/id$/i.test(name) ? "42" : "sample")).replace(/\*/g, "");
+}
+
+async function driveExpress() {
+  if (!app || app.routes.length === 0) return;
+  const routes = app.routes;
+  const auth = { Authorization: `Bearer ${VALID_TOKEN}` };
+
+  for (const layer of routes) {
+    const url = samplePath(layer.path);
+    const body = ["POST", "PUT", "PATCH"].includes(layer.method!) ? SAMPLE_BODY : undefined;
+    emitLine("request", `→ ${layer.method} ${url}  (Authorization: Bearer <valid token>)${body ? ` ${format(body)}` : ""}`);
+    emitLine("response", describe(await app.handle(makeRequest(layer.method!, url, auth, body))));
+  }
+
+  // Show what the middleware does to a caller without credentials
+  if (app.hasMiddleware) {
+    const first = routes[0];
+    const url = samplePath(first.path);
+    emitLine("request", `→ ${first.method} ${url}  (no Authorization header)`);
+    emitLine("response", describe(await app.handle(makeRequest(first.method!, url, {}))));
+  }
+}
+
+async function driveMiddleware(name: string, fn: Fn) {
+  const cases: [string, Record<string, string>][] = [
+    ["no token", {}],
+    ["tampered token", { Authorization: `Bearer ${VALID_TOKEN.slice(0, -2)}xx` }],
+    ["valid token", { Authorization: `Bearer ${VALID_TOKEN}` }],
+  ];
+  for (const [label, headers] of cases) {
+    emitLine("request", `→ ${name}(req, res, next) with ${label}`);
+    const req = makeRequest("GET", "/api/profile", headers);
+    const outcome = await new Promise<string>((resolve) => {
+      const res = makeResponse((status, body) => resolve(describe({ status, body })));
+      const next = (err?: unknown) =>
+        resolve(err === undefined ? `✓ next() called${req.user ? ` — req.user = ${format(req.user)}` : ""}` : `✗ next(${format(err)})`);
+      try {
+        const out = fn(req, res, next);
+        if (out instanceof Promise) out.catch((e: unknown) => resolve(`✗ threw ${format(e)} — Express would answer 500`));
+      } catch (e) {
+        resolve(`✗ threw ${format(e)} — Express would answer 500`);
+      }
+      setTimeout(() => resolve(describe(null)), 1000);
+    });
+    emitLine(outcome.startsWith("✗") ? "error" : "response", outcome);
+  }
+}
+
+const SAMPLE_EVENT = { room: "general", user: "Sarah", text: "Hello everyone!" };
+
+async function driveSocketIO() {
+  const onConnect = ioListeners.connection ?? ioListeners.connect;
+  if (!onConnect?.length) return;
+  const { socket, entry } = createSocket("socket_a1b2");
+  emitLine("request", `→ client ${socket.id} connected`);
+  for (const fn of onConnect) await fn(socket);
+
+  for (const [event, fns] of Object.entries(entry.listeners)) {
+    if (event === "disconnect") continue;
+    emitLine("request", `→ ${socket.id} emits '${event}' ${format(SAMPLE_EVENT)}`);
+    for (const fn of fns) await fn({ ...SAMPLE_EVENT }, () => emitLine("response", "← acknowledgement sent"));
+  }
+
+  emitLine("request", `→ client ${socket.id} disconnected`);
+  for (const fn of entry.listeners.disconnect ?? []) await fn("client namespace disconnect");
+}
+
+/** Names of top-level `(req, res, next)` functions, so the harness can call them */
+function middlewareNames(code: string): string[] {
+  const re = /^\s*(?:(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?(?:function\s*[\w$]*\s*)?\(?\s*req\b|(?:async\s+)?function\s+([A-Za-z_$][\w$]*)\s*\(\s*req\b)/gm;
+  return [...code.matchAll(re)].map((m) => m[1] ?? m[2]);
+}
+
+// ─── Entry point ──────────────────────────────────────────────────────────────
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (...args: string[]) => Fn;
+
+self.onmessage = async (e: MessageEvent<{ code: string }>) => {
+  const { code } = e.data;
+  try {
+    if (/\bimport\s*\(/.test(code) || /^\s*import\s/m.test(code)) {
+      throw new Error("import is not available in the sandbox — use require() for express, jsonwebtoken or socket.io");
+    }
+
+    const names = middlewareNames(code);
+    const exported = `\n;return { ${names.map((n) => `${n}: typeof ${n} === "function" ? ${n} : undefined`).join(", ")} };`;
+    const globals: Dict = {
+      require: sandboxRequire,
+      module: { exports: {} },
+      exports: {},
+      process: { env, argv: ["node", "app.js"], exit: () => {} },
+      console: sandboxConsole,
+      express, jwt, io, authMiddleware, User,
+      ...Object.fromEntries(NETWORK_APIS.map((name) => [name, blocked(name)])),
+    };
+    // The inner block lets snippets re-declare the globals, e.g. `const express = require("express")`
+    const run = new AsyncFunction(...Object.keys(globals), `{\n${code}${exported}\n}`);
+    const found = (await run(...Object.values(globals))) as Record<string, Fn | undefined>;
+
+    await driveExpress();
+    for (const [name, fn] of Object.entries(found)) {
+      if (fn && !registeredHandlers.has(fn)) await driveMiddleware(name, fn);
+    }
+    await driveSocketIO();
+  } catch (err) {
+    emitLine("error", format(err));
+  }
+  // Give pending timers and promise callbacks a moment to log
+  setTimeout(() => post({ type: "done" }), 50);
+};
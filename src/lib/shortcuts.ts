@@ -0,0 +1,91 @@
+/**
+ * shortcuts.ts
+ * The workspace's keyboard shortcuts and the learner's remapped keys, kept in localStorage.
+ * - SHORTCUTS                      → every action with its label, group and default keys
+ * - keyFromEvent(e)                → the name a key is bound by ("d", "ArrowLeft", "Space", "?")
+ * - formatKey(key)                 → the key as printed in the help overlay ("D", "←", "Space")
+ * - isTypingTarget(target, key)    → true when the key belongs to the focused field or button
+ * - actionForKey(keymap, key)      → the action bound to a key, if any
+ * - loadKeymap() / saveKeymap(map) → keys per action, the defaults overlaid with the learner's changes
+ * - rebind(keymap, action, key)    → keymap with the action on that key alone, taken from any other action
+ */
+
+export const SHORTCUTS = [
+  { id: "prevSlide",  group: "Slides",       label: "Previous slide",              keys: ["ArrowLeft", "ArrowUp", "PageUp"] },
+  { id: "nextSlide",  group: "Slides",       label: "Next slide",                  keys: ["ArrowRight", "ArrowDown", "PageDown"] },
+  { id: "zoomIn",     group: "View",         label: "Zoom in",                     keys: ["+", "="] },
+  { id: "zoomOut",    group: "View",         label: "Zoom out",                    keys: ["-"] },
+  { id: "zoomReset",  group: "View",         label: "Reset zoom",                  keys: ["0"] },
+  { id: "deepDive",   group: "Panels",       label: "Open or close the deep dive", keys: ["d"] },
+  { id: "leftPanel",  group: "Panels",       label: "Show or hide the slide list", keys: ["l"] },
+  { id: "rightPanel", group: "Panels",       label: "Show or hide the AI panel",   keys: ["r"] },
+  { id: "speak",      group: "Audio & chat", label: "Play or pause read-aloud",    keys: ["Space"] },
+  { id: "chat",       group: "Audio & chat", label: "Ask the AI tutor",            keys: ["/"] },
+  { id: "export",     group: "General",      label: "Export the deck as PDF",      keys: ["e"] },
+  { id: "help",       group: "General",      label: "Show keyboard shortcuts",     keys: ["?"] },
+] as const;
+
+export type ShortcutAction = (typeof SHORTCUTS)[number]["id"];
+export type Keymap = Record<ShortcutAction, string[]>;
+
+const KEYMAP_KEY = "elexico:shortcuts";
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: "←", ArrowRight: "→", ArrowUp: "↑", ArrowDown: "↓",
+  PageUp: "Page Up", PageDown: "Page Down", Escape: "Esc",
+};
+
+export function keyFromEvent(e: KeyboardEvent): string {
+  if (e.key === " ") return "Space";
+  // Letters are bound case-insensitively so Caps Lock does not break them
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+}
+
+export function formatKey(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+export function isTypingTarget(target: EventTarget | null, key: string): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.closest("input, textarea, select")) return true;
+  // Space and Enter already press the focused button
+  return (key === "Space" || key === "Enter") && !!target.closest("button, a, [role=button]");
+}
+
+export function actionForKey(keymap: Keymap, key: string): ShortcutAction | undefined {
+  return SHORTCUTS.find(({ id }) => keymap[id].includes(key))?.id;
+}
+
+const defaultKeymap = (): Keymap =>
+  Object.fromEntries(SHORTCUTS.map(({ id, keys }) => [id, [...keys]])) as Keymap;
+
+export function loadKeymap(): Keymap {
+  const keymap = defaultKeymap();
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEYMAP_KEY) ?? "{}") as Partial<Keymap>;
+    // Only known actions, so a renamed action falls back to its defaults
+    for (const { id } of SHORTCUTS) {
+      if (Array.isArray(saved[id])) keymap[id] = saved[id];
+    }
+  } catch { /* unreadable — use the defaults */ }
+  return keymap;
+}
+
+/** Saves only the actions that differ from the defaults; pass null to restore them all */
+export function saveKeymap(keymap: Keymap | null): Keymap {
+  const defaults = defaultKeymap();
+  const changed = keymap
+    ? SHORTCUTS.filter(({ id }) => keymap[id].join(" ") !== defaults[id].join(" ")).map(({ id }) => [id, keymap[id]])
+    : [];
+  try {
+    if (changed.length) localStorage.setItem(KEYMAP_KEY, JSON.stringify(Object.fromEntries(changed)));
+    else localStorage.removeItem(KEYMAP_KEY);
+  } catch { /* storage full or disabled — the new keys still work until reload */ }
+  return keymap ?? defaults;
+}
+
+export function rebind(keymap: Keymap, action: ShortcutAction, key: string): Keymap {
+  return Object.fromEntries(
+    SHORTCUTS.map(({ id }) => [id, id === action ? [key] : keymap[id].filter((k) => k !== key)]),
+  ) as Keymap;
+}
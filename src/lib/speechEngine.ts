@@ -0,0 +1,100 @@
+/**
+ * speechEngine.ts
+ * What useTTS / useSTT need from a speech backend, so the browser's voices can be swapped for a
+ * server voice, a local model, or a silent fake. One utterance plays at a time: speak() interrupts
+ * whatever was playing, whichever hook started it.
+ * - getSpeechEngine()       → the engine in use — chosen by VITE_SPEECH_ENGINE ("web", "http" or "fake") on first use
+ * - setSpeechEngine(engine) → replaces it, cancelling anything it was saying
+ *
+ * Engines (each in its own module):
+ * - createWebSpeechEngine()           → window.speechSynthesis and SpeechRecognition
+ * - createHttpSpeechEngine(url)       → audio from a TTS endpoint (see httpSpeechEngine.ts); recognition stays in the browser
+ * - createFakeSpeechEngine(options?)  → deterministic and silent: fixed time per word, scripted recognition
+ */
+import { createWebSpeechEngine } from "./webSpeechEngine";
+import { createHttpSpeechEngine } from "./httpSpeechEngine";
+import { createFakeSpeechEngine } from "./fakeSpeechEngine";
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+export interface SpeakOptions {
+  /** A SpeechVoice id — the engine picks one when unset */
+  voice?: string;
+  rate?: number;
+  pitch?: number;
+  lang?: string;
+}
+
+/** "interrupted" when the utterance was cancelled or replaced by other speech */
+export type SpeechError = "interrupted" | "not-allowed" | "network" | "failed";
+
+/** Never called during the speak() that started the utterance; after onEnd or onError it reports nothing more */
+export interface SpeakCallbacks {
+  onStart?: () => void;
+  /** A word starts at charIndex of the spoken text */
+  onBoundary?: (charIndex: number) => void;
+  onEnd?: () => void;
+  onError?: (error: SpeechError) => void;
+}
+
+export interface SpeechPlayback {
+  /** Stops this utterance if it is still the one playing — other speech is left alone */
+  cancel(): void;
+}
+
+export type RecognitionError = "not-allowed" | "no-speech" | "network" | "failed";
+
+export interface RecognizeCallbacks {
+  /** The words heard so far that may still change */
+  onInterim?: (text: string) => void;
+  onFinal?: (text: string) => void;
+  /** Listening stopped, on request or by itself */
+  onEnd?: () => void;
+  onError?: (error: RecognitionError) => void;
+}
+
+export interface RecognitionSession {
+  /** Stops listening; words already heard are still delivered */
+  stop(): void;
+  abort(): void;
+}
+
+export interface SpeechEngine {
+  /** Shown to learners, e.g. in the voice settings */
+  readonly name: string;
+  speak(text: string, options: SpeakOptions, callbacks: SpeakCallbacks): SpeechPlayback;
+  pause(): void;
+  resume(): void;
+  /** Stops whatever is playing */
+  cancel(): void;
+  voices(): Promise<SpeechVoice[]>;
+  readonly canRecognize: boolean;
+  /** Listens until stopped, or returns null when this engine cannot recognise speech */
+  recognize(options: { lang: string }, callbacks: RecognizeCallbacks): RecognitionSession | null;
+}
+
+const BACKEND_URL = (import.meta.env.VITE_BACKEND_URL || "https://elexcio-backend.onrender.com") as string;
+const ENGINE = (import.meta.env.VITE_SPEECH_ENGINE || "web") as string;
+const TTS_URL = (import.meta.env.VITE_TTS_URL || `${BACKEND_URL}/api/tts`) as string;
+
+let engine: SpeechEngine | null = null;
+
+function defaultEngine(): SpeechEngine {
+  if (ENGINE === "http") return createHttpSpeechEngine(TTS_URL);
+  if (ENGINE === "fake") return createFakeSpeechEngine();
+  return createWebSpeechEngine();
+}
+
+export function getSpeechEngine(): SpeechEngine {
+  engine ??= defaultEngine();
+  return engine;
+}
+
+export function setSpeechEngine(next: SpeechEngine): void {
+  engine?.cancel();
+  engine = next;
+}
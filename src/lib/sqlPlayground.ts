@@ -0,0 +1,67 @@
+/**
+ * sqlPlayground.ts
+ * Runs SQL examples against an in-memory SQLite database (sql.js, loaded on first use).
+ * - runSql(seed, query)  → { ok: true, results, rowsModified } | { ok: false, error }
+ * - seedTables(seed)     → table names created by a seed script, for the UI hint
+ *
+ * Every run starts from a fresh copy of the seed, so an UPDATE or DROP in one run
+ * never leaks into the next.
+ */
+import type { SqlJsStatic } from "sql.js";
+import wasmUrl from "sql.js/dist/sql-wasm-browser.wasm?url";
+
+export interface SqlResultSet {
+  columns: string[];
+  rows: (string | number | null)[][];
+}
+
+export type SqlRunResult =
+  | { ok: true; results: SqlResultSet[]; rowsModified: number; ms: number }
+  | { ok: false; error: string; /** set when the seed itself failed */ inSeed?: boolean };
+
+let engine: Promise<SqlJsStatic> | null = null;
+
+function loadEngine(): Promise<SqlJsStatic> {
+  engine ??= import("sql.js")
+    .then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => wasmUrl }))
+    .catch((err) => {
+      engine = null;
+      throw err;
+    });
+  return engine;
+}
+
+/** Byte arrays (BLOBs) are shown as a size rather than raw bytes */
+function cell(value: unknown): string | number | null {
+  if (value instanceof Uint8Array) return `<blob ${value.length} bytes>`;
+  return value as string | number | null;
+}
+
+export async function runSql(seed: string, query: string): Promise<SqlRunResult> {
+  let SQL: SqlJsStatic;
+  try {
+    SQL = await loadEngine();
+  } catch (err) {
+    return { ok: false, error: `Could not start the SQL engine: ${(err as Error).message}` };
+  }
+
+  const db = new SQL.Database();
+  try {
+    try {
+      db.run(seed);
+    } catch (err) {
+      return { ok: false, error: (err as Error).message, inSeed: true };
+    }
+    const started = performance.now();
+    const results = db.exec(query).map((r) => ({ columns: r.columns, rows: r.values.map((row) => row.map(cell)) }));
+    return { ok: true, results, rowsModified: db.getRowsModified(), ms: performance.now() - started };
+  } catch (err) {
+    return { ok: false, error: (err as Error).message };
+  } finally {
+    db.close();
+  }
+}
+
+export function seedTables(seed: string): string[] {
+  return [...seed.matchAll(/create\s+table\s+(?:if\s+not\s+exists\s+)?["`]?(\w+)/gi)].map((m) => m[1]);
+}
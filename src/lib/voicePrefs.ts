@@ -0,0 +1,71 @@
+/**
+ * voicePrefs.ts
+ * How read-aloud sounds and which language voice input listens for, kept per user (the access code's label).
+ * - getVoicePrefs()                 → the prefs in use — read by useTTS and useSTT each time they start
+ * - setVoicePrefs(prefs)            → makes them the prefs in use
+ * - loadVoicePrefs(userLabel)       → the user's saved prefs, or the defaults
+ * - saveVoicePrefs(userLabel, p)    → persists them
+ * - VOICE_LANGUAGES / RATE_RANGE / PITCH_RANGE → what the settings panel offers
+ */
+
+export interface VoicePrefs {
+  /** A SpeechVoice id, or null to let the engine pick the best voice for the language */
+  voice: string | null;
+  rate: number;
+  pitch: number;
+  /** BCP 47 tag for speaking and for voice input */
+  lang: string;
+}
+
+export const DEFAULT_VOICE_PREFS: VoicePrefs = {
+  voice: null,
+  rate: 0.85,   // soft, unhurried Indian cadence
+  pitch: 1.08,  // gentle warmth — not too high, not flat
+  lang: "en-IN",
+};
+
+export const VOICE_LANGUAGES = [
+  { lang: "en-IN", label: "English (India)" },
+  { lang: "en-US", label: "English (US)" },
+  { lang: "en-GB", label: "English (UK)" },
+  { lang: "hi-IN", label: "हिन्दी (Hindi)" },
+];
+
+export const RATE_RANGE = { min: 0.5, max: 2, step: 0.05 };
+export const PITCH_RANGE = { min: 0.5, max: 1.5, step: 0.02 };
+
+const KEY_PREFIX = "elexico:voice:";
+
+let current: VoicePrefs = DEFAULT_VOICE_PREFS;
+
+export function getVoicePrefs(): VoicePrefs {
+  return current;
+}
+
+export function setVoicePrefs(prefs: VoicePrefs): void {
+  current = prefs;
+}
+
+const clamp = (n: unknown, range: { min: number; max: number }, fallback: number) =>
+  typeof n === "number" && Number.isFinite(n) ? Math.min(range.max, Math.max(range.min, n)) : fallback;
+
+export function loadVoicePrefs(userLabel: string): VoicePrefs {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEY_PREFIX + userLabel) ?? "null") as Partial<VoicePrefs> | null;
+    if (saved && typeof saved === "object") {
+      return {
+        voice: typeof saved.voice === "string" ? saved.voice : null,
+        rate: clamp(saved.rate, RATE_RANGE, DEFAULT_VOICE_PREFS.rate),
+        pitch: clamp(saved.pitch, PITCH_RANGE, DEFAULT_VOICE_PREFS.pitch),
+        lang: VOICE_LANGUAGES.some((l) => l.lang === saved.lang) ? saved.lang as string : DEFAULT_VOICE_PREFS.lang,
+      };
+    }
+  } catch { /* unreadable — use the defaults */ }
+  return DEFAULT_VOICE_PREFS;
+}
+
+export function saveVoicePrefs(userLabel: string, prefs: VoicePrefs): void {
+  try {
+    localStorage.setItem(KEY_PREFIX + userLabel, JSON.stringify(prefs));
+  } catch { /* storage full or disabled — the voice lasts until reload */ }
+}
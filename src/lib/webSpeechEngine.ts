@@ -0,0 +1,210 @@
+/**
+ * webSpeechEngine.ts
+ * The browser's own speech: window.speechSynthesis for voices, SpeechRecognition for the microphone.
+ * Smooths over browser differences — Chrome loads voices late, and a cancelled utterance ends with
+ * an error in some browsers and an ordinary end in others; both report "interrupted" here.
+ * - createWebSpeechEngine() → SpeechEngine (see speechEngine.ts)
+ */
+import type {
+  RecognitionError, RecognitionSession, SpeechEngine, SpeechError, SpeechVoice,
+} from "./speechEngine";
+
+// ─── SpeechRecognition typings (not in lib.dom yet) ───────────────────────────
+interface ISpeechRecognitionResult {
+  readonly [index: number]: { readonly transcript: string };
+  readonly isFinal: boolean;
+}
+interface ISpeechRecognitionEvent {
+  readonly resultIndex: number;
+  readonly results: ArrayLike<ISpeechRecognitionResult>;
+}
+interface ISpeechRecognitionErrorEvent {
+  readonly error: string;
+}
+interface ISpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((e: ISpeechRecognitionEvent) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((e: ISpeechRecognitionErrorEvent) => void) | null;
+}
+type SpeechRecognitionCtor = new () => ISpeechRecognition;
+
+declare global {
+  interface Window {
+    SpeechRecognition?: SpeechRecognitionCtor;
+    webkitSpeechRecognition?: SpeechRecognitionCtor;
+  }
+}
+
+// ─── Voices ───────────────────────────────────────────────────────────────────
+/** Pick best Indian English voice from a loaded voices list */
+function pickIndianVoice(voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice | null {
+  return (
+    // 1st: Google en-IN (Ravi / Heera / Neerja — Chrome built-ins)
+    voices.find(v => v.lang === "en-IN" && v.name.toLowerCase().includes("google")) ??
+    // 2nd: any named Indian voice
+    voices.find(v => v.lang === "en-IN" && /ravi|heera|neerja|veena|lekha/i.test(v.name)) ??
+    // 3rd: any en-IN voice
+    voices.find(v => v.lang === "en-IN") ??
+    // 4th: Google English fallback
+    voices.find(v => v.lang.startsWith("en") && v.name.toLowerCase().includes("google")) ??
+    voices.find(v => v.lang.startsWith("en")) ??
+    null
+  );
+}
+
+/**
+ * The voice used when the learner has not chosen one: the Indian English strategy above for en-IN,
+ * otherwise a Google voice for the exact language, any voice for it, then any voice sharing its base language.
+ */
+function pickDefaultVoice(voices: SpeechSynthesisVoice[], lang = "en-IN"): SpeechSynthesisVoice | null {
+  if (lang === "en-IN") return pickIndianVoice(voices);
+  // Some platforms report "en_GB" rather than "en-GB"
+  const langOf = (v: SpeechSynthesisVoice) => v.lang.replace("_", "-");
+  const base = lang.split("-")[0];
+  return (
+    voices.find(v => langOf(v) === lang && v.name.toLowerCase().includes("google")) ??
+    voices.find(v => langOf(v) === lang) ??
+    voices.find(v => langOf(v).split("-")[0] === base) ??
+    null
+  );
+}
+
+/**
+ * Resolves to the browser's voices once they are loaded.
+ * Handles the Chrome async voice-loading race condition.
+ */
+function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+  return new Promise(resolve => {
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      resolve(voices);
+      return;
+    }
+    // Voices not loaded yet — wait for the event (fires once on Chrome)
+    const handler = () => {
+      window.speechSynthesis.removeEventListener("voiceschanged", handler);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener("voiceschanged", handler);
+    // Safety timeout — carry on without a voice after 2 s if the event never fires
+    setTimeout(() => {
+      window.speechSynthesis.removeEventListener("voiceschanged", handler);
+      resolve(window.speechSynthesis.getVoices());
+    }, 2000);
+  });
+}
+
+const speechError = (error: string): SpeechError =>
+  error === "interrupted" || error === "canceled" ? "interrupted"
+  : error === "not-allowed" ? "not-allowed"
+  : error === "network" ? "network"
+  : "failed";
+
+const recognitionError = (error: string): RecognitionError =>
+  error === "not-allowed" || error === "permission-denied" ? "not-allowed"
+  : error === "no-speech" ? "no-speech"
+  : error === "network" ? "network"
+  : "failed";
+
+// ─── Engine ───────────────────────────────────────────────────────────────────
+export function createWebSpeechEngine(): SpeechEngine {
+  const synth = typeof window !== "undefined" && "speechSynthesis" in window ? window.speechSynthesis : null;
+  const Recognition = typeof window !== "undefined" ? window.SpeechRecognition ?? window.webkitSpeechRecognition : undefined;
+  // Ends the utterance that is playing with the given outcome
+  let settleCurrent: ((error?: SpeechError) => void) | null = null;
+
+  const interrupt = () => {
+    settleCurrent?.("interrupted");
+    synth?.cancel();
+  };
+
+  return {
+    name: "Browser voices",
+
+    speak(text, options, callbacks) {
+      interrupt();
+      let settled = false;
+      const settle = (error?: SpeechError) => {
+        if (settled) return;
+        settled = true;
+        if (settleCurrent === settle) settleCurrent = null;
+        if (error) callbacks.onError?.(error);
+        else callbacks.onEnd?.();
+      };
+      settleCurrent = settle;
+
+      if (!synth) {
+        setTimeout(() => settle("failed"), 0);
+      } else {
+        // Async: wait for voices to load (fixes Chrome race condition on Linux)
+        loadVoices().then((voices) => {
+          if (settled) return;
+          const utt = new SpeechSynthesisUtterance(text);
+          if (options.rate !== undefined) utt.rate = options.rate;
+          if (options.pitch !== undefined) utt.pitch = options.pitch;
+          if (options.lang) utt.lang = options.lang;
+          const voice = voices.find((v) => v.voiceURI === options.voice) ?? pickDefaultVoice(voices, options.lang);
+          if (voice) utt.voice = voice;
+          utt.onstart = () => { if (!settled) callbacks.onStart?.(); };
+          utt.onboundary = (e) => { if (!settled && e.name === "word") callbacks.onBoundary?.(e.charIndex); };
+          utt.onend = () => settle();
+          utt.onerror = (e) => settle(speechError(e.error));
+          synth.speak(utt);
+        });
+      }
+
+      return {
+        cancel() {
+          if (settleCurrent === settle) interrupt();
+        },
+      };
+    },
+
+    pause() { synth?.pause(); },
+    resume() { synth?.resume(); },
+    cancel: interrupt,
+
+    async voices(): Promise<SpeechVoice[]> {
+      if (!synth) return [];
+      return (await loadVoices()).map((v) => ({ id: v.voiceURI, name: v.name, lang: v.lang }));
+    },
+
+    canRecognize: !!Recognition,
+
+    recognize(options, callbacks): RecognitionSession | null {
+      if (!Recognition) return null;
+      const rec = new Recognition();
+      rec.continuous     = true;   // keep listening until user stops
+      rec.interimResults = true;   // show live text as user speaks
+      rec.lang           = options.lang;
+
+      rec.onresult = (e) => {
+        let interimText = "";
+        let finalText   = "";
+        Array.from(e.results).forEach((r, i) => {
+          const t = r[0].transcript;
+          // Earlier final results were delivered by earlier events
+          if (r.isFinal) { if (i >= e.resultIndex) finalText += t + " "; }
+          else interimText += t;
+        });
+        if (interimText) callbacks.onInterim?.(interimText);
+        if (finalText.trim()) callbacks.onFinal?.(finalText.trim());
+      };
+      rec.onend = () => callbacks.onEnd?.();
+      rec.onerror = (e) => callbacks.onError?.(recognitionError(e.error));
+
+      try {
+        rec.start();
+      } catch {
+        return null;
+      }
+      return { stop: () => rec.stop(), abort: () => rec.abort() };
+    },
+  };
+}
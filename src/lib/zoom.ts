@@ -0,0 +1,18 @@
+/**
+ * zoom.ts
+ * Slide zoom levels, shared by the dashboard and the presenter window that drives it.
+ * - clampZoom(zoom)           → zoom within MIN_ZOOM…MAX_ZOOM
+ * - stepZoom(zoom, direction) → one step in (1) or out (-1)
+ */
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 2.0;
+const ZOOM_STEP = 0.15;
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+export function stepZoom(zoom: number, direction: 1 | -1): number {
+  return clampZoom(parseFloat((zoom + direction * ZOOM_STEP).toFixed(2)));
+}